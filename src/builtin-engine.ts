@@ -0,0 +1,571 @@
+import { readFileSync } from 'fs';
+import { glob } from 'glob';
+import type { CustomPattern, SemgrepError, SemgrepOutput, SemgrepResult } from './types.js';
+
+/**
+ * How the default value follows a match:
+ * - expr: binary fallback (`|| x`, `?? x`, ternary else branch)
+ * - arg: next call argument, must be followed by `)`
+ * - closure: Rust `unwrap_or_else(|_| x)`
+ */
+type DefaultKind = 'expr' | 'arg' | 'closure';
+
+/**
+ * A computed key: the first call argument or the bracket index
+ */
+type ExpressionKind = DefaultKind | 'key';
+
+interface BuiltinRule {
+  /** Rule id, mirrors the id in rules/rules.yaml */
+  id: string;
+  /** Semgrep language names this rule applies to */
+  languages: string[];
+  /** Group 1 captures the variable name; a default expression starts at the end of the match */
+  regex: RegExp;
+  default?: DefaultKind;
+  /** The key expression starts at the end of the match; only non-literal keys are reported */
+  dynamic?: boolean;
+}
+
+/**
+ * File extensions per semgrep language name
+ */
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  python: ['py'],
+  go: ['go'],
+  java: ['java'],
+  kotlin: ['kt', 'kts'],
+  ruby: ['rb'],
+  rust: ['rs'],
+  csharp: ['cs'],
+  php: ['php'],
+  scala: ['scala'],
+};
+
+const EXTENSION_LANGUAGE: Record<string, string> = Object.fromEntries(
+  Object.entries(LANGUAGE_EXTENSIONS).flatMap(([lang, exts]) => exts.map((ext) => [ext, lang]))
+);
+
+const JS = ['javascript', 'typescript'];
+
+/**
+ * A string literal form: where it ends and which parts of it are code
+ */
+interface StringSyntax {
+  quote: string;
+  multiline?: boolean;
+  /** Backslashes don't escape */
+  raw?: boolean;
+  /** Opens an embedded expression that runs to the matching `}` */
+  interpolation?: string;
+  /** Interpolation only applies when the text before the quote matches (Python f-strings) */
+  interpolationPrefix?: RegExp;
+}
+
+/**
+ * Comment and string syntax of a language, so matches inside them can be skipped
+ */
+interface LexicalSyntax {
+  lineComments: string[];
+  blockComment?: [string, string];
+  /** Longer quotes first */
+  strings: StringSyntax[];
+  /** '…' is a one-character literal rather than a string (Go runes, Rust chars and lifetimes) */
+  charLiterals?: boolean;
+}
+
+const DOUBLE_QUOTED: StringSyntax = { quote: '"' };
+const SINGLE_QUOTED: StringSyntax = { quote: "'" };
+const C_COMMENTS = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+const JS_SYNTAX: LexicalSyntax = {
+  ...C_COMMENTS,
+  strings: [DOUBLE_QUOTED, SINGLE_QUOTED, { quote: '`', multiline: true, interpolation: '${' }],
+};
+
+const LEXICAL_SYNTAX: Record<string, LexicalSyntax> = {
+  javascript: JS_SYNTAX,
+  typescript: JS_SYNTAX,
+  python: {
+    lineComments: ['#'],
+    strings: ['"""', "'''", '"', "'"].map((quote) => ({
+      quote,
+      multiline: quote.length === 3,
+      interpolation: '{',
+      interpolationPrefix: /(?:^|[^\w])(?:[fF][rR]?|[rR][fF])$/,
+    })),
+  },
+  go: { ...C_COMMENTS, strings: [DOUBLE_QUOTED, { quote: '`', multiline: true, raw: true }], charLiterals: true },
+  java: { ...C_COMMENTS, strings: [{ quote: '"""', multiline: true }, DOUBLE_QUOTED, SINGLE_QUOTED] },
+  kotlin: {
+    ...C_COMMENTS,
+    strings: [{ quote: '"""', multiline: true, raw: true, interpolation: '${' }, { quote: '"', interpolation: '${' }, SINGLE_QUOTED],
+  },
+  ruby: {
+    lineComments: ['#'],
+    strings: [{ quote: '"', multiline: true, interpolation: '#{' }, { quote: "'", multiline: true }],
+  },
+  rust: { ...C_COMMENTS, strings: [DOUBLE_QUOTED], charLiterals: true },
+  csharp: { ...C_COMMENTS, strings: [DOUBLE_QUOTED, SINGLE_QUOTED] },
+  php: { lineComments: ['//', '#'], blockComment: ['/*', '*/'], strings: [DOUBLE_QUOTED, SINGLE_QUOTED] },
+  scala: { ...C_COMMENTS, strings: [{ quote: '"""', multiline: true, raw: true }, DOUBLE_QUOTED, SINGLE_QUOTED] },
+};
+
+/**
+ * A one-character literal: 'a', '\n', '\u{1F600}'
+ */
+const CHAR_LITERAL_RE = /'(?:\\(?:u\{[0-9a-fA-F]+\}|.)|[^\\'\n])'/y;
+
+/**
+ * The most common access patterns from rules/rules.yaml, as regexes.
+ * Ids match the semgrep rules so results are indistinguishable downstream.
+ */
+const BUILTIN_RULES: BuiltinRule[] = [
+  // JavaScript/TypeScript
+  { id: 'js-process-env-dot', languages: JS, regex: /process\.env\.([A-Za-z_$][\w$]*)/g },
+  { id: 'js-process-env-bracket', languages: JS, regex: /process\.env\[\s*["'`]([^"'`\]]+)["'`]\s*\]/g },
+  { id: 'js-process-env-or-default', languages: JS, regex: /process\.env\.([A-Za-z_$][\w$]*)\s*\|\|\s*/g, default: 'expr' },
+  { id: 'js-process-env-nullish-default', languages: JS, regex: /process\.env\.([A-Za-z_$][\w$]*)\s*\?\?\s*/g, default: 'expr' },
+  { id: 'js-process-env-bracket-or-default', languages: JS, regex: /process\.env\[\s*["'`]([^"'`\]]+)["'`]\s*\]\s*\|\|\s*/g, default: 'expr' },
+  { id: 'js-process-env-bracket-nullish-default', languages: JS, regex: /process\.env\[\s*["'`]([^"'`\]]+)["'`]\s*\]\s*\?\?\s*/g, default: 'expr' },
+  // envalid: cleanEnv(process.env, { PORT: port(), ... }); matches any property whose value is a validator call
+  ...['str', 'bool', 'num', 'port', 'url', 'json', 'email', 'host'].map((validator) => ({
+    id: `js-envalid-${validator}`,
+    languages: JS,
+    regex: new RegExp(`(?<=[{,]\\s*)["']?([A-Za-z_][\\w]*)["']?\\s*:\\s*${validator}\\(`, 'g'),
+  })),
+
+  // Go
+  { id: 'go-os-getenv', languages: ['go'], regex: /\bos\.Getenv\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-os-lookupenv', languages: ['go'], regex: /\bos\.LookupEnv\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-get', languages: ['go'], regex: /\bviper\.Get\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getstring', languages: ['go'], regex: /\bviper\.GetString\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getbool', languages: ['go'], regex: /\bviper\.GetBool\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getint', languages: ['go'], regex: /\bviper\.GetInt\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getint64', languages: ['go'], regex: /\bviper\.GetInt64\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getduration', languages: ['go'], regex: /\bviper\.GetDuration\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'go-viper-getfloat64', languages: ['go'], regex: /\bviper\.GetFloat64\(\s*"([^"\n]+)"\s*\)/g },
+
+  // Python
+  { id: 'python-os-getenv', languages: ['python'], regex: /\bos\.getenv\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'python-os-getenv-single', languages: ['python'], regex: /\bos\.getenv\(\s*'([^'\n]+)'\s*\)/g },
+  { id: 'python-os-getenv-default-double', languages: ['python'], regex: /\bos\.getenv\(\s*"([^"\n]+)"\s*,\s*/g, default: 'arg' },
+  { id: 'python-os-getenv-default-single', languages: ['python'], regex: /\bos\.getenv\(\s*'([^'\n]+)'\s*,\s*/g, default: 'arg' },
+  { id: 'python-os-environ-get', languages: ['python'], regex: /\bos\.environ\.get\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'python-os-environ-get-single', languages: ['python'], regex: /\bos\.environ\.get\(\s*'([^'\n]+)'\s*\)/g },
+  { id: 'python-os-environ-get-default', languages: ['python'], regex: /\bos\.environ\.get\(\s*"([^"\n]+)"\s*,\s*/g, default: 'arg' },
+  { id: 'python-os-environ-get-default-single', languages: ['python'], regex: /\bos\.environ\.get\(\s*'([^'\n]+)'\s*,\s*/g, default: 'arg' },
+  { id: 'python-os-environ-bracket', languages: ['python'], regex: /\bos\.environ\[\s*"([^"\n]+)"\s*\]/g },
+  { id: 'python-os-environ-bracket-single', languages: ['python'], regex: /\bos\.environ\[\s*'([^'\n]+)'\s*\]/g },
+  ...['str', 'bool', 'int', 'float', 'list', 'json', 'url'].map((type) => ({
+    id: `python-django-env-${type}`,
+    languages: ['python'],
+    regex: new RegExp(`\\benv\\.${type}\\(\\s*["']([^"'\\n]+)["']`, 'g'),
+  })),
+
+  // Java / Kotlin
+  { id: 'java-system-getenv', languages: ['java'], regex: /\bSystem\.getenv\(\s*"([^"\n]+)"\s*\)/g },
+  {
+    id: 'java-system-getenv-or-default',
+    languages: ['java'],
+    regex: /\bSystem\.getenv\(\s*"([^"\n]+)"\s*\)\s*!=\s*null\s*\?\s*System\.getenv\(\s*"\1"\s*\)\s*:\s*/g,
+    default: 'expr',
+  },
+  {
+    id: 'java-optional-getenv-orelse',
+    languages: ['java'],
+    regex: /\bOptional\.ofNullable\(\s*System\.getenv\(\s*"([^"\n]+)"\s*\)\s*\)\s*\.orElse\(\s*/g,
+    default: 'arg',
+  },
+  { id: 'java-spring-environment-get', languages: ['java'], regex: /\benvironment\.getProperty\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'java-spring-environment-required', languages: ['java'], regex: /\benvironment\.getRequiredProperty\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'kotlin-system-getenv', languages: ['kotlin'], regex: /\bSystem\.getenv\(\s*"([^"\n]+)"\s*\)/g },
+
+  // Ruby
+  { id: 'ruby-env-bracket', languages: ['ruby'], regex: /\bENV\[\s*"([^"\n]+)"\s*\]/g },
+  { id: 'ruby-env-bracket-single', languages: ['ruby'], regex: /\bENV\[\s*'([^'\n]+)'\s*\]/g },
+  { id: 'ruby-env-fetch', languages: ['ruby'], regex: /\bENV\.fetch\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'ruby-env-fetch-single', languages: ['ruby'], regex: /\bENV\.fetch\(\s*'([^'\n]+)'\s*\)/g },
+  { id: 'ruby-env-fetch-default-double', languages: ['ruby'], regex: /\bENV\.fetch\(\s*"([^"\n]+)"\s*,\s*/g, default: 'arg' },
+  { id: 'ruby-env-fetch-default-single', languages: ['ruby'], regex: /\bENV\.fetch\(\s*'([^'\n]+)'\s*,\s*/g, default: 'arg' },
+  { id: 'ruby-env-bracket-or-default', languages: ['ruby'], regex: /\bENV\[\s*"([^"\n]+)"\s*\]\s*\|\|\s*/g, default: 'expr' },
+  { id: 'ruby-env-bracket-single-or-default', languages: ['ruby'], regex: /\bENV\[\s*'([^'\n]+)'\s*\]\s*\|\|\s*/g, default: 'expr' },
+
+  // Rust
+  { id: 'rust-std-env-var', languages: ['rust'], regex: /\bstd::env::var\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'rust-env-var', languages: ['rust'], regex: /(?<!std::)\benv::var\(\s*"([^"\n]+)"\s*\)/g },
+  { id: 'rust-env-var-unwrap-or', languages: ['rust'], regex: /\bstd::env::var\(\s*"([^"\n]+)"\s*\)\s*\.unwrap_or\(\s*/g, default: 'arg' },
+  {
+    id: 'rust-env-var-unwrap-or-else',
+    languages: ['rust'],
+    regex: /\bstd::env::var\(\s*"([^"\n]+)"\s*\)\s*\.unwrap_or_else\(\s*\|_\|\s*/g,
+    default: 'closure',
+  },
+  { id: 'rust-env-var-short-unwrap-or', languages: ['rust'], regex: /(?<!std::)\benv::var\(\s*"([^"\n]+)"\s*\)\s*\.unwrap_or\(\s*/g, default: 'arg' },
+
+  // Computed keys
+  { id: 'js-process-env-dynamic', languages: JS, regex: /process\.env\[\s*/g, dynamic: true },
+  { id: 'go-os-getenv-dynamic', languages: ['go'], regex: /\bos\.(?:Getenv|LookupEnv)\(\s*/g, dynamic: true },
+  { id: 'python-os-environ-dynamic', languages: ['python'], regex: /\bos\.(?:getenv\(|environ\.get\(|environ\[)\s*/g, dynamic: true },
+  { id: 'java-system-getenv-dynamic', languages: ['java'], regex: /\bSystem\.getenv\(\s*/g, dynamic: true },
+  { id: 'kotlin-system-getenv-dynamic', languages: ['kotlin'], regex: /\bSystem\.getenv\(\s*/g, dynamic: true },
+  { id: 'ruby-env-dynamic', languages: ['ruby'], regex: /\bENV(?:\[|\.fetch\()\s*/g, dynamic: true },
+  { id: 'rust-env-var-dynamic', languages: ['rust'], regex: /\benv::var(?:_os)?\(\s*/g, dynamic: true },
+];
+
+/**
+ * A plain string literal (a template literal only without ${} substitutions, a double-quoted one without Ruby #{})
+ */
+const STRING_LITERAL_RE = /^(?:"(?:\\.|#(?!\{)|[^"\\#])*"|'(?:\\.|[^'\\])*'|`[^`$]*`)$/;
+
+/**
+ * Scan source files with the built-in matcher.
+ * Returns semgrep-shaped output so scan() can process both engines the same way.
+ */
+export async function runBuiltinEngine(
+  absPath: string,
+  excludePatterns: string[],
+  customPatterns: CustomPattern[] = []
+): Promise<SemgrepOutput> {
+  const errors: SemgrepError[] = [];
+  const rules = [...BUILTIN_RULES];
+
+  for (const custom of customPatterns) {
+    const rule = customPatternToRule(custom);
+    if (rule) {
+      rules.push(rule);
+    } else {
+      errors.push({
+        message: `Custom pattern "${custom.id}" is not supported by the built-in engine (use --engine semgrep)`,
+        level: 'warn',
+      });
+    }
+  }
+
+  // Group rules by file extension
+  const rulesByExt = new Map<string, BuiltinRule[]>();
+  for (const rule of rules) {
+    for (const lang of rule.languages) {
+      for (const ext of LANGUAGE_EXTENSIONS[lang] ?? []) {
+        const list = rulesByExt.get(ext) || [];
+        if (!list.includes(rule)) list.push(rule);
+        rulesByExt.set(ext, list);
+      }
+    }
+  }
+
+  if (rulesByExt.size === 0) {
+    return { results: [], errors };
+  }
+
+  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+  const files = await glob(`**/*.{${[...rulesByExt.keys()].join(',')}}`, {
+    cwd: absPath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  const results: SemgrepResult[] = [];
+
+  for (const file of files.sort()) {
+    const ext = file.slice(file.lastIndexOf('.') + 1);
+    const fileRules = rulesByExt.get(ext);
+    if (!fileRules) continue;
+
+    let content: string;
+    try {
+      content = readFileSync(file, 'utf-8');
+    } catch (e) {
+      errors.push({ message: `Failed to read ${file}: ${e instanceof Error ? e.message : e}`, level: 'warn' });
+      continue;
+    }
+
+    const lineStarts = computeLineStarts(content);
+    const syntax = LEXICAL_SYNTAX[EXTENSION_LANGUAGE[ext]];
+    const nonCode = syntax ? nonCodeRanges(content, syntax) : [];
+
+    for (const rule of fileRules) {
+      rule.regex.lastIndex = 0;
+      let match;
+      while ((match = rule.regex.exec(content)) !== null) {
+        // Commented-out code and text in strings are not reads; a match may start at a string's opening quote
+        if (insideRange(nonCode, match.index)) continue;
+
+        const name = match[1];
+        let end = match.index + match[0].length;
+        let message = name;
+
+        if (rule.dynamic) {
+          const key = readExpression(content, end, 'key');
+          if (!key || STRING_LITERAL_RE.test(key.text)) continue;
+          message = key.text;
+          end = key.end;
+        } else if (rule.default) {
+          const expr = readExpression(content, end, rule.default);
+          if (!expr) continue;
+          message = `${name}|||${expr.text}`;
+          end = expr.end;
+        }
+
+        const startPos = toPosition(lineStarts, match.index);
+        const lineEnd = content.indexOf('\n', match.index);
+
+        results.push({
+          check_id: rule.id,
+          path: file,
+          start: startPos,
+          end: toPosition(lineStarts, end),
+          extra: {
+            message,
+            lines: content.slice(lineStarts[startPos.line - 1], lineEnd === -1 ? undefined : lineEnd),
+          },
+        });
+      }
+    }
+  }
+
+  return { results, errors };
+}
+
+/**
+ * Read a default-value expression starting at `start`.
+ * Tracks brackets and string literals; stops at the first top-level terminator.
+ */
+function readExpression(content: string, start: number, kind: ExpressionKind): { text: string; end: number } | null {
+  const terminators = kind === 'expr' ? ',;)]}?:\n' : kind === 'key' ? ',)]\n' : ',)\n';
+  const closers: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const stack: string[] = [];
+  let i = start;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(content, i);
+      continue;
+    }
+    if (closers[ch]) {
+      stack.push(closers[ch]);
+    } else if (stack.length > 0) {
+      if (ch === stack[stack.length - 1]) stack.pop();
+    } else if (terminators.includes(ch)) {
+      break;
+    }
+    i++;
+  }
+
+  const text = content.slice(start, i).trim();
+  if (!text) return null;
+
+  // Call arguments must close the call, otherwise we read something else
+  if ((kind === 'arg' || kind === 'closure') && content[i] !== ')') return null;
+
+  return { text, end: i };
+}
+
+/**
+ * Index just past a string literal starting at `start`
+ */
+function skipString(content: string, start: number): number {
+  const quote = content[start];
+  let i = start + 1;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) return i + 1;
+    // Only template literals may span lines
+    if (ch === '\n' && quote !== '`') return i;
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Offsets of comments and string literals, in order; interpolated expressions (`${…}`, `#{…}`) stay code
+ */
+function nonCodeRanges(content: string, syntax: LexicalSyntax): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  scanCode(content, 0, syntax, ranges, false);
+  return ranges;
+}
+
+/**
+ * Walk code from `start`, recording comments and strings.
+ * Inside an interpolation, stops just past its closing brace.
+ */
+function scanCode(
+  content: string,
+  start: number,
+  syntax: LexicalSyntax,
+  ranges: Array<[number, number]>,
+  interpolated: boolean
+): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (interpolated && ch === '{') {
+      depth++;
+    } else if (interpolated && ch === '}') {
+      if (depth === 0) return i + 1;
+      depth--;
+    }
+
+    const lineComment = syntax.lineComments.find((c) => content.startsWith(c, i));
+    if (lineComment) {
+      const newline = content.indexOf('\n', i);
+      const end = newline === -1 ? content.length : newline;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+    if (syntax.blockComment && content.startsWith(syntax.blockComment[0], i)) {
+      const close = content.indexOf(syntax.blockComment[1], i + syntax.blockComment[0].length);
+      const end = close === -1 ? content.length : close + syntax.blockComment[1].length;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+    if (syntax.charLiterals && ch === "'") {
+      CHAR_LITERAL_RE.lastIndex = i;
+      // Anything else is a Rust lifetime
+      i = CHAR_LITERAL_RE.test(content) ? CHAR_LITERAL_RE.lastIndex : i + 1;
+      continue;
+    }
+    const str = syntax.strings.find((s) => content.startsWith(s.quote, i));
+    if (str) {
+      i = scanStringLiteral(content, i, str, syntax, ranges);
+      continue;
+    }
+    i++;
+  }
+
+  return i;
+}
+
+/**
+ * Record a string literal starting at `start`, minus its interpolations; returns the index just past it
+ */
+function scanStringLiteral(
+  content: string,
+  start: number,
+  str: StringSyntax,
+  syntax: LexicalSyntax,
+  ranges: Array<[number, number]>
+): number {
+  const interpolation = str.interpolation && (!str.interpolationPrefix || str.interpolationPrefix.test(content.slice(Math.max(0, start - 3), start)))
+    ? str.interpolation
+    : undefined;
+  let segmentStart = start;
+  let i = start + str.quote.length;
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\' && !str.raw) {
+      i += 2;
+      continue;
+    }
+    if (content.startsWith(str.quote, i)) {
+      i += str.quote.length;
+      break;
+    }
+    if (ch === '\n' && !str.multiline) break;
+    if (interpolation && content.startsWith(interpolation, i)) {
+      // Python's {{ is a literal brace
+      if (interpolation === '{' && content[i + 1] === '{') {
+        i += 2;
+        continue;
+      }
+      ranges.push([segmentStart, i]);
+      i = scanCode(content, i + interpolation.length, syntax, ranges, true);
+      // From the closing brace, so text right after it is still inside
+      segmentStart = i - 1;
+      continue;
+    }
+    i++;
+  }
+
+  ranges.push([segmentStart, i]);
+  return i;
+}
+
+/**
+ * Whether offset lies inside one of the sorted ranges, past its first character
+ */
+function insideRange(ranges: Array<[number, number]>, offset: number): boolean {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const [start, end] = ranges[mid];
+    if (offset <= start) hi = mid - 1;
+    else if (offset >= end) lo = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+function computeLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function toPosition(lineStarts: number[], offset: number): { line: number; col: number } {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, col: offset - lineStarts[lo] + 1 };
+}
+
+/**
+ * Translate a simple semgrep pattern into a regex rule.
+ * Supports literal code with "$VAR" / '$VAR' / bare $VAR, `...` and other metavariables.
+ */
+function customPatternToRule(custom: CustomPattern): BuiltinRule | null {
+  const languages = custom.languages.filter((l) => LANGUAGE_EXTENSIONS[l]);
+  if (languages.length === 0) return null;
+
+  const tokenRe = /"\$VAR"|'\$VAR'|\$VAR\b|\.\.\.|\$[A-Z][A-Z0-9_]*|\s+|[\s\S]/g;
+  let source = '';
+  let hasVar = false;
+  let token;
+
+  while ((token = tokenRe.exec(custom.pattern.trim())) !== null) {
+    const t = token[0];
+    if (t === '"$VAR"' || t === "'$VAR'") {
+      if (hasVar) return null;
+      source += `${t[0]}([^${t[0]}\\n]+)${t[0]}`;
+      hasVar = true;
+    } else if (t === '$VAR') {
+      if (hasVar) return null;
+      source += '([A-Za-z_][\\w]*)';
+      hasVar = true;
+    } else if (t === '...') {
+      source += '[^;\\n]*?';
+    } else if (t.startsWith('$')) {
+      source += '[\\w.]+';
+    } else if (/^\s+$/.test(t)) {
+      source += '\\s*';
+    } else {
+      source += t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  if (!hasVar) return null;
+
+  return { id: `custom-${custom.id}`, languages, regex: new RegExp(source, 'g') };
+}
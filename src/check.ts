@@ -0,0 +1,98 @@
+import type { EnvVar, ScanResult } from './types.js';
+
+/**
+ * Whether a finding reads a variable or defines it
+ */
+export type UsageKind = 'read' | 'definition';
+
+/**
+ * Languages whose findings define variables rather than read them
+ */
+const DEFINITION_LANGUAGES = new Set(['dotenv', 'kubernetes', 'helm', 'terraform', 'ecs', 'github-actions', 'gitlab-ci']);
+
+/**
+ * Patterns that define variables within otherwise-reading languages
+ */
+const DEFINITION_PATTERNS: Record<string, string[]> = {
+  dockerfile: ['ENV', 'ARG'],
+  'docker-compose': ['environment-definition', 'env-file'],
+  shell: ['export'],
+  makefile: ['export'],
+};
+
+/**
+ * Classify a finding as a read (code, property placeholders, compose interpolation, shell expansions, Dockerfile RUN/CMD)
+ * or a definition (.env, Dockerfile, compose environment, k8s, Helm, Terraform/ECS, CI workflows, shell exports)
+ */
+export function getUsageKind(envVar: EnvVar): UsageKind {
+  if (DEFINITION_LANGUAGES.has(envVar.language)) return 'definition';
+  if (DEFINITION_PATTERNS[envVar.language]?.includes(envVar.pattern)) return 'definition';
+  return 'read';
+}
+
+export interface CheckFinding {
+  name: string;
+  /** Where the variable is read (undefined) or defined (unused) */
+  locations: { file: string; line: number; language: string; pattern: string }[];
+}
+
+export interface CheckResult {
+  /** Read in code with no definition and no code default anywhere */
+  undefined: CheckFinding[];
+  /** Defined in .env/Dockerfile/compose/k8s/Terraform/CI but never read */
+  unused: CheckFinding[];
+}
+
+export interface CheckOptions {
+  /** Variable names to skip in both checks */
+  ignore?: string[];
+}
+
+/**
+ * Cross-reference reads against definitions in a merged scan result
+ */
+export function checkEnvVars(result: ScanResult, options: CheckOptions = {}): CheckResult {
+  const ignore = new Set(options.ignore ?? []);
+  const reads = new Map<string, EnvVar[]>();
+  const definitions = new Map<string, EnvVar[]>();
+
+  for (const ev of result.envVars) {
+    if (ignore.has(ev.name)) continue;
+    const target = getUsageKind(ev) === 'read' ? reads : definitions;
+    const list = target.get(ev.name) || [];
+    list.push(ev);
+    target.set(ev.name, list);
+  }
+
+  const toFinding = (name: string, envVars: EnvVar[]): CheckFinding => ({
+    name,
+    locations: envVars.map(({ file, line, language, pattern }) => ({ file, line, language, pattern })),
+  });
+
+  const undefinedVars: CheckFinding[] = [];
+  for (const [name, usages] of reads) {
+    if (definitions.has(name)) continue;
+    // A default in code (or a ${VAR:default} placeholder) satisfies the read
+    if (usages.some((u) => u.isDefault)) continue;
+    undefinedVars.push(toFinding(name, usages));
+  }
+
+  const unused: CheckFinding[] = [];
+  for (const [name, defs] of definitions) {
+    if (reads.has(name)) continue;
+    // Build args only exist at build time, they are not expected to be read by code
+    // and CI secrets/variables are often consumed by the pipeline itself (action inputs)
+    const runtimeDefs = defs.filter(
+      (d) => !(d.language === 'dockerfile' && d.pattern === 'ARG') && !(d.language === 'github-actions' && d.pattern !== 'env')
+    );
+    if (runtimeDefs.length === 0) continue;
+    unused.push(toFinding(name, runtimeDefs));
+  }
+
+  const byName = (a: CheckFinding, b: CheckFinding) => a.name.localeCompare(b.name);
+
+  return {
+    undefined: undefinedVars.sort(byName),
+    unused: unused.sort(byName),
+  };
+}
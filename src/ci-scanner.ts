@@ -0,0 +1,270 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { glob } from 'glob';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Document, Node, YAMLMap } from 'yaml';
+import type { CiContext, EnvVar } from './types.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+
+/**
+ * Top-level .gitlab-ci.yml keys that are not jobs
+ */
+const GITLAB_GLOBAL_KEYS = new Set([
+  'default',
+  'include',
+  'stages',
+  'variables',
+  'workflow',
+  'image',
+  'services',
+  'cache',
+  'before_script',
+  'after_script',
+]);
+
+/**
+ * secrets.X / vars.X (or secrets['X']) inside a GitHub Actions expression
+ */
+const CONTEXT_REF_PATTERN = /\b(secrets|vars)(?:\.([A-Za-z_][A-Za-z0-9_-]*)|\[\s*'([^']+)'\s*\])/g;
+
+/**
+ * Source text and line lookup for one parsed workflow file
+ */
+interface WorkflowSource {
+  file: string;
+  content: string;
+  lineOf: (offset: number) => number;
+}
+
+/**
+ * Scans CI workflow files for env var definitions and secret references:
+ * - GitHub Actions (.github/workflows/*.yml): `env:` at workflow, job and step level,
+ *   `${{ secrets.X }}` and `${{ vars.X }}` references (reported without a value)
+ * - GitLab CI (.gitlab-ci.yml): global and job `variables:`
+ * Each finding is tagged with the workflow, job and step it belongs to
+ */
+export async function scanCiWorkflows(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  errors: string[] = []
+): Promise<EnvVar[]> {
+  const envVars: EnvVar[] = [];
+  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+
+  const githubFiles = await glob('**/.github/workflows/*.{yml,yaml}', {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+    dot: true,
+  });
+
+  const gitlabFiles = await glob(['**/.gitlab-ci.yml', '**/*.gitlab-ci.yml'], {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+    dot: true,
+  });
+
+  for (const file of githubFiles.sort()) {
+    const parsed = parseWorkflow(file, errors);
+    if (parsed) envVars.push(...scanGitHubWorkflow(parsed.doc, parsed.source));
+  }
+
+  for (const file of gitlabFiles.sort()) {
+    const parsed = parseWorkflow(file, errors);
+    if (parsed) envVars.push(...scanGitLabPipeline(parsed.doc, parsed.source));
+  }
+
+  return envVars;
+}
+
+function parseWorkflow(file: string, errors: string[]): { doc: Document; source: WorkflowSource } | undefined {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf-8');
+  } catch {
+    // Skip files that can't be read
+    return undefined;
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0];
+    const line = lineCounter.linePos(error.pos[0]).line;
+    const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    errors.push(`${file}:${line}: invalid YAML document: ${message}`);
+    return undefined;
+  }
+  if (!isMap(doc.contents)) return undefined;
+
+  return { doc, source: { file, content, lineOf: (offset) => lineCounter.linePos(offset).line } };
+}
+
+function scanGitHubWorkflow(doc: Document, source: WorkflowSource): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const root = doc.contents as YAMLMap;
+  const name = root.get('name');
+  const workflow: CiContext = { workflow: typeof name === 'string' ? name : basename(source.file) };
+
+  envVars.push(...githubEnv(root.get('env', true), workflow, source));
+  envVars.push(...githubRefs(root, workflow, source, ['jobs']));
+
+  const jobs = root.get('jobs', true);
+  if (!isMap(jobs)) return envVars;
+
+  for (const jobPair of jobs.items) {
+    if (!isScalar(jobPair.key) || !isMap(jobPair.value)) continue;
+    const job = jobPair.value;
+    const jobContext: CiContext = { ...workflow, job: String(jobPair.key.value) };
+
+    envVars.push(...githubEnv(job.get('env', true), jobContext, source));
+    envVars.push(...githubRefs(job, jobContext, source, ['steps']));
+
+    const steps = job.get('steps', true);
+    if (!isSeq(steps)) continue;
+
+    steps.items.forEach((step, i) => {
+      if (!isMap(step)) return;
+      const label = step.get('name') ?? step.get('id') ?? step.get('uses');
+      const stepContext: CiContext = { ...jobContext, step: typeof label === 'string' ? label : `#${i + 1}` };
+      envVars.push(...githubEnv(step.get('env', true), stepContext, source));
+      envVars.push(...githubRefs(step, stepContext, source, []));
+    });
+  }
+
+  return envVars;
+}
+
+/**
+ * Entries of an `env:` map; values containing expressions are not literal and get no value
+ */
+function githubEnv(env: unknown, ci: CiContext, source: WorkflowSource): EnvVar[] {
+  if (!isMap(env)) return [];
+
+  const envVars: EnvVar[] = [];
+  for (const pair of env.items) {
+    if (!isScalar(pair.key)) continue;
+    const value = literalScalar(pair.value);
+    const literal = value !== undefined && !value.includes('${{') ? value : undefined;
+    envVars.push({
+      name: String(pair.key.value),
+      file: source.file,
+      line: lineOfNode(pair.key, source),
+      language: 'github-actions',
+      pattern: 'env',
+      value: literal || undefined,
+      valueSource: literal ? 'github-actions-env' : undefined,
+      ci,
+    });
+  }
+
+  return envVars;
+}
+
+/**
+ * secrets.X and vars.X references anywhere under a node, except under the skipped keys
+ * (those belong to a more specific context and are scanned separately)
+ */
+function githubRefs(node: Node | null, ci: CiContext, source: WorkflowSource, skipKeys: string[]): EnvVar[] {
+  const envVars: EnvVar[] = [];
+
+  const visit = (current: unknown, isCondition: boolean) => {
+    if (isMap(current)) {
+      for (const pair of current.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : '';
+        if (current === node && skipKeys.includes(key)) continue;
+        // `if:` is an expression even without ${{ }}
+        visit(pair.value, key === 'if');
+      }
+    } else if (isSeq(current)) {
+      for (const item of current.items) visit(item, false);
+    } else if (isScalar(current) && current.range) {
+      envVars.push(...scalarRefs(current.range[0], current.range[1], isCondition, ci, source));
+    }
+  };
+
+  visit(node, false);
+  return envVars;
+}
+
+/**
+ * Find references in the raw source of a scalar, so multi-line `run:` blocks report the right line
+ */
+function scalarRefs(start: number, end: number, isCondition: boolean, ci: CiContext, source: WorkflowSource): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const text = source.content.slice(start, end);
+  const expressions = isCondition && !text.includes('${{')
+    ? [{ body: text, offset: 0 }]
+    : [...text.matchAll(/\$\{\{([\s\S]*?)\}\}/g)].map((m) => ({ body: m[1], offset: m.index! + 3 }));
+
+  for (const { body, offset } of expressions) {
+    for (const match of body.matchAll(CONTEXT_REF_PATTERN)) {
+      const isSecret = match[1] === 'secrets';
+      envVars.push({
+        name: match[2] ?? match[3],
+        file: source.file,
+        line: source.lineOf(start + offset + match.index!),
+        language: 'github-actions',
+        pattern: isSecret ? 'secret' : 'variable',
+        ci,
+      });
+    }
+  }
+
+  return envVars;
+}
+
+function scanGitLabPipeline(doc: Document, source: WorkflowSource): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const root = doc.contents as YAMLMap;
+  const name = doc.getIn(['workflow', 'name']);
+  const pipeline: CiContext = { workflow: typeof name === 'string' ? name : basename(source.file) };
+
+  envVars.push(...gitlabVariables(root.get('variables', true), pipeline, source));
+
+  for (const pair of root.items) {
+    if (!isScalar(pair.key) || !isMap(pair.value)) continue;
+    const job = String(pair.key.value);
+    if (GITLAB_GLOBAL_KEYS.has(job)) continue;
+    envVars.push(...gitlabVariables(pair.value.get('variables', true), { ...pipeline, job }, source));
+  }
+
+  return envVars;
+}
+
+/**
+ * Entries of a `variables:` map: `KEY: value` or `KEY: { value, description, ... }`
+ */
+function gitlabVariables(variables: unknown, ci: CiContext, source: WorkflowSource): EnvVar[] {
+  if (!isMap(variables)) return [];
+
+  const envVars: EnvVar[] = [];
+  for (const pair of variables.items) {
+    if (!isScalar(pair.key)) continue;
+    const value = isMap(pair.value) ? literalScalar(pair.value.get('value', true)) : literalScalar(pair.value);
+    envVars.push({
+      name: String(pair.key.value),
+      file: source.file,
+      line: lineOfNode(pair.key, source),
+      language: 'gitlab-ci',
+      pattern: 'variables',
+      value: value || undefined,
+      valueSource: value ? 'gitlab-ci-variables' : undefined,
+      ci,
+    });
+  }
+
+  return envVars;
+}
+
+function literalScalar(node: unknown): string | undefined {
+  if (!isScalar(node) || node.value === null || typeof node.value === 'object') return undefined;
+  return String(node.value);
+}
+
+function lineOfNode(node: Node, source: WorkflowSource): number {
+  return node.range ? source.lineOf(node.range[0]) : 1;
+}
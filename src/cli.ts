@@ -1,9 +1,9 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { program, Command, Option } from 'commander';
 import chalk from 'chalk';
 import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync } from 'fs';
-import { join, resolve, dirname } from 'path';
+import { join, resolve, dirname, relative } from 'path';
 import { execSync } from 'child_process';
 import { fileURLToPath } from 'url';
 
@@ -12,50 +12,34 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const packageJson = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
 const version = packageJson.version;
-import { scan, checkSemgrepInstalled, uniqueEnvVarNames, groupByName, CONFIG_FILE_NAME, DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import { scan, uniqueEnvVarNames, groupByName, resolveExcludePatterns } from './scanner.js';
+import { loadUserConfig, getConfigPath, ConfigError, CONFIG_FILE_NAME } from './config.js';
 import { scanPropertyFiles, scanDockerfiles, scanDotEnvFiles, scanDockerComposeFiles } from './property-scanner.js';
 import { scanK8sManifests } from './k8s-scanner.js';
-import type { EnvVar, ScanResult } from './types.js';
-
-/**
- * Patterns that indicate a sensitive variable (values should be masked)
- */
-const SENSITIVE_PATTERNS = [
-  /secret/i,
-  /password/i,
-  /passwd/i,
-  /\bkey\b/i,
-  /token/i,
-  /\bapi\b/i,
-  /auth/i,
-  /credential/i,
-  /private/i,
-];
-
-/**
- * Check if a variable name suggests it contains sensitive data
- */
-function isSensitiveVar(varName: string): boolean {
-  return SENSITIVE_PATTERNS.some(p => p.test(varName));
-}
-
-/**
- * Mask a value for display (show first/last 2 chars if long enough)
- */
-function maskValue(value: string): string {
-  if (!value) return '****';
-  if (value.length <= 4) return '****';
-  if (value.length <= 8) return value.slice(0, 1) + '****' + value.slice(-1);
-  return value.slice(0, 2) + '****' + value.slice(-2);
-}
-
-/**
- * Get display value, masking if sensitive
- */
-function getDisplayValue(varName: string, value: string | undefined, showValues: boolean): string | undefined {
-  if (!value || !showValues) return undefined;
-  return isSensitiveVar(varName) ? maskValue(value) : value;
-}
+import { scanHelmCharts } from './helm-scanner.js';
+import { scanTerraformFiles } from './terraform-scanner.js';
+import { scanCiWorkflows } from './ci-scanner.js';
+import { scanShellScripts } from './shell-scanner.js';
+import { buildEnvMatrix, renderMatrixCsv } from './matrix.js';
+import type { EnvMatrix, MatrixCell } from './matrix.js';
+import { auditSecrets } from './secrets.js';
+import { isSensitiveVar, maskValue, formatSensitiveValue, maskScanResult } from './sensitivity.js';
+import { findTypeConflicts, inferEnvVarTypes, resolveVarType } from './type-inference.js';
+import { classifyRequired, requiredByName, resolveRequired } from './required.js';
+import { assignPackages, detectPackages, findPackage } from './packages.js';
+import type { SecretSeverity } from './secrets.js';
+import { checkEnvVars } from './check.js';
+import { toSarif } from './sarif.js';
+import { compareInputWarnings, compareResults, describeChange } from './compare.js';
+import type { CompareResult } from './compare.js';
+import { renderCompareMarkdown } from './markdown.js';
+import { generateEnvExample, mergeEnvExample } from './env-example.js';
+import type { CiContext, DynamicEnvAccess, EnvVar, K8sContext, MaskMode, ScanEngine, ScanResult, SensitivityConfig, ValueSource } from './types.js';
+
+const MASK_MODES: MaskMode[] = ['partial', 'full', 'hash', 'omit'];
+
+/** Environment variable with the key for hash masks */
+const HASH_KEY_ENV = 'ENVVARS_SCAN_HASH_KEY';
 
 const REPO_CACHE_DIR = '/tmp/envvars-scan-repos';
 
@@ -81,24 +65,64 @@ customPatterns:
 # excludePatterns:
 #   - "node_modules"
 #   - "dist"
+
+# Names the shell/Makefile scanner (--shell) skips, in addition to builtins like PATH and HOME
+# shellIgnore:
+#   - "CI_COMMIT_SHA"
+
+# Environment labels for the matrix command, with the other names used for them in
+# .env file names, Helm values files, kustomize overlays and k8s namespaces
+# environments:
+#   production: [prod, prd]
+#   staging: [stage, stg]
+
+# Known dummy values the secrets command never reports
+# secretAllowlist:
+#   - "sk_test_1234567890abcdef"
+
+# Which variables count as sensitive and how their values are masked in text, JSON and compare output
+# sensitivity:
+#   patterns: ["^STRIPE_", "DSN$"]     # extra name patterns (regular expressions)
+#   allowNames: ["TOKEN_TTL"]          # never masked
+#   sources: ["ecs-secret"]            # every value from these sources (k8s-secret is always included)
+#   mask: partial                      # partial, full, hash (needs ENVVARS_SCAN_HASH_KEY) or omit
+
+# Monorepo package roots for services without a package.json, go.mod, pyproject.toml, ... (dirs or globs)
+# packages:
+#   - "services/legacy"
+#   - "lambdas/*"
 `;
 
 program
   .name('envvars-scan')
   .description('Scan codebases for environment variable usage')
   .version(version)
+  .enablePositionalOptions()
   .argument('[path]', 'Path to scan', '.')
   .option('--all', 'Include all env vars (not just uppercase)')
-  .option('--json', 'Output as JSON')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .addOption(new Option('--format <format>', 'Output format (markdown requires --diff)').choices(['text', 'json', 'sarif', 'markdown']).default('text'))
+  .option('--link-base <url>', 'URL prefix for file links in markdown output (default: GitHub Actions env)')
   .option('--init-config', 'Create example config file at .skyhook/envvars-scan.yaml')
   .option('-v, --verbose', 'Show parser warnings')
-  .option('--no-semgrep', 'Skip semgrep scan (only scan property files)')
+  .option('--no-semgrep', 'Skip code scan (only scan property files)')
+  .addOption(new Option('--engine <engine>', 'Code scanning engine (auto uses semgrep if installed)').choices(['auto', 'semgrep', 'builtin']).default('auto'))
   .option('--no-properties', 'Skip property file scan')
   .option('--no-dotenv', 'Skip .env file scan')
   .option('--no-docker', 'Skip Dockerfile scan')
-  .option('--compose', 'Include docker-compose.yml env vars (off by default)')
+  .option('--compose', 'Include Compose files (docker-compose*.yml, compose.yaml) (off by default)')
   .option('--k8s', 'Include Kubernetes manifests (Deployments, ConfigMaps, Secrets)')
+  .option('--helm', 'Include Helm charts (templates resolved against values*.yaml)')
+  .option('--terraform', 'Include Terraform (Lambda, ECS) and ECS task-definition JSON')
+  .option('--ci', 'Include CI workflows (GitHub Actions env/secrets, GitLab CI variables)')
+  .option('--shell', 'Include shell scripts and Makefiles ($VAR, ${VAR:-default}, export)')
+  .option('--workload <name>', 'Only show k8s findings for resources with this metadata.name')
+  .option('--namespace <namespace>', 'Only show k8s findings in this namespace (no namespace counts as default)')
+  .option('--package <name>', 'Only scan one package of a monorepo (name or directory)')
+  .addOption(new Option('--group-by <key>', 'Group text output by variable name, k8s workload/container or package (default: package when there are several)').choices(['name', 'workload', 'package']))
+  .option('--required-only', 'Only show variables that some read fails without (os.environ[...], ENV.fetch, ${VAR:?}, ...)')
   .option('--show-values', 'Show env var values (sensitive values are masked)')
+  .addOption(new Option('--mask <mode>', 'How sensitive values are shown in text and JSON output (default: partial; hash for JSON when ENVVARS_SCAN_HASH_KEY is set)').choices(MASK_MODES))
   .option('-r, --repo <url>', 'Clone and scan a remote GitHub repo (org/repo or full URL)')
   .option('--keep', 'Keep cloned repo after scanning (default: clean up)')
   .option('--branch <branch>', 'Branch to clone (default: default branch)')
@@ -120,7 +144,10 @@ program
 program
   .command('compare <base> <head>')
   .description('Compare two JSON scan outputs')
-  .option('--json', 'Output as JSON')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json', 'markdown']).default('text'))
+  .option('--link-base <url>', 'URL prefix for file links in markdown output (default: GitHub Actions env)')
+  .addOption(new Option('--mask <mode>', 'How sensitive values are shown (default: partial)').choices(MASK_MODES))
   .action(async (base: string, head: string, options) => {
     try {
       await runCompare(base, head, options);
@@ -134,6 +161,133 @@ program
     }
   });
 
+/**
+ * Add the scanner selection flags shared by subcommands that run a scan
+ */
+function addScanOptions(command: Command): Command {
+  return command
+    .option('--all', 'Include all env vars (not just uppercase)')
+    .option('--no-semgrep', 'Skip code scan')
+    .addOption(new Option('--engine <engine>', 'Code scanning engine (auto uses semgrep if installed)').choices(['auto', 'semgrep', 'builtin']).default('auto'))
+    .option('--no-properties', 'Skip property file scan')
+    .option('--no-dotenv', 'Skip .env file scan')
+    .option('--no-docker', 'Skip Dockerfile scan')
+    .option('--compose', 'Include docker-compose.yml env vars')
+    .option('--k8s', 'Include Kubernetes manifests')
+    .option('--helm', 'Include Helm charts')
+    .option('--terraform', 'Include Terraform and ECS task definitions')
+    .option('--ci', 'Include CI workflows')
+    .option('--shell', 'Include shell scripts and Makefiles')
+    .option('--package <name>', 'Only scan one package of a monorepo (name or directory)');
+}
+
+// Check subcommand
+addScanOptions(program
+  .command('check [path]')
+  .description('Report env vars read but never defined, and defined but never read'))
+  .option('--json', 'Output as JSON')
+  .addOption(new Option('--only <check>', 'Only run one of the checks').choices(['undefined', 'unused']))
+  .option('--ignore <names...>', 'Variable names to ignore')
+  .action(async (path: string | undefined, options) => {
+    try {
+      await runCheck(path ?? '.', options);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('An unexpected error occurred'));
+      }
+      process.exit(1);
+    }
+  });
+
+// Matrix subcommand
+addScanOptions(program
+  .command('matrix [path]')
+  .description('Show which env vars are set, defaulted or missing in each environment'))
+  .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json', 'csv']).default('text'))
+  .addOption(new Option('--mask <mode>', 'How sensitive values are shown (default: partial)').choices(MASK_MODES))
+  .action(async (path: string | undefined, options) => {
+    try {
+      await runMatrix(path ?? '.', options);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('An unexpected error occurred'));
+      }
+      process.exit(1);
+    }
+  });
+
+// Secrets subcommand
+addScanOptions(program
+  .command('secrets [path]')
+  .description('Flag values that look like live credentials committed to the repository'))
+  .option('--json', 'Output as JSON')
+  .addOption(new Option('--min-severity <severity>', 'Only report findings at or above this severity').choices(['low', 'medium', 'high']).default('low'))
+  .option('--allow <values...>', 'Known dummy values to ignore (added to secretAllowlist from the config)')
+  .addOption(new Option('--mask <mode>', 'How found values are shown (default: partial; every value is masked)').choices(MASK_MODES))
+  .action(async (path: string | undefined, options) => {
+    try {
+      await runSecrets(path ?? '.', options);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('An unexpected error occurred'));
+      }
+      process.exit(1);
+    }
+  });
+
+// Generate subcommands
+const generateCommand = program
+  .command('generate')
+  .description('Generate files from scan results');
+
+addScanOptions(generateCommand
+  .command('env-example [path]')
+  .description('Generate a .env.example with one entry per env var read in code'))
+  .option('-o, --output <file>', 'Output file (default: <path>/.env.example)')
+  .option('--update', 'Merge into an existing file, keeping its content and appending new vars')
+  .option('--force', 'Overwrite an existing file')
+  .option('--stdout', 'Print to stdout instead of writing a file')
+  .action(async (path: string | undefined, options) => {
+    try {
+      await runGenerateEnvExample(path ?? '.', options);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('An unexpected error occurred'));
+      }
+      process.exit(1);
+    }
+  });
+
+// Config subcommands
+const configCommand = program
+  .command('config')
+  .description('Manage the .skyhook/envvars-scan.yaml config file');
+
+configCommand
+  .command('validate [path]')
+  .description('Validate the config file without running a scan')
+  .option('--json', 'Output as JSON')
+  .action(async (path: string | undefined, options) => {
+    try {
+      await runConfigValidate(path ?? '.', options);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red('An unexpected error occurred'));
+      }
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
 interface Options {
@@ -142,28 +296,76 @@ interface Options {
   initConfig?: boolean;
   verbose?: boolean;
   semgrep?: boolean;
+  engine?: ScanEngine;
   properties?: boolean;
   dotenv?: boolean;
   docker?: boolean;
   compose?: boolean;
   k8s?: boolean;
+  helm?: boolean;
+  terraform?: boolean;
+  ci?: boolean;
+  shell?: boolean;
+  workload?: string;
+  namespace?: string;
+  package?: string;
+  groupBy?: 'name' | 'workload' | 'package';
+  requiredOnly?: boolean;
   showValues?: boolean;
+  mask?: MaskMode;
   repo?: string;
   keep?: boolean;
   branch?: string;
   diff?: string;
+  format?: OutputFormat;
+  linkBase?: string;
+}
+
+type OutputFormat = 'text' | 'json' | 'sarif' | 'markdown';
+
+interface CompareCommandOptions {
+  json?: boolean;
+  format?: 'text' | 'json' | 'markdown';
+  linkBase?: string;
+  mask?: MaskMode;
+}
+
+interface CheckCommandOptions extends Options {
+  only?: 'undefined' | 'unused';
+  ignore?: string[];
+}
+
+interface MatrixCommandOptions extends Omit<Options, 'format'> {
+  format?: 'text' | 'json' | 'csv';
+}
+
+interface SecretsCommandOptions extends Options {
+  minSeverity?: SecretSeverity;
+  allow?: string[];
 }
 
-interface CompareResult {
-  added: string[];
-  removed: string[];
-  unchanged: string[];
+interface GenerateEnvExampleOptions extends Options {
+  output?: string;
+  update?: boolean;
+  force?: boolean;
+  stdout?: boolean;
 }
 
 async function run(path: string, options: Options): Promise<void> {
   let absPath = resolve(path);
   let clonedRepoPath: string | null = null;
 
+  // --json is shorthand for --format json; machine-readable formats suppress progress output
+  if (options.json) options.format = 'json';
+  if (options.format && options.format !== 'text') options.json = true;
+
+  if (options.format === 'markdown' && !options.diff) {
+    throw new Error('--format markdown is only supported with --diff (or the compare command)');
+  }
+  if (options.format === 'sarif' && options.diff) {
+    throw new Error('--format sarif is not supported with --diff (use json or markdown)');
+  }
+
   // Handle --diff option: compare against git ref
   if (options.diff) {
     await runDiff(path, options.diff, options);
@@ -194,83 +396,31 @@ async function run(path: string, options: Options): Promise<void> {
     console.log(chalk.blue(`Scanning ${absPath} for environment variables...`));
   }
 
-  const allEnvVars: EnvVar[] = [];
-  const allErrors: string[] = [];
-
-  // Run semgrep scan
-  if (options.semgrep !== false) {
-    if (!(await checkSemgrepInstalled())) {
-      if (!options.json) {
-        console.log(chalk.yellow('Warning: semgrep not installed. Skipping code scan.'));
-        console.log(chalk.yellow('Install with: brew install semgrep'));
-      }
-    } else {
-      const semgrepResult = await scan(absPath, {
-        filterUppercase: !options.all,
-      });
-      allEnvVars.push(...semgrepResult.envVars);
-      allErrors.push(...semgrepResult.errors);
-    }
-  }
-
-  // Scan property files
-  if (options.properties !== false) {
-    const propertyVars = await scanPropertyFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
-    // Filter uppercase if needed
-    const filtered = options.all
-      ? propertyVars
-      : propertyVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
-    allEnvVars.push(...filtered);
-  }
+  const result = await scanPath(absPath, options);
+  const sensitivity = getSensitivity(absPath, options);
 
-  // Scan .env files
-  if (options.dotenv !== false) {
-    const dotenvVars = await scanDotEnvFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
-    const filtered = options.all
-      ? dotenvVars
-      : dotenvVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
-    allEnvVars.push(...filtered);
+  // --workload and --namespace narrow the result to matching k8s resources
+  if (options.workload || options.namespace) {
+    result.envVars = result.envVars.filter((ev) => matchesK8sFilter(ev, options));
   }
 
-  // Scan Dockerfiles
-  if (options.docker !== false) {
-    const dockerVars = await scanDockerfiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
-    const filtered = options.all
-      ? dockerVars
-      : dockerVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
-    allEnvVars.push(...filtered);
-  }
-
-  // Scan docker-compose files (opt-in)
-  if (options.compose) {
-    const composeVars = await scanDockerComposeFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
-    const composeFiltered = options.all
-      ? composeVars
-      : composeVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
-    allEnvVars.push(...composeFiltered);
+  // --required-only keeps the variables that some read fails without, with all their usages
+  if (options.requiredOnly) {
+    const required = result.required ?? {};
+    result.envVars = result.envVars.filter((ev) => required[ev.name] === true);
   }
 
-  // Scan Kubernetes manifests (opt-in)
-  if (options.k8s) {
-    const k8sVars = await scanK8sManifests(absPath, DEFAULT_EXCLUDE_PATTERNS);
-    const k8sFiltered = options.all
-      ? k8sVars
-      : k8sVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
-    allEnvVars.push(...k8sFiltered);
-  }
-
-  // Deduplicate
-  const result = deduplicateResults({
-    path: absPath,
-    envVars: allEnvVars,
-    errors: allErrors,
-  });
-
   // Output results
   if (options.json) {
     // Add repo info if cloned
-    const output = clonedRepoPath ? { ...result, clonedFrom: options.repo, clonedPath: options.keep ? clonedRepoPath : undefined } : result;
-    console.log(JSON.stringify(output, null, 2));
+    if (options.format === 'sarif') {
+      console.log(JSON.stringify(toSarif(result, { toolVersion: version }), null, 2));
+    } else {
+      // Hash masks by default when there is a key, so JSON fed to compare still shows when a sensitive value changes
+      const masked = maskScanResult(result, { ...sensitivity, mask: sensitivity.mask ?? (sensitivity.hashKey ? 'hash' : 'partial') });
+      const output = clonedRepoPath ? { ...masked, clonedFrom: options.repo, clonedPath: options.keep ? clonedRepoPath : undefined } : masked;
+      console.log(JSON.stringify(output, null, 2));
+    }
 
     // Cleanup cloned repo if not keeping
     if (clonedRepoPath && !options.keep) {
@@ -291,22 +441,98 @@ async function run(path: string, options: Options): Promise<void> {
     return;
   }
 
-  // Group by name and sort
-  const groups = groupByName(result);
-  const names = uniqueEnvVarNames(result).sort();
+  // Several packages are listed one section each, unless --package already picked one
+  const groupBy = options.groupBy ?? ((result.packages?.length ?? 0) > 1 && !options.package ? 'package' : 'name');
+  if (groupBy === 'workload') {
+    printByWorkload(result, options, sensitivity);
+  } else if (groupBy === 'package') {
+    printByPackage(result, options, sensitivity);
+  } else {
+    printByName(result, options, sensitivity);
+  }
+  printDynamicAccess(result);
+  printTypeConflicts(result);
+
+  // Cleanup cloned repo if not keeping
+  if (clonedRepoPath && !options.keep) {
+    if (!options.json) {
+      console.log(chalk.gray(`\nCleaning up ${clonedRepoPath}...`));
+    }
+    rmSync(clonedRepoPath, { recursive: true, force: true });
+  } else if (clonedRepoPath && options.keep) {
+    if (!options.json) {
+      console.log(chalk.gray(`\nRepo kept at: ${clonedRepoPath}`));
+    }
+  }
+}
+
+// Text output with one entry per variable name and its first few locations
+function printByName(result: ScanResult, options: Options, sensitivity: SensitivityConfig): void {
+  const names = uniqueEnvVarNames(result);
 
   console.log();
   console.log(chalk.bold(`Found ${names.length} unique environment variables:`));
   console.log();
 
+  printNameEntries(result, options, sensitivity);
+
+  console.log();
+  console.log(chalk.blue(`Total: ${names.length} unique env vars, ${result.envVars.length} usages`));
+}
+
+// Text output with one section per monorepo package, each listed like printByName
+function printByPackage(result: ScanResult, options: Options, sensitivity: SensitivityConfig): void {
+  const packages = result.packages ?? [];
+  const names = uniqueEnvVarNames(result);
+
+  console.log();
+  console.log(chalk.bold(`Found ${names.length} unique environment variables in ${packages.length} packages:`));
+
+  const sections = [
+    ...packages.map((pkg) => ({
+      title: `${pkg.name} ${chalk.gray(`(${relative(result.path, pkg.dir) || '.'}, ${pkg.kind})`)}`,
+      envVars: result.envVars.filter((ev) => ev.package === pkg.name),
+    })),
+    { title: 'Not in a package', envVars: result.envVars.filter((ev) => ev.package === undefined) },
+  ];
+  for (const section of sections) {
+    if (section.envVars.length === 0) continue;
+    console.log();
+    console.log(chalk.bold(section.title));
+    printNameEntries({ ...result, envVars: section.envVars }, options, sensitivity);
+  }
+
+  console.log();
+  console.log(chalk.blue(`Total: ${names.length} unique env vars, ${result.envVars.length} usages`));
+}
+
+// One entry per variable name with its type, required status, value and first few locations
+function printNameEntries(result: ScanResult, options: Options, sensitivity: SensitivityConfig): void {
+  // Group by name and sort
+  const groups = groupByName(result);
+  const names = uniqueEnvVarNames(result).sort();
+
   for (const name of names) {
     const locations = groups.get(name) || [];
     process.stdout.write(chalk.green(`  ${name}`));
 
+    // Inferred type; a trailing ? marks a guess from a defined value only
+    const varType = resolveVarType(locations);
+    if (varType) {
+      process.stdout.write(chalk.cyan(`: ${varType.type}${varType.confidence === 'low' ? '?' : ''}`));
+    }
+
+    const required = resolveRequired(locations);
+    if (required === true) {
+      process.stdout.write(chalk.red(' required'));
+    } else if (required === false) {
+      process.stdout.write(chalk.gray(' optional'));
+    }
+
     // Show value if --show-values flag is set and a value exists
     const firstWithValue = locations.find(l => l.value);
     if (options.showValues && firstWithValue?.value) {
-      const displayValue = getDisplayValue(name, firstWithValue.value, true);
+      const displayValue = formatSensitiveValue(name, firstWithValue.value, firstWithValue.valueSource, sensitivity);
       if (displayValue) {
         process.stdout.write(chalk.yellow(` = ${displayValue}`));
         if (firstWithValue.valueSource) {
@@ -322,9 +548,24 @@ async function run(path: string, options: Options): Promise<void> {
     for (let i = 0; i < locations.length && i < maxLocations; i++) {
       const loc = locations[i];
       let locStr = `      ${loc.file}:${loc.line}`;
+      if (loc.environment) {
+        locStr += ` [${loc.environment}]`;
+      }
+      if (loc.k8s) {
+        locStr += ` (${describeK8sContext(loc.k8s)})`;
+      }
+      if (loc.ci) {
+        locStr += ` (${describeCiContext(loc.ci)})`;
+      }
+      if (loc.dockerfile?.stage) {
+        locStr += ` (stage ${loc.dockerfile.stage})`;
+      }
+      if (loc.compose) {
+        locStr += ` (service ${loc.compose.service})`;
+      }
       // Show value per-location if different from first value shown
       if (options.showValues && loc.value && loc !== firstWithValue) {
-        const locDisplayValue = getDisplayValue(name, loc.value, true);
+        const locDisplayValue = formatSensitiveValue(name, loc.value, loc.valueSource, sensitivity);
         if (locDisplayValue) {
           locStr += chalk.yellow(` = ${locDisplayValue}`);
           if (loc.valueSource) {
@@ -338,21 +579,113 @@ async function run(path: string, options: Options): Promise<void> {
       console.log(chalk.gray(`      ... and ${locations.length - maxLocations} more`));
     }
   }
+}
+
+// Variables whose usages imply different types
+function printTypeConflicts(result: ScanResult): void {
+  const conflicts = result.typeConflicts ?? [];
+  if (conflicts.length === 0) return;
 
   console.log();
-  console.log(chalk.blue(`Total: ${names.length} unique env vars, ${result.envVars.length} usages`));
+  console.log(chalk.bold(`Type conflicts (${conflicts.length}):`));
+  for (const conflict of conflicts) {
+    const usages = conflict.usages.map((u) => `${u.type} ${chalk.gray(`(${u.typeSource}, ${u.file}:${u.line})`)}`);
+    console.log(`  ${chalk.yellow(conflict.name)}: ${usages.join(' vs ')}`);
+  }
+}
 
-  // Cleanup cloned repo if not keeping
-  if (clonedRepoPath && !options.keep) {
-    if (!options.json) {
-      console.log(chalk.gray(`\nCleaning up ${clonedRepoPath}...`));
+// Reads with computed names, which the listing above can't include
+function printDynamicAccess(result: ScanResult): void {
+  const dynamicAccess = result.dynamicAccess ?? [];
+  if (dynamicAccess.length === 0) return;
+
+  const withPattern = dynamicAccess.filter((d) => d.namePattern).length;
+  console.log();
+  console.log(chalk.bold(`Computed names (${dynamicAccess.length} reads, ${withPattern} with a name pattern):`));
+
+  const maxShown = 10;
+  for (const access of dynamicAccess.slice(0, maxShown)) {
+    const name = access.namePattern ? chalk.green(access.namePattern) : chalk.yellow('(unknown)');
+    console.log(`  ${name} ${chalk.gray(`${access.file}:${access.line}`)} ${access.expression}`);
+  }
+  if (dynamicAccess.length > maxShown) {
+    console.log(chalk.gray(`  ... and ${dynamicAccess.length - maxShown} more (see --json)`));
+  }
+}
+
+function matchesK8sFilter(envVar: EnvVar, options: Options): boolean {
+  if (!envVar.k8s) return false;
+  if (options.workload && envVar.k8s.name !== options.workload) return false;
+  if (options.namespace && (envVar.k8s.namespace ?? 'default') !== options.namespace) return false;
+  return true;
+}
+
+function describeK8sContext(k8s: K8sContext, withContainer = true): string {
+  const name = k8s.namespace ? `${k8s.namespace}/${k8s.name}` : k8s.name;
+  const container = withContainer && k8s.container ? `, container ${k8s.container}` : '';
+  return `${k8s.kind} ${name}${container}`;
+}
+
+function describeCiContext(ci: CiContext): string {
+  const job = ci.job ? `, job ${ci.job}` : '';
+  const step = ci.step ? `, step ${ci.step}` : '';
+  return `workflow ${ci.workflow}${job}${step}`;
+}
+
+// Text output grouped by k8s resource and container instead of by variable name
+function printByWorkload(result: ScanResult, options: Options, sensitivity: SensitivityConfig): void {
+  const groups = new Map<string, Map<string, EnvVar[]>>();
+  const other: EnvVar[] = [];
+
+  for (const ev of result.envVars) {
+    if (!ev.k8s) {
+      other.push(ev);
+      continue;
     }
-    rmSync(clonedRepoPath, { recursive: true, force: true });
-  } else if (clonedRepoPath && options.keep) {
-    if (!options.json) {
-      console.log(chalk.gray(`\nRepo kept at: ${clonedRepoPath}`));
+    const resource = describeK8sContext(ev.k8s, false);
+    const containers = groups.get(resource) || new Map<string, EnvVar[]>();
+    const container = ev.k8s.container ?? '';
+    containers.set(container, [...(containers.get(container) || []), ev]);
+    groups.set(resource, containers);
+  }
+
+  const printVar = (ev: EnvVar, indent: string) => {
+    let line = chalk.green(`${indent}${ev.name}`);
+    const displayValue = options.showValues && ev.value
+      ? formatSensitiveValue(ev.name, ev.value, ev.valueSource, sensitivity)
+      : undefined;
+    if (displayValue) {
+      line += chalk.yellow(` = ${displayValue}`);
+    }
+    line += chalk.gray(` ${ev.file}:${ev.line}${ev.environment ? ` [${ev.environment}]` : ''}`);
+    console.log(line);
+  };
+
+  console.log();
+  for (const resource of [...groups.keys()].sort()) {
+    console.log(chalk.bold(`  ${resource}`));
+    const containers = groups.get(resource)!;
+    for (const container of [...containers.keys()].sort()) {
+      const vars = containers.get(container)!.sort((a, b) => a.name.localeCompare(b.name));
+      if (container) {
+        console.log(chalk.cyan(`    container ${container}`));
+      }
+      for (const ev of vars) {
+        printVar(ev, container ? '      ' : '    ');
+      }
     }
+    console.log();
+  }
+
+  if (other.length > 0) {
+    console.log(chalk.bold('  Not in a k8s resource'));
+    for (const ev of other.sort((a, b) => a.name.localeCompare(b.name))) {
+      printVar(ev, '    ');
+    }
+    console.log();
   }
+
+  console.log(chalk.blue(`Total: ${groups.size} k8s resources, ${result.envVars.length} usages`));
 }
 
 function deduplicateResults(result: ScanResult): ScanResult {
@@ -360,7 +693,7 @@ function deduplicateResults(result: ScanResult): ScanResult {
   const deduped: EnvVar[] = [];
 
   for (const ev of result.envVars) {
-    const key = `${ev.name}:${ev.file}:${ev.line}`;
+    const key = `${ev.name}:${ev.file}:${ev.line}:${ev.environment ?? ''}`;
     if (!seen.has(key)) {
       seen.add(key);
       deduped.push(ev);
@@ -452,8 +785,294 @@ async function cloneRepo(repoInfo: RepoInfo, options: Options): Promise<string |
   }
 }
 
+// Validate .skyhook/envvars-scan.yaml for a repo
+async function runConfigValidate(path: string, options: { json?: boolean }): Promise<void> {
+  const absPath = resolve(path);
+  if (!existsSync(absPath)) {
+    throw new Error(`Path does not exist: ${absPath}`);
+  }
+
+  const configPath = getConfigPath(absPath);
+
+  try {
+    const config = loadUserConfig(absPath);
+
+    if (options.json) {
+      console.log(JSON.stringify({ file: configPath, found: config !== null, valid: true, issues: [] }, null, 2));
+      return;
+    }
+
+    if (!config) {
+      console.log(chalk.yellow(`No config file found at ${configPath}`));
+      console.log(chalk.gray('Create one with: envvars-scan --init-config'));
+      return;
+    }
+
+    console.log(chalk.green(`Config is valid: ${configPath}`));
+    console.log(chalk.gray(`  ${config.customPatterns?.length ?? 0} custom pattern(s)`));
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ file: configPath, found: true, valid: false, issues: error.issues }, null, 2));
+    } else {
+      console.log(chalk.red(`Config is invalid: ${configPath}`));
+      for (const issue of error.issues) {
+        console.log(chalk.red(`  line ${issue.line}: `) + chalk.bold(issue.key) + chalk.red(` - ${issue.message}`));
+      }
+    }
+    process.exit(1);
+  }
+}
+
+// Cross-reference reads and definitions for a repo
+async function runCheck(path: string, options: CheckCommandOptions): Promise<void> {
+  const absPath = resolve(path);
+  if (!existsSync(absPath)) {
+    throw new Error(`Path does not exist: ${absPath}`);
+  }
+
+  const result = await scanPath(absPath, options);
+  const check = checkEnvVars(result, { ignore: options.ignore });
+
+  const undefinedVars = options.only === 'unused' ? [] : check.undefined;
+  const unused = options.only === 'undefined' ? [] : check.unused;
+  const failed = undefinedVars.length > 0 || unused.length > 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ path: absPath, undefined: undefinedVars, unused, errors: result.errors }, null, 2));
+    if (failed) process.exit(1);
+    return;
+  }
+
+  const rel = (file: string) => file.replace(absPath + '/', '');
+
+  console.log();
+  if (options.only !== 'unused') {
+    console.log(chalk.bold('Read but never defined (no definition or code default):'));
+    if (undefinedVars.length === 0) {
+      console.log(chalk.gray('  None'));
+    }
+    for (const finding of undefinedVars) {
+      const loc = finding.locations[0];
+      console.log(chalk.red(`  ${finding.name}`) + chalk.gray(` (${rel(loc.file)}:${loc.line})`));
+    }
+    console.log();
+  }
+
+  if (options.only !== 'undefined') {
+    console.log(chalk.bold('Defined but never read:'));
+    if (unused.length === 0) {
+      console.log(chalk.gray('  None'));
+    }
+    for (const finding of unused) {
+      const loc = finding.locations[0];
+      console.log(chalk.yellow(`  ${finding.name}`) + chalk.gray(` (${rel(loc.file)}:${loc.line}, ${loc.language})`));
+    }
+    console.log();
+  }
+
+  console.log(chalk.blue(`Summary: ${undefinedVars.length} undefined, ${unused.length} unused`));
+
+  // Exit with code 1 if there are findings (useful for CI)
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+// Variable × environment matrix
+async function runMatrix(path: string, options: MatrixCommandOptions): Promise<void> {
+  const absPath = resolve(path);
+  if (!existsSync(absPath)) {
+    throw new Error(`Path does not exist: ${absPath}`);
+  }
+
+  const format = options.format ?? 'text';
+  // Keep stdout clean for machine-readable output
+  const result = await scanPath(absPath, { ...options, format: undefined, json: format !== 'text' });
+  const config = loadUserConfig(absPath);
+  const matrix = buildEnvMatrix(result, {
+    aliases: config?.environments,
+    formatValue: valueFormatter(getSensitivity(absPath, options)),
+  });
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ path: absPath, ...matrix, errors: result.errors }, null, 2));
+    return;
+  }
+
+  if (format === 'csv') {
+    process.stdout.write(renderMatrixCsv(matrix));
+    return;
+  }
+
+  printMatrix(matrix);
+}
+
+function printMatrix(matrix: EnvMatrix): void {
+  console.log();
+  if (matrix.environments.length === 0) {
+    console.log(chalk.yellow('No environments found (.env.<env> files, Helm values-<env>.yaml, kustomize overlays or k8s namespaces)'));
+    return;
+  }
+
+  const maxValue = 24;
+  const cellText = (cell: MatrixCell): string => {
+    const value = cell.value !== undefined && cell.value.length > maxValue ? cell.value.slice(0, maxValue - 1) + '…' : cell.value;
+    if (cell.status === 'missing') return '-';
+    if (cell.status === 'default') return value !== undefined ? `(${value})` : '(default)';
+    return value ?? 'set';
+  };
+  const colorCell = (cell: MatrixCell, text: string): string =>
+    cell.status === 'missing' ? chalk.red(text) : cell.status === 'default' ? chalk.gray(text) : chalk.green(text);
+
+  const nameWidth = Math.max(8, ...matrix.rows.map((row) => row.name.length)) + 2;
+  const widths = matrix.environments.map((env) =>
+    Math.max(env.length, ...matrix.rows.map((row) => cellText(row.cells[env]).length)) + 2
+  );
+
+  console.log(chalk.bold('  ' + 'VARIABLE'.padEnd(nameWidth) + matrix.environments.map((env, i) => env.padEnd(widths[i])).join('')));
+  for (const row of matrix.rows) {
+    const marker = row.inconsistent ? chalk.yellow('! ') : '  ';
+    const cells = matrix.environments.map((env, i) => {
+      const cell = row.cells[env];
+      return colorCell(cell, cellText(cell).padEnd(widths[i]));
+    });
+    console.log(marker + row.name.padEnd(nameWidth) + cells.join(''));
+  }
+
+  const inconsistent = matrix.rows.filter((row) => row.inconsistent).length;
+  console.log();
+  console.log(chalk.gray('value = set for the environment, (value) = shared default, - = missing'));
+  console.log(chalk.blue(`Summary: ${matrix.rows.length} vars across ${matrix.environments.length} environments, ${inconsistent} missing from some environments (!)`));
+}
+
+// Committed-secret audit
+async function runSecrets(path: string, options: SecretsCommandOptions): Promise<void> {
+  const absPath = resolve(path);
+  if (!existsSync(absPath)) {
+    throw new Error(`Path does not exist: ${absPath}`);
+  }
+
+  const result = await scanPath(absPath, options);
+  const config = loadUserConfig(absPath);
+  const tracked = listTrackedFiles(absPath);
+  const sensitivity = getSensitivity(absPath, options);
+  const rank: Record<SecretSeverity, number> = { low: 0, medium: 1, high: 2 };
+  const minSeverity = options.minSeverity ?? 'low';
+
+  const findings = auditSecrets(result, {
+    allowlist: [...(config?.secretAllowlist ?? []), ...(options.allow ?? [])],
+    isTracked: (file) => (tracked ? tracked.has(file) : undefined),
+    isSensitive: (name, valueSource) => isSensitiveVar(name, valueSource, sensitivity),
+    // Always mask: the report itself must not leak what it finds
+    formatValue: (_name, value) => maskValue(value, sensitivity.mask, sensitivity.hashKey),
+  }).filter((finding) => rank[finding.severity] >= rank[minSeverity]);
+
+  if (options.json) {
+    console.log(JSON.stringify({ path: absPath, findings, errors: result.errors }, null, 2));
+    if (findings.length > 0) process.exit(1);
+    return;
+  }
+
+  const rel = (file: string) => file.replace(absPath + '/', '');
+  const color: Record<SecretSeverity, (text: string) => string> = { high: chalk.red, medium: chalk.yellow, low: chalk.gray };
+
+  console.log();
+  if (!tracked) {
+    console.log(chalk.gray('Not a git repository: values of sensitive names are only reported for files git tracks'));
+    console.log();
+  }
+  if (findings.length === 0) {
+    console.log(chalk.green('No likely secrets found'));
+    return;
+  }
+
+  const bySeverity = (severity: SecretSeverity) => findings.filter((f) => f.severity === severity);
+  for (const severity of ['high', 'medium', 'low'] as SecretSeverity[]) {
+    const group = bySeverity(severity);
+    if (group.length === 0) continue;
+    console.log(chalk.bold(`${severity.toUpperCase()} (${group.length}):`));
+    for (const finding of group) {
+      console.log(
+        color[severity](`  ${finding.name}`) +
+        chalk.gray(` = ${finding.value}`) +
+        ` ${finding.message}` +
+        chalk.gray(` (${rel(finding.file)}:${finding.line})`)
+      );
+    }
+    console.log();
+  }
+
+  console.log(chalk.blue(`Summary: ${bySeverity('high').length} high, ${bySeverity('medium').length} medium, ${bySeverity('low').length} low`));
+
+  // Exit with code 1 if there are findings (useful for CI)
+  process.exit(1);
+}
+
+/**
+ * Absolute paths of the files git tracks under a directory, or undefined outside a repository
+ */
+function listTrackedFiles(absPath: string): Set<string> | undefined {
+  try {
+    const output = execSync('git ls-files -z', { cwd: absPath, stdio: 'pipe', maxBuffer: 64 * 1024 * 1024 }).toString();
+    return new Set(output.split('\0').filter(Boolean).map((file) => join(absPath, file)));
+  } catch {
+    return undefined;
+  }
+}
+
+// Generate or update .env.example from scan results
+async function runGenerateEnvExample(path: string, options: GenerateEnvExampleOptions): Promise<void> {
+  const absPath = resolve(path);
+  if (!existsSync(absPath)) {
+    throw new Error(`Path does not exist: ${absPath}`);
+  }
+
+  const outputPath = resolve(options.output ?? join(absPath, '.env.example'));
+  const exists = existsSync(outputPath);
+
+  if (exists && !options.update && !options.force && !options.stdout) {
+    throw new Error(`${outputPath} already exists. Use --update to merge or --force to overwrite`);
+  }
+
+  // Progress goes to stderr so --stdout output stays clean
+  console.error(chalk.blue(`Scanning ${absPath} for environment variables...`));
+  const result = await scanPath(absPath, { ...options, json: true });
+  const sensitivity = getSensitivity(absPath, options);
+  const exampleOptions = { isSensitive: (name: string) => isSensitiveVar(name, undefined, sensitivity) };
+
+  if (options.update && exists) {
+    const { content, added } = mergeEnvExample(readFileSync(outputPath, 'utf-8'), result, exampleOptions);
+    if (options.stdout) {
+      process.stdout.write(content);
+      return;
+    }
+    writeFileSync(outputPath, content);
+    if (added.length === 0) {
+      console.log(chalk.gray(`${outputPath} is up to date`));
+    } else {
+      console.log(chalk.green(`Added ${added.length} var(s) to ${outputPath}:`));
+      for (const name of added) {
+        console.log(chalk.green(`  + ${name}`));
+      }
+    }
+    return;
+  }
+
+  const content = generateEnvExample(result, exampleOptions);
+  if (options.stdout) {
+    process.stdout.write(content);
+    return;
+  }
+  writeFileSync(outputPath, content);
+  console.log(chalk.green(`Wrote ${outputPath}`));
+}
+
 // Compare two JSON scan outputs
-async function runCompare(baseFile: string, headFile: string, options: { json?: boolean }): Promise<void> {
+async function runCompare(baseFile: string, headFile: string, options: CompareCommandOptions): Promise<void> {
   const { readFileSync } = await import('fs');
 
   if (!existsSync(baseFile)) {
@@ -466,47 +1085,119 @@ async function runCompare(baseFile: string, headFile: string, options: { json?:
   const baseResult: ScanResult = JSON.parse(readFileSync(baseFile, 'utf-8'));
   const headResult: ScanResult = JSON.parse(readFileSync(headFile, 'utf-8'));
 
-  const baseNames = new Set(baseResult.envVars.map(v => v.name));
-  const headNames = new Set(headResult.envVars.map(v => v.name));
+  for (const warning of compareInputWarnings(baseResult, headResult)) {
+    console.error(chalk.yellow(`Warning: ${warning}`));
+  }
 
-  const added = [...headNames].filter(n => !baseNames.has(n)).sort();
-  const removed = [...baseNames].filter(n => !headNames.has(n)).sort();
-  const unchanged = [...headNames].filter(n => baseNames.has(n)).sort();
+  // Inputs written by --json are already masked; masking them again would hide differences between hashes
+  // Otherwise mask with the sensitivity rules of the scanned repo, not of the working directory
+  const alreadyMasked = baseResult.mask !== undefined && headResult.mask !== undefined;
+  const result = compareResults(baseResult, headResult, {
+    formatValue: alreadyMasked ? undefined : valueFormatter(getSensitivity(headResult.path ?? resolve('.'), options)),
+  });
 
-  const result: CompareResult = { added, removed, unchanged };
+  if (options.format === 'markdown') {
+    process.stdout.write(renderCompareMarkdown(result, baseResult, headResult, {
+      linkBase: options.linkBase ?? defaultLinkBase(),
+    }));
+    if (hasChanges(result)) process.exit(1);
+    return;
+  }
 
-  if (options.json) {
+  if (options.json || options.format === 'json') {
     console.log(JSON.stringify(result, null, 2));
+    if (hasChanges(result)) process.exit(1);
     return;
   }
 
-  // Pretty print
+  printCompareResult(result, baseResult, headResult, 'Env Var Changes:', {
+    base: baseResult.path,
+    head: headResult.path,
+  });
+
+  // Exit with code 1 if there are changes (useful for CI)
+  if (hasChanges(result)) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Sensitivity rules from the config of a scan root, with --mask taking precedence
+ */
+function getSensitivity(absPath: string, options: { mask?: MaskMode }): SensitivityConfig {
+  const hashKey = process.env[HASH_KEY_ENV] || undefined;
+  const sensitivity: SensitivityConfig = { ...loadUserConfig(absPath)?.sensitivity, ...(hashKey && { hashKey }) };
+  if (options.mask) sensitivity.mask = options.mask;
+
+  // An unkeyed hash of a short secret can be reversed by hashing candidates, so there is no default key
+  if (sensitivity.mask === 'hash' && !hashKey) {
+    throw new Error(`Hash masks need a secret key: set ${HASH_KEY_ENV} (e.g. from a CI secret)`);
+  }
+  return sensitivity;
+}
+
+/**
+ * Mask values of sensitive variables in compare and matrix output
+ */
+function valueFormatter(sensitivity: SensitivityConfig) {
+  return (name: string, value: string, valueSource?: ValueSource) => formatSensitiveValue(name, value, valueSource, sensitivity);
+}
+
+/**
+ * Link prefix for the commit under test when running in GitHub Actions
+ */
+function defaultLinkBase(): string | undefined {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_SHA } = process.env;
+  if (!GITHUB_SERVER_URL || !GITHUB_REPOSITORY || !GITHUB_SHA) return undefined;
+  return `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/blob/${GITHUB_SHA}`;
+}
+
+function hasChanges(result: CompareResult): boolean {
+  return result.added.length > 0 || result.removed.length > 0 || result.changed.length > 0;
+}
+
+/**
+ * Pretty print a compare result (shared by compare and --diff)
+ * @param roots Scan roots stripped from base/head file paths
+ */
+function printCompareResult(
+  result: CompareResult,
+  baseResult: ScanResult,
+  headResult: ScanResult,
+  title: string,
+  roots: { base: string; head: string }
+): void {
+  const rel = (file: string, root: string) => file.replace(root + '/', '');
+  const { added, removed, changed, unchanged } = result;
+
   console.log();
-  console.log(chalk.bold('Env Var Changes:'));
+  console.log(chalk.bold(title));
   console.log();
 
-  if (added.length === 0 && removed.length === 0) {
+  if (!hasChanges(result)) {
     console.log(chalk.gray('  No changes detected'));
   } else {
     for (const name of added) {
       const loc = headResult.envVars.find(v => v.name === name);
-      const locStr = loc ? ` (${loc.file}:${loc.line})` : '';
+      const locStr = loc ? ` (${rel(loc.file, roots.head)}:${loc.line})` : '';
       console.log(chalk.green(`  + ${name}`) + chalk.gray(locStr));
     }
     for (const name of removed) {
       const loc = baseResult.envVars.find(v => v.name === name);
-      const locStr = loc ? ` (was in ${loc.file}:${loc.line})` : '';
+      const locStr = loc ? ` (was in ${rel(loc.file, roots.base)}:${loc.line})` : '';
       console.log(chalk.red(`  - ${name}`) + chalk.gray(locStr));
     }
+    for (const change of changed) {
+      const locStr = change.file ? ` (${rel(change.file, roots.head)}:${change.line})` : '';
+      console.log(chalk.yellow(`  ~ ${change.name}`) + chalk.gray(locStr));
+      for (const line of describeChange(change)) {
+        console.log(chalk.gray(`      ${line}`));
+      }
+    }
   }
 
   console.log();
-  console.log(chalk.blue(`Summary: ${added.length} added, ${removed.length} removed, ${unchanged.length} unchanged`));
-
-  // Exit with code 1 if there are changes (useful for CI)
-  if (added.length > 0 || removed.length > 0) {
-    process.exit(1);
-  }
+  console.log(chalk.blue(`Summary: ${added.length} added, ${removed.length} removed, ${changed.length} changed, ${unchanged.length} unchanged`));
 }
 
 // Diff against a git ref using git worktree (safe - never modifies working directory)
@@ -542,6 +1233,7 @@ async function runDiff(path: string, baseRef: string, options: Options): Promise
     console.log(chalk.blue(`Creating worktree for ${baseRef}...`));
   }
 
+  let changes = false;
   try {
     // Create worktree at base ref (detached HEAD)
     execSync(`git worktree add --detach "${worktreePath}" ${baseRef}`, { cwd: absPath, stdio: 'pipe' });
@@ -557,46 +1249,23 @@ async function runDiff(path: string, baseRef: string, options: Options): Promise
     // Scan base state in worktree
     const baseResult = await scanPath(worktreePath, options);
 
-    // Compare
-    const baseNames = new Set(baseResult.envVars.map(v => v.name));
-    const headNames = new Set(headResult.envVars.map(v => v.name));
-
-    const added = [...headNames].filter(n => !baseNames.has(n)).sort();
-    const removed = [...baseNames].filter(n => !headNames.has(n)).sort();
-    const unchanged = [...headNames].filter(n => baseNames.has(n)).sort();
-
-    if (options.json) {
-      console.log(JSON.stringify({ added, removed, unchanged }, null, 2));
-      return;
-    }
-
-    // Pretty print
-    console.log();
-    console.log(chalk.bold(`Env Var Changes (${baseRef} → current):`));
-    console.log();
-
-    if (added.length === 0 && removed.length === 0) {
-      console.log(chalk.gray('  No changes detected'));
+    const result = compareResults(baseResult, headResult, { formatValue: valueFormatter(getSensitivity(absPath, options)) });
+    changes = hasChanges(result);
+
+    if (options.format === 'markdown') {
+      process.stdout.write(renderCompareMarkdown(result, baseResult, headResult, {
+        title: `Env Var Changes (${baseRef} → current)`,
+        linkBase: options.linkBase ?? defaultLinkBase(),
+        roots: { base: worktreePath, head: absPath },
+      }));
+    } else if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
     } else {
-      for (const name of added) {
-        const loc = headResult.envVars.find(v => v.name === name);
-        // Show path relative to repo root
-        const relPath = loc ? loc.file.replace(absPath + '/', '') : '';
-        const locStr = loc ? ` (${relPath}:${loc.line})` : '';
-        console.log(chalk.green(`  + ${name}`) + chalk.gray(locStr));
-      }
-      for (const name of removed) {
-        const loc = baseResult.envVars.find(v => v.name === name);
-        // Show path relative to repo root (strip worktree path)
-        const relPath = loc ? loc.file.replace(worktreePath + '/', '') : '';
-        const locStr = loc ? ` (was in ${relPath}:${loc.line})` : '';
-        console.log(chalk.red(`  - ${name}`) + chalk.gray(locStr));
-      }
+      printCompareResult(result, baseResult, headResult, `Env Var Changes (${baseRef} → current):`, {
+        base: worktreePath,
+        head: absPath,
+      });
     }
-
-    console.log();
-    console.log(chalk.blue(`Summary: ${added.length} added, ${removed.length} removed, ${unchanged.length} unchanged`));
-
   } finally {
     // Always clean up the worktree
     if (!options.json) {
@@ -614,50 +1283,117 @@ async function runDiff(path: string, baseRef: string, options: Options): Promise
       }
     }
   }
+
+  // Exit with code 1 if there are changes, like compare (after the worktree is gone)
+  if (changes) {
+    process.exit(1);
+  }
 }
 
-// Helper to scan a path and return results (for diff mode)
+// Scan a path with all enabled scanners and return merged, deduplicated results
 async function scanPath(absPath: string, options: Options): Promise<ScanResult> {
   const allEnvVars: EnvVar[] = [];
   const allErrors: string[] = [];
+  const dynamicAccess: DynamicEnvAccess[] = [];
+  // The config's excludePatterns / includeExcludePatterns apply to every scanner, not just code
+  const excludePatterns = resolveExcludePatterns(loadUserConfig(absPath));
 
   if (options.semgrep !== false) {
-    if (await checkSemgrepInstalled()) {
-      const semgrepResult = await scan(absPath, { filterUppercase: !options.all });
-      allEnvVars.push(...semgrepResult.envVars);
-      allErrors.push(...semgrepResult.errors);
+    const codeResult = await scan(absPath, { filterUppercase: !options.all, engine: options.engine });
+    if (!options.json && codeResult.engine === 'builtin' && options.engine !== 'builtin') {
+      console.log(chalk.yellow('Warning: semgrep not installed. Using built-in engine (common patterns only).'));
+      console.log(chalk.yellow('Install with: brew install semgrep'));
     }
+    allEnvVars.push(...codeResult.envVars);
+    allErrors.push(...codeResult.errors);
+    dynamicAccess.push(...(codeResult.dynamicAccess ?? []));
   }
 
   if (options.properties !== false) {
-    const propertyVars = await scanPropertyFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
+    const propertyVars = await scanPropertyFiles(absPath, excludePatterns);
     const filtered = options.all ? propertyVars : propertyVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
     allEnvVars.push(...filtered);
   }
 
   if (options.dotenv !== false) {
-    const dotenvVars = await scanDotEnvFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
+    const dotenvVars = await scanDotEnvFiles(absPath, excludePatterns);
     const filtered = options.all ? dotenvVars : dotenvVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
     allEnvVars.push(...filtered);
   }
 
   if (options.docker !== false) {
-    const dockerVars = await scanDockerfiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
+    const dockerVars = await scanDockerfiles(absPath, excludePatterns);
     const filtered = options.all ? dockerVars : dockerVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
     allEnvVars.push(...filtered);
   }
 
   if (options.compose) {
-    const composeVars = await scanDockerComposeFiles(absPath, DEFAULT_EXCLUDE_PATTERNS);
+    const composeVars = await scanDockerComposeFiles(absPath, excludePatterns, allErrors);
     const filtered = options.all ? composeVars : composeVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
     allEnvVars.push(...filtered);
   }
 
   if (options.k8s) {
-    const k8sVars = await scanK8sManifests(absPath, DEFAULT_EXCLUDE_PATTERNS);
+    const k8sErrors: string[] = [];
+    const k8sVars = await scanK8sManifests(absPath, excludePatterns, k8sErrors);
+    if (!options.json && !options.verbose) {
+      // Dangling references are problems in the manifests, not scanner noise
+      for (const e of k8sErrors) {
+        console.log(chalk.yellow(`Warning: ${e}`));
+      }
+    }
+    allErrors.push(...k8sErrors);
     const filtered = options.all ? k8sVars : k8sVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
     allEnvVars.push(...filtered);
   }
 
-  return deduplicateResults({ path: absPath, envVars: allEnvVars, errors: allErrors });
+  if (options.helm) {
+    const helmVars = await scanHelmCharts(absPath, excludePatterns);
+    const filtered = options.all ? helmVars : helmVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
+    allEnvVars.push(...filtered);
+  }
+
+  if (options.terraform) {
+    const terraformVars = await scanTerraformFiles(absPath, excludePatterns, allErrors);
+    const filtered = options.all ? terraformVars : terraformVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
+    allEnvVars.push(...filtered);
+  }
+
+  if (options.ci) {
+    const ciVars = await scanCiWorkflows(absPath, excludePatterns, allErrors);
+    const filtered = options.all ? ciVars : ciVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
+    allEnvVars.push(...filtered);
+  }
+
+  if (options.shell) {
+    const shellVars = await scanShellScripts(absPath, excludePatterns);
+    const filtered = options.all ? shellVars : shellVars.filter((v) => /^[A-Z][A-Z0-9_]*$/.test(v.name));
+    allEnvVars.push(...filtered);
+  }
+
+  // Attribute findings to monorepo packages; --package keeps one of them
+  const packages = await detectPackages(absPath, excludePatterns);
+  assignPackages(allEnvVars, packages);
+  let envVars = allEnvVars;
+  let dynamic = dynamicAccess;
+  if (options.package) {
+    const pkg = packages.find((p) => p.name === options.package || relative(absPath, p.dir) === options.package);
+    if (!pkg) {
+      const known = packages.map((p) => p.name).join(', ') || 'none';
+      throw new Error(`Unknown package: ${options.package} (found: ${known})`);
+    }
+    envVars = allEnvVars.filter((ev) => ev.package === pkg.name);
+    dynamic = dynamicAccess.filter((d) => findPackage(d.file, packages) === pkg);
+  }
+
+  // Value shapes of .env, compose, k8s, ... definitions; reads the scanners didn't classify
+  inferEnvVarTypes(envVars);
+  classifyRequired(envVars);
+  const result = deduplicateResults({ path: absPath, envVars, errors: allErrors, dynamicAccess: dynamic });
+  return {
+    ...result,
+    typeConflicts: findTypeConflicts(result.envVars),
+    required: requiredByName(result.envVars),
+    ...(packages.length > 0 && { packages }),
+  };
 }
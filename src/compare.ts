@@ -0,0 +1,235 @@
+import type { EnvVar, MaskMode, ScanResult, ValueSource } from './types.js';
+
+/**
+ * Which value wins when a variable is defined in several places,
+ * from the deployment closest to runtime down to code defaults
+ */
+const VALUE_SOURCE_PRECEDENCE: ValueSource[] = [
+  'helm-values',
+  'helm-template',
+  'k8s-deployment',
+  'k8s-configmap',
+  'k8s-secret',
+  'lambda-environment',
+  'ecs-environment',
+  'ecs-secret',
+  'shell-export',
+  'docker-compose',
+  'github-actions-env',
+  'gitlab-ci-variables',
+  'dockerfile-env',
+  'dotenv',
+  'dockerfile-arg',
+  'properties',
+  'shell-default',
+  'code-default',
+];
+
+export interface ValueChange<T> {
+  base?: T;
+  head?: T;
+}
+
+/**
+ * A value change within a single source (e.g. the .env value changed)
+ */
+export interface SourceValueChange {
+  source: ValueSource;
+  base?: string;
+  head?: string;
+}
+
+export interface VarChange {
+  name: string;
+  /** Effective value (highest-precedence source) */
+  value?: ValueChange<string>;
+  valueSource?: ValueChange<ValueSource>;
+  isDefault?: ValueChange<boolean>;
+  /** Per-source values that were added, removed or changed */
+  sources?: SourceValueChange[];
+  /** Where the variable is defined or read in head */
+  file?: string;
+  line?: number;
+}
+
+export interface CompareResult {
+  added: string[];
+  removed: string[];
+  changed: VarChange[];
+  unchanged: string[];
+}
+
+export interface CompareOptions {
+  /**
+   * Applied to every value in the output (e.g. masking sensitive values); comparison uses raw values.
+   * Returning undefined leaves the value out, shown as (omitted).
+   */
+  formatValue?: (name: string, value: string, valueSource?: ValueSource) => string | undefined;
+}
+
+/**
+ * Shape of a partial or full mask, for inputs written before scan results recorded their mask mode
+ */
+const MASKED_VALUE_RE = /^(?:.{1,2}\*{4}.{1,2}|\*{4})$/;
+
+/**
+ * Problems with comparing two scan results whose sensitive values were masked:
+ * partial, full and omit masks hide value changes, and inputs masked differently
+ * differ even where the values are equal. Hash masks are safe to compare.
+ */
+export function compareInputWarnings(base: ScanResult, head: ScanResult): string[] {
+  const warnings: string[] = [];
+  const baseMask = inputMask(base);
+  const headMask = inputMask(head);
+
+  for (const [label, mask] of [['base', baseMask], ['head', headMask]] as const) {
+    if (mask && mask !== 'hash') {
+      warnings.push(`${label} input has sensitive values masked with "${mask}", so changes to them are not detected; write compare inputs with --mask hash and the same ENVVARS_SCAN_HASH_KEY`);
+    }
+  }
+  if (baseMask && headMask && baseMask !== headMask) {
+    warnings.push(`base and head inputs were masked differently (${baseMask} vs ${headMask}), so sensitive values may show as changed`);
+  }
+  return warnings;
+}
+
+function inputMask(result: ScanResult): MaskMode | undefined {
+  if (result.mask) return result.mask;
+  return result.envVars.some((ev) => ev.value !== undefined && MASKED_VALUE_RE.test(ev.value)) ? 'partial' : undefined;
+}
+
+interface VarSummary {
+  value?: string;
+  valueSource?: ValueSource;
+  isDefault: boolean;
+  /** Joined, sorted unique values per source */
+  sources: Map<ValueSource, string>;
+  first: EnvVar;
+}
+
+/**
+ * Compare two scan results by name and by value
+ */
+export function compareResults(base: ScanResult, head: ScanResult, options: CompareOptions = {}): CompareResult {
+  const { formatValue = (_name: string, value: string) => value } = options;
+  const baseVars = summarize(base.envVars);
+  const headVars = summarize(head.envVars);
+
+  const added = [...headVars.keys()].filter((n) => !baseVars.has(n)).sort();
+  const removed = [...baseVars.keys()].filter((n) => !headVars.has(n)).sort();
+  const changed: VarChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const name of [...headVars.keys()].filter((n) => baseVars.has(n)).sort()) {
+    const b = baseVars.get(name)!;
+    const h = headVars.get(name)!;
+    const fmt = (v: string | undefined, source?: ValueSource) =>
+      v === undefined ? undefined : formatValue(name, v, source) ?? '(omitted)';
+    const change: VarChange = { name, file: h.first.file, line: h.first.line };
+    let isChanged = false;
+
+    if (b.value !== h.value) {
+      change.value = { base: fmt(b.value, b.valueSource), head: fmt(h.value, h.valueSource) };
+      isChanged = true;
+    }
+    if (b.valueSource !== h.valueSource) {
+      change.valueSource = { base: b.valueSource, head: h.valueSource };
+      isChanged = true;
+    }
+    if (b.isDefault !== h.isDefault) {
+      change.isDefault = { base: b.isDefault, head: h.isDefault };
+      isChanged = true;
+    }
+
+    const sources: SourceValueChange[] = [];
+    for (const source of VALUE_SOURCE_PRECEDENCE) {
+      const bv = b.sources.get(source);
+      const hv = h.sources.get(source);
+      if (bv !== hv) {
+        sources.push({ source, base: fmt(bv, source), head: fmt(hv, source) });
+      }
+    }
+    if (sources.length > 0) {
+      change.sources = sources;
+      isChanged = true;
+    }
+
+    if (isChanged) {
+      changed.push(change);
+    } else {
+      unchanged.push(name);
+    }
+  }
+
+  return { added, removed, changed, unchanged };
+}
+
+function summarize(envVars: EnvVar[]): Map<string, VarSummary> {
+  const grouped = new Map<string, EnvVar[]>();
+  for (const ev of envVars) {
+    const list = grouped.get(ev.name) || [];
+    list.push(ev);
+    grouped.set(ev.name, list);
+  }
+
+  const summaries = new Map<string, VarSummary>();
+  for (const [name, usages] of grouped) {
+    const valuesBySource = new Map<ValueSource, Set<string>>();
+    for (const u of usages) {
+      if (!u.valueSource || u.value === undefined) continue;
+      const set = valuesBySource.get(u.valueSource) || new Set<string>();
+      set.add(u.value);
+      valuesBySource.set(u.valueSource, set);
+    }
+
+    const sources = new Map<ValueSource, string>();
+    for (const [source, values] of valuesBySource) {
+      sources.set(source, [...values].sort().join(', '));
+    }
+
+    const effectiveSource = VALUE_SOURCE_PRECEDENCE.find((s) => sources.has(s));
+    const effective = effectiveSource
+      ? usages.find((u) => u.valueSource === effectiveSource && u.value !== undefined)
+      : undefined;
+
+    summaries.set(name, {
+      value: effective?.value,
+      valueSource: effectiveSource,
+      isDefault: !!effective?.isDefault,
+      sources,
+      first: effective ?? usages[0],
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Human-readable lines describing a value change
+ */
+export function describeChange(change: VarChange): string[] {
+  const show = (v: string | boolean | undefined) => (v === undefined ? '(none)' : String(v));
+  const lines: string[] = [];
+
+  if (change.value) {
+    lines.push(`value: ${show(change.value.base)} → ${show(change.value.head)}`);
+  }
+  if (change.valueSource) {
+    lines.push(`source: ${show(change.valueSource.base)} → ${show(change.valueSource.head)}`);
+  }
+  if (change.isDefault) {
+    lines.push(`default: ${show(change.isDefault.base)} → ${show(change.isDefault.head)}`);
+  }
+  for (const s of change.sources ?? []) {
+    if (s.base === undefined) {
+      lines.push(`${s.source}: added (${s.head})`);
+    } else if (s.head === undefined) {
+      lines.push(`${s.source}: removed (was ${s.base})`);
+    } else if (s.base !== change.value?.base || s.head !== change.value?.head) {
+      // Only if not already described by the effective value line
+      lines.push(`${s.source}: ${s.base} → ${s.head}`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,364 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Node, Pair } from 'yaml';
+import type { CustomPattern, MaskMode, SensitivityConfig, UserConfig, ValueSource } from './types.js';
+
+export const CONFIG_FILE_NAME = 'envvars-scan.yaml';
+
+/**
+ * A single problem found in a user config file
+ */
+export interface ConfigIssue {
+  file: string;
+  line: number;
+  /** Dotted path of the offending key, e.g. customPatterns[0].languages */
+  key: string;
+  message: string;
+}
+
+/**
+ * Thrown when .skyhook/envvars-scan.yaml cannot be parsed or fails validation
+ */
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(issues.map(formatConfigIssue).join('\n'));
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.file}:${issue.line}: ${issue.key}: ${issue.message}`;
+}
+
+/**
+ * Path of the user config file for a scan root
+ */
+export function getConfigPath(dir: string): string {
+  return join(dir, '.skyhook', CONFIG_FILE_NAME);
+}
+
+/**
+ * Load .skyhook/envvars-scan.yaml from a scan root.
+ * Returns null if the file does not exist, throws ConfigError if it is invalid.
+ */
+export function loadUserConfig(dir: string): UserConfig | null {
+  const configPath = getConfigPath(dir);
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  return parseUserConfig(readFileSync(configPath, 'utf-8'), configPath);
+}
+
+/**
+ * Parse and validate user config YAML content
+ * @param file Used for error messages only
+ */
+export function parseUserConfig(content: string, file: string): UserConfig {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+  const issues: ConfigIssue[] = [];
+
+  const lineOf = (node: Node | null | undefined): number => {
+    const offset = node?.range?.[0];
+    return offset === undefined ? 1 : lineCounter.linePos(offset).line;
+  };
+
+  for (const err of doc.errors) {
+    issues.push({
+      file,
+      line: err.linePos?.[0].line ?? 1,
+      key: '(syntax)',
+      message: err.message.split('\n')[0],
+    });
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  const config: UserConfig = {};
+  const root = doc.contents;
+
+  // Empty file (or only comments) is a valid, empty config
+  if (isEmptyNode(root)) {
+    return config;
+  }
+
+  if (!isMap(root)) {
+    throw new ConfigError([{ file, line: lineOf(root), key: '(root)', message: 'expected a mapping of config keys' }]);
+  }
+
+  const report: ReportFn = (node, key, message) => {
+    issues.push({ file, line: lineOf(node), key, message });
+  };
+
+  for (const pair of root.items) {
+    const keyNode = pair.key as Node;
+    const key = keyName(keyNode);
+
+    switch (key) {
+      case 'customPatterns': {
+        const patterns = readCustomPatterns(pair, report);
+        if (patterns) config.customPatterns = patterns;
+        break;
+      }
+      case 'excludePatterns':
+      case 'includeExcludePatterns':
+      case 'shellIgnore':
+      case 'secretAllowlist':
+      case 'packages': {
+        const list = readStringList(pair.value as Node | null, key, report);
+        if (list) config[key] = list;
+        break;
+      }
+      case 'sensitivity': {
+        const sensitivity = readSensitivity(pair.value as Node | null, report);
+        if (sensitivity) config.sensitivity = sensitivity;
+        break;
+      }
+      case 'environments': {
+        const environments = readEnvironments(pair.value as Node | null, report);
+        if (environments) config.environments = environments;
+        break;
+      }
+      default:
+        report(keyNode, key, 'unknown config key');
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return config;
+}
+
+type ReportFn = (node: Node | null | undefined, key: string, message: string) => void;
+
+function keyName(node: Node): string {
+  return isScalar(node) ? String(node.value) : String(node);
+}
+
+/**
+ * A key present with no value (or only comments under it)
+ */
+function isEmptyNode(node: Node | null): boolean {
+  return node === null || (isScalar(node) && node.value === null);
+}
+
+/**
+ * Read a list of strings; an empty value counts as an empty list
+ */
+function readStringList(value: Node | null, key: string, report: ReportFn): string[] | undefined {
+  if (isEmptyNode(value)) {
+    return [];
+  }
+  if (!isSeq(value)) {
+    report(value, key, 'expected a list of strings');
+    return undefined;
+  }
+  const items: string[] = [];
+  value.items.forEach((item, i) => {
+    if (isScalar(item) && typeof item.value === 'string') {
+      items.push(item.value);
+    } else {
+      report(item as Node, `${key}[${i}]`, 'expected a string');
+    }
+  });
+  return items;
+}
+
+/**
+ * Read a mapping of environment label to a list of aliases; an empty value counts as no aliases
+ */
+function readEnvironments(value: Node | null, report: ReportFn): Record<string, string[]> | undefined {
+  if (isEmptyNode(value)) {
+    return {};
+  }
+  if (!isMap(value)) {
+    report(value, 'environments', 'expected a mapping of environment name to a list of aliases');
+    return undefined;
+  }
+  const environments: Record<string, string[]> = {};
+  for (const p of value.items) {
+    const label = keyName(p.key as Node);
+    const aliases = readStringList(p.value as Node | null, `environments.${label}`, report);
+    if (aliases) environments[label] = aliases;
+  }
+  return environments;
+}
+
+const MASK_MODES: MaskMode[] = ['partial', 'full', 'hash', 'omit'];
+
+const VALUE_SOURCES: ValueSource[] = [
+  'code-default',
+  'dotenv',
+  'dockerfile-env',
+  'dockerfile-arg',
+  'k8s-deployment',
+  'k8s-configmap',
+  'k8s-secret',
+  'docker-compose',
+  'helm-values',
+  'helm-template',
+  'lambda-environment',
+  'ecs-environment',
+  'ecs-secret',
+  'github-actions-env',
+  'gitlab-ci-variables',
+  'shell-export',
+  'shell-default',
+  'properties',
+];
+
+/**
+ * Read the sensitivity rules: patterns, allowNames, sources (string lists) and mask
+ */
+function readSensitivity(value: Node | null, report: ReportFn): SensitivityConfig | undefined {
+  if (isEmptyNode(value)) {
+    return {};
+  }
+  if (!isMap(value)) {
+    report(value, 'sensitivity', 'expected a mapping with patterns, allowNames, sources and mask');
+    return undefined;
+  }
+
+  const sensitivity: SensitivityConfig = {};
+  for (const p of value.items) {
+    const keyNode = p.key as Node;
+    const key = keyName(keyNode);
+    const node = p.value as Node | null;
+    switch (key) {
+      case 'patterns': {
+        const patterns = readStringList(node, 'sensitivity.patterns', report);
+        if (!patterns || !isSeq(node)) break;
+        patterns.forEach((pattern, i) => {
+          try {
+            new RegExp(pattern, 'i');
+          } catch {
+            report(node.items[i] as Node, `sensitivity.patterns[${i}]`, `invalid regular expression "${pattern}"`);
+          }
+        });
+        sensitivity.patterns = patterns;
+        break;
+      }
+      case 'allowNames': {
+        const names = readStringList(node, 'sensitivity.allowNames', report);
+        if (names) sensitivity.allowNames = names;
+        break;
+      }
+      case 'sources': {
+        const sources = readStringList(node, 'sensitivity.sources', report);
+        if (!sources || !isSeq(node)) break;
+        sources.forEach((source, i) => {
+          if (!VALUE_SOURCES.includes(source as ValueSource)) {
+            report(node.items[i] as Node, `sensitivity.sources[${i}]`, `unknown value source "${source}" (expected one of ${VALUE_SOURCES.join(', ')})`);
+          }
+        });
+        sensitivity.sources = sources as ValueSource[];
+        break;
+      }
+      case 'mask': {
+        if (isScalar(node) && MASK_MODES.includes(node.value as MaskMode)) {
+          sensitivity.mask = node.value as MaskMode;
+        } else {
+          report(node ?? keyNode, 'sensitivity.mask', `expected one of ${MASK_MODES.join(', ')}`);
+        }
+        break;
+      }
+      default:
+        report(keyNode, `sensitivity.${key}`, 'unknown key (expected patterns, allowNames, sources, mask)');
+    }
+  }
+  return sensitivity;
+}
+
+const CUSTOM_PATTERN_KEYS = new Set(['id', 'description', 'pattern', 'languages']);
+const CUSTOM_PATTERN_ID_RE = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+function readCustomPatterns(pair: Pair, report: ReportFn): CustomPattern[] | undefined {
+  const value = pair.value as Node | null;
+  if (isEmptyNode(value)) {
+    return [];
+  }
+  if (!isSeq(value)) {
+    report(value, 'customPatterns', 'expected a list of patterns');
+    return undefined;
+  }
+
+  const patterns: CustomPattern[] = [];
+  const seenIds = new Set<string>();
+
+  value.items.forEach((item, i) => {
+    const prefix = `customPatterns[${i}]`;
+    if (!isMap(item)) {
+      report(item as Node, prefix, 'expected a mapping with id, pattern and languages');
+      return;
+    }
+
+    const fields = new Map<string, Pair>();
+    for (const p of item.items) {
+      const keyNode = p.key as Node;
+      const key = keyName(keyNode);
+      if (!CUSTOM_PATTERN_KEYS.has(key)) {
+        report(keyNode, `${prefix}.${key}`, 'unknown key (expected id, description, pattern, languages)');
+        continue;
+      }
+      fields.set(key, p);
+    }
+
+    const readString = (key: string, required: boolean): string | undefined => {
+      const p = fields.get(key);
+      if (!p) {
+        if (required) report(item, `${prefix}.${key}`, 'missing required key');
+        return undefined;
+      }
+      const v = p.value as Node | null;
+      if (!isScalar(v) || typeof v.value !== 'string' || v.value.trim() === '') {
+        report(v ?? (p.key as Node), `${prefix}.${key}`, 'expected a non-empty string');
+        return undefined;
+      }
+      return v.value;
+    };
+
+    const id = readString('id', true);
+    const description = readString('description', false);
+    const pattern = readString('pattern', true);
+
+    if (id !== undefined) {
+      const idNode = fields.get('id')?.value as Node;
+      if (!CUSTOM_PATTERN_ID_RE.test(id)) {
+        report(idNode, `${prefix}.id`, `invalid id "${id}" (use letters, digits, - and _)`);
+      } else if (seenIds.has(id)) {
+        report(idNode, `${prefix}.id`, `duplicate id "${id}"`);
+      }
+      seenIds.add(id);
+    }
+
+    if (pattern !== undefined && !pattern.includes('$VAR')) {
+      report(fields.get('pattern')?.value as Node, `${prefix}.pattern`, 'pattern must capture the variable name as $VAR');
+    }
+
+    let languages: string[] | undefined;
+    const langPair = fields.get('languages');
+    if (!langPair) {
+      report(item, `${prefix}.languages`, 'missing required key');
+    } else {
+      languages = readStringList(langPair.value as Node | null, `${prefix}.languages`, report);
+      if (languages?.length === 0) {
+        report(langPair.key as Node, `${prefix}.languages`, 'expected a non-empty list of languages');
+        languages = undefined;
+      }
+    }
+
+    if (id !== undefined && pattern !== undefined && languages) {
+      patterns.push({ id, pattern, languages, ...(description !== undefined && { description }) });
+    }
+  });
+
+  return patterns;
+}
@@ -0,0 +1,229 @@
+/**
+ * One Dockerfile instruction, with continuation lines joined
+ */
+export interface DockerInstruction {
+  /** Upper-cased instruction keyword (FROM, ENV, RUN, ...) */
+  keyword: string;
+  /** Arguments after the keyword, continuation lines joined with '\n' */
+  args: string;
+  /** Line of the keyword */
+  line: number;
+  /** Escape character from the `# escape=` directive (default backslash) */
+  escape: string;
+  /** Line of an offset within args */
+  lineAt(offset: number): number;
+}
+
+/**
+ * A KEY=value (or bare KEY) word of ENV/ARG
+ */
+export interface DockerKeyValue {
+  key: string;
+  /** Raw value with quotes and escapes (undefined for a bare ARG) */
+  raw?: string;
+  /** Offset of the key within the instruction args */
+  offset: number;
+}
+
+/**
+ * Value of a variable during substitution: a string, null when it is in scope but has
+ * no known value (ARG without default), undefined when it is not in scope (expands to '')
+ */
+export type DockerLookup = (name: string) => string | null | undefined;
+
+/**
+ * Split a Dockerfile into instructions. Handles the escape parser directive, line
+ * continuations (with comment and blank lines inside them) and RUN/COPY heredocs.
+ */
+export function parseDockerfile(content: string): DockerInstruction[] {
+  const lines = content.split(/\r?\n/);
+  const instructions: DockerInstruction[] = [];
+
+  // Parser directives are only recognized before the first instruction, comment or blank line
+  let escape = '\\';
+  for (const line of lines) {
+    const directive = /^#\s*([a-z]+)\s*=\s*(\S+)\s*$/i.exec(line);
+    if (!directive) break;
+    if (directive[1].toLowerCase() === 'escape' && (directive[2] === '`' || directive[2] === '\\')) {
+      escape = directive[2];
+    }
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    const first = lines[i].trim();
+    if (first === '' || first.startsWith('#')) {
+      i++;
+      continue;
+    }
+
+    const startLine = i + 1;
+    const segments: { offset: number; line: number }[] = [];
+    let text = '';
+    const append = (part: string, line: number) => {
+      if (segments.length > 0) text += '\n';
+      segments.push({ offset: text.length, line });
+      text += part;
+    };
+
+    // Join continuation lines: a trailing escape character continues the instruction
+    let current = lines[i];
+    let lineNo = i + 1;
+    for (;;) {
+      const trimmed = current.replace(/\s+$/, '');
+      const continues = trimmed.endsWith(escape) && !trimmed.endsWith(escape + escape);
+      append(continues ? trimmed.slice(0, -1) : current, lineNo);
+      i++;
+      if (!continues) break;
+      while (i < lines.length && /^\s*(#.*)?$/.test(lines[i])) i++;
+      if (i >= lines.length) break;
+      current = lines[i];
+      lineNo = i + 1;
+    }
+
+    const match = /^\s*([A-Za-z]+)(\s+|$)/.exec(text);
+    if (!match) continue;
+    const keyword = match[1].toUpperCase();
+    const argsStart = match[0].length;
+
+    // Heredocs (RUN <<EOF ... EOF) belong to the instruction
+    const heredocs = ['RUN', 'COPY', 'ADD'].includes(keyword) ? text.matchAll(/<<-?\s*(['"]?)([A-Za-z_][A-Za-z0-9_]*)\1/g) : [];
+    for (const heredoc of heredocs) {
+      const delimiter = heredoc[2];
+      while (i < lines.length) {
+        const line = lines[i];
+        append(line, i + 1);
+        i++;
+        if (line.replace(/^\t+/, '') === delimiter) break;
+      }
+    }
+
+    instructions.push({
+      keyword,
+      args: text.slice(argsStart),
+      line: startLine,
+      escape,
+      lineAt: (offset) => {
+        let line = startLine;
+        for (const segment of segments) {
+          if (segment.offset > offset + argsStart) break;
+          line = segment.line;
+        }
+        return line;
+      },
+    });
+  }
+
+  return instructions;
+}
+
+/**
+ * Words of ENV/ARG arguments. `ENV KEY value with spaces` (no `=` in the first word) is the
+ * legacy single-variable form; otherwise every word is KEY=value or, for ARG, a bare KEY.
+ */
+export function parseKeyValues(args: string, escape: string): DockerKeyValue[] {
+  const words = splitWords(args, escape);
+  if (words.length === 0) return [];
+
+  if (!words[0].text.includes('=')) {
+    const [key, ...rest] = words;
+    if (rest.length === 0) return [{ key: key.text, offset: key.offset }];
+    return [{ key: key.text, raw: args.slice(rest[0].offset).trim(), offset: key.offset }];
+  }
+
+  return words.map((word) => {
+    const eq = word.text.indexOf('=');
+    return eq === -1
+      ? { key: word.text, offset: word.offset }
+      : { key: word.text.slice(0, eq), raw: word.text.slice(eq + 1), offset: word.offset };
+  });
+}
+
+/**
+ * Whitespace-separated words, keeping quoted whitespace and escaped characters inside a word
+ */
+function splitWords(args: string, escape: string): { text: string; offset: number }[] {
+  const words: { text: string; offset: number }[] = [];
+  let i = 0;
+  while (i < args.length) {
+    while (i < args.length && /\s/.test(args[i])) i++;
+    if (i >= args.length) break;
+
+    const start = i;
+    let quote: string | undefined;
+    for (; i < args.length; i++) {
+      const ch = args[i];
+      if (ch === escape && quote !== "'") {
+        i++;
+      } else if (quote) {
+        if (ch === quote) quote = undefined;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (/\s/.test(ch)) {
+        break;
+      }
+    }
+    words.push({ text: args.slice(start, i), offset: start });
+  }
+  return words;
+}
+
+/**
+ * Remove quotes and escapes from a word and substitute $VAR / ${VAR} / ${VAR:-word} / ${VAR:+word}
+ * the way the builder does. Returns undefined if the result depends on a value that isn't known.
+ */
+export function expandDockerWord(raw: string, escape: string, lookup: DockerLookup): string | undefined {
+  let out = '';
+  let unknown = false;
+  let quote: string | undefined;
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (quote === "'") {
+      if (ch === "'") quote = undefined;
+      else out += ch;
+      continue;
+    }
+    if (ch === escape && i + 1 < raw.length) {
+      // Inside double quotes only a few characters can be escaped
+      if (quote === '"' && !['"', '$', escape].includes(raw[i + 1])) out += ch;
+      out += raw[++i];
+      continue;
+    }
+    if (ch === '"' || (ch === "'" && !quote)) {
+      quote = quote === ch ? undefined : ch;
+      continue;
+    }
+    if (ch !== '$') {
+      out += ch;
+      continue;
+    }
+
+    const simple = /^\$([A-Za-z_][A-Za-z0-9_]*)/.exec(raw.slice(i));
+    const braced = simple ? null : /^\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-+?])([^}]*))?\}/.exec(raw.slice(i));
+    const ref = simple ?? braced;
+    if (!ref) {
+      out += ch;
+      continue;
+    }
+
+    const value = lookup(ref[1]);
+    const operator = braced?.[2];
+    const word = braced?.[3] ?? '';
+    const isSet = operator?.startsWith(':') ? !!value : value !== undefined;
+    if (value === null && operator) {
+      unknown = true;
+    } else if (operator?.endsWith('-')) {
+      out += isSet ? value : expandDockerWord(word, escape, lookup) ?? '';
+    } else if (operator?.endsWith('+')) {
+      out += isSet ? expandDockerWord(word, escape, lookup) ?? '' : '';
+    } else if (value === null) {
+      unknown = true;
+    } else {
+      out += value ?? '';
+    }
+    i += ref[0].length - 1;
+  }
+
+  return unknown ? undefined : out;
+}
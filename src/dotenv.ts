@@ -0,0 +1,128 @@
+/**
+ * One KEY=value entry of a .env file
+ */
+export interface DotEnvEntry {
+  key: string;
+  /** Value as written, without the surrounding quotes */
+  raw: string;
+  /** Value after unquoting and escape processing (before expansion) */
+  value: string;
+  quote?: '"' | "'" | '`';
+  /** Line of the key (multi-line values continue on the following lines) */
+  line: number;
+}
+
+/**
+ * An entry with ${OTHER} references expanded
+ */
+export interface ExpandedDotEnvEntry extends DotEnvEntry {
+  /** Expanded value; undefined when it depends on a variable that isn't defined in the file */
+  expanded?: string;
+  /** Variables referenced by the value */
+  dependsOn: string[];
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', '"': '"' };
+
+/**
+ * Parse .env content the way dotenv does:
+ * `KEY=value` or `KEY: value` (optionally prefixed with `export`), keys of letters, digits, `_`, `.` and `-`,
+ * single, double or backtick quoted values that may span lines, `\n`/`\r`/`\"` escapes in double quotes,
+ * and `#` comments after unquoted values.
+ */
+export function parseDotEnv(content: string): DotEnvEntry[] {
+  const entries: DotEnvEntry[] = [];
+  const text = content.replace(/\r\n?/g, '\n');
+  const pattern = /^[ \t]*(?:export[ \t]+)?([\w.-]+)(?:[ \t]*=[ \t]*|:[ \t]+)('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\n]*)[ \t]*(?:#[^\n]*)?$/gm;
+
+  let lineStart = 0;
+  let line = 1;
+  for (const match of text.matchAll(pattern)) {
+    // Count lines up to the match (values can span lines, so track by offset)
+    for (let i = lineStart; i < match.index!; i++) {
+      if (text[i] === '\n') line++;
+    }
+    lineStart = match.index!;
+
+    const [, key, rawValue] = match;
+    const first = rawValue[0];
+    const quoted = rawValue.length >= 2 && (first === '"' || first === "'" || first === '`') && rawValue.endsWith(first);
+    const raw = quoted ? rawValue.slice(1, -1) : rawValue.trim();
+
+    let value = raw;
+    if (quoted && first === '"') {
+      value = raw.replace(/\\([nr"])/g, (_, c: string) => DOUBLE_QUOTE_ESCAPES[c]);
+    }
+
+    entries.push({
+      key,
+      raw,
+      value,
+      ...(quoted && { quote: first as DotEnvEntry['quote'] }),
+      line,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Expand ${VAR}, $VAR, ${VAR:-default} and ${VAR-default} against the other entries of the file,
+ * the way dotenv-expand does. Single-quoted values are literal and `\$` is an escaped `$`.
+ * A later definition of a key wins, as in dotenv.
+ */
+export function expandDotEnv(entries: DotEnvEntry[]): ExpandedDotEnvEntry[] {
+  const byKey = new Map(entries.map((e) => [e.key, e]));
+  const cache = new Map<string, string | undefined>();
+  const expanding = new Set<string>();
+
+  const resolveKey = (key: string): string | undefined => {
+    if (cache.has(key)) return cache.get(key);
+    const entry = byKey.get(key);
+    // Undefined in the file, or a reference cycle
+    if (!entry || expanding.has(key)) return undefined;
+    expanding.add(key);
+    const value = expandValue(entry).value;
+    expanding.delete(key);
+    cache.set(key, value);
+    return value;
+  };
+
+  const expandValue = (entry: DotEnvEntry): { value?: string; dependsOn: string[] } => {
+    if (entry.quote === "'") return { value: entry.value, dependsOn: [] };
+    const dependsOn = new Set<string>();
+    const { value } = expandText(entry.value, resolveKey, dependsOn);
+    return { value, dependsOn: [...dependsOn] };
+  };
+
+  return entries.map((entry) => {
+    const { value, dependsOn } = expandValue(entry);
+    return { ...entry, expanded: value, dependsOn };
+  });
+}
+
+function expandText(
+  text: string,
+  resolveKey: (key: string) => string | undefined,
+  dependsOn: Set<string>
+): { value?: string } {
+  let unknown = false;
+  const pattern = /\\\$|\$\{([A-Za-z_][\w.-]*)(?:(:?-)((?:[^{}]|\{[^{}]*\})*))?\}|\$([A-Za-z_]\w*)/g;
+
+  const value = text.replace(pattern, (match, braced?: string, operator?: string, fallback?: string, simple?: string) => {
+    if (match === '\\$') return '$';
+    const key = braced ?? simple!;
+    dependsOn.add(key);
+    const resolved = resolveKey(key);
+    const isSet = operator === ':-' ? !!resolved : resolved !== undefined;
+    if (operator && !isSet) {
+      const result = expandText(fallback ?? '', resolveKey, dependsOn);
+      if (result.value === undefined) unknown = true;
+      return result.value ?? '';
+    }
+    if (resolved === undefined) unknown = true;
+    return resolved ?? '';
+  });
+
+  return unknown ? {} : { value };
+}
@@ -0,0 +1,102 @@
+/**
+ * Name pattern of a computed env var key, e.g. FEATURE_* for `FEATURE_${name}`, 'FEATURE_' + name,
+ * f"FEATURE_{name}", fmt.Sprintf("FEATURE_%s", name) or "FEATURE_{}".format(name).
+ * Every non-literal part becomes `*`. Returns undefined when the key has no literal part
+ * (a bare identifier) or the literal parts don't look like a variable name.
+ */
+export function dynamicNamePattern(expression: string): string | undefined {
+  const text = expression.trim();
+
+  // fmt.Sprintf("X_%s", ...), String.format("X_%s", ...), "X_{}".format(...), "X_%s" % y
+  const format =
+    /^(?:fmt\.Sprintf|String\.format|format!)\(\s*("(?:\\.|[^"\\])*")/.exec(text) ??
+    /^("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')\s*(?:\.format\(|%)/.exec(text);
+  if (format) {
+    return toPattern([formatVerbs(unquote(format[1]))]);
+  }
+
+  const parts = splitConcatenation(text);
+  if (!parts) return undefined;
+  return toPattern(parts.map((part) => literalPart(part) ?? '*'));
+}
+
+/**
+ * Top-level operands of a `+` concatenation, or undefined if the expression has unbalanced brackets
+ */
+function splitConcatenation(text: string): string[] | undefined {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipQuoted(text, i);
+      continue;
+    }
+    if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth--;
+    else if (ch === '+' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+    if (depth < 0) return undefined;
+    i++;
+  }
+
+  parts.push(text.slice(start).trim());
+  return depth === 0 ? parts : undefined;
+}
+
+/**
+ * Literal text of a string operand, with interpolations replaced by `*`;
+ * undefined for anything that isn't a string literal
+ */
+function literalPart(part: string): string | undefined {
+  // JS template literal: `FEATURE_${name}`
+  if (/^`[^`]*`$/.test(part)) {
+    return part.slice(1, -1).replace(/\$\{[^}]*\}/g, '*');
+  }
+  // Python f-string: f"FEATURE_{name}"
+  const fString = /^[fF][rR]?(["'])(.*)\1$/.exec(part);
+  if (fString) {
+    return fString[2].replace(/\{[^}]*\}/g, '*');
+  }
+  // Ruby interpolation: "FEATURE_#{name}"
+  if (/^"(?:\\.|[^"\\])*"$/.test(part) && part.includes('#{')) {
+    return unquote(part).replace(/#\{[^}]*\}/g, '*');
+  }
+  if (/^"(?:\\.|[^"\\])*"$|^'(?:\\.|[^'\\])*'$/.test(part)) {
+    return unquote(part);
+  }
+  return undefined;
+}
+
+function formatVerbs(format: string): string {
+  return format.replace(/%[-+# 0-9.]*[a-zA-Z]|\{[^}]*\}/g, '*');
+}
+
+function unquote(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function toPattern(parts: string[]): string | undefined {
+  const pattern = parts.join('').replace(/\*+/g, '*');
+  if (!pattern.includes('*') || pattern === '*') return undefined;
+  return /^[A-Za-z0-9_.*-]+$/.test(pattern) ? pattern : undefined;
+}
+
+function skipQuoted(text: string, start: number): number {
+  const quote = text[start];
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === quote) return i + 1;
+    i++;
+  }
+  return i;
+}
@@ -0,0 +1,122 @@
+import { relative } from 'path';
+import { getUsageKind } from './check.js';
+import type { EnvVar, ScanResult } from './types.js';
+
+export interface EnvExampleOptions {
+  /** Names whose sample values must be left blank */
+  isSensitive?: (name: string) => boolean;
+  /** Maximum number of locations listed in each entry's comment (default: 3) */
+  maxLocations?: number;
+}
+
+interface EnvExampleEntry {
+  name: string;
+  value: string;
+  usedIn: string[];
+}
+
+/**
+ * Value sources that are safe to use as a sample value
+ */
+const SAMPLE_VALUE_SOURCES = new Set(['code-default', 'properties']);
+
+/**
+ * Pattern for a variable assignment in an existing .env.example.
+ * Commented-out assignments (# KEY=value) count as present.
+ */
+const EXISTING_KEY_RE = /^\s*(?:#\s*)?(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=/;
+
+/**
+ * Generate .env.example content for every variable read in the scan result
+ */
+export function generateEnvExample(result: ScanResult, options: EnvExampleOptions = {}): string {
+  const entries = collectEntries(result, options);
+  const lines = [
+    '# Generated by envvars-scan',
+    '# Values are code defaults; sensitive values are left blank',
+    '',
+  ];
+
+  for (const entry of entries) {
+    lines.push(...formatEntry(entry), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Merge scan results into an existing .env.example.
+ * Keeps existing lines (comments, ordering, values) untouched and appends missing variables.
+ */
+export function mergeEnvExample(
+  existing: string,
+  result: ScanResult,
+  options: EnvExampleOptions = {}
+): { content: string; added: string[] } {
+  const present = new Set<string>();
+  for (const line of existing.split('\n')) {
+    const match = EXISTING_KEY_RE.exec(line);
+    if (match) present.add(match[1]);
+  }
+
+  const missing = collectEntries(result, options).filter((e) => !present.has(e.name));
+  if (missing.length === 0) {
+    return { content: existing, added: [] };
+  }
+
+  let content = existing;
+  if (content && !content.endsWith('\n')) content += '\n';
+  if (content && !content.endsWith('\n\n')) content += '\n';
+
+  const lines: string[] = [];
+  for (const entry of missing) {
+    lines.push(...formatEntry(entry), '');
+  }
+  content += lines.join('\n');
+
+  return { content, added: missing.map((e) => e.name) };
+}
+
+function collectEntries(result: ScanResult, options: EnvExampleOptions): EnvExampleEntry[] {
+  const { isSensitive = () => false, maxLocations = 3 } = options;
+  const reads = new Map<string, EnvVar[]>();
+
+  for (const ev of result.envVars) {
+    if (getUsageKind(ev) !== 'read') continue;
+    const list = reads.get(ev.name) || [];
+    list.push(ev);
+    reads.set(ev.name, list);
+  }
+
+  const entries: EnvExampleEntry[] = [];
+  for (const name of [...reads.keys()].sort()) {
+    const usages = reads.get(name)!;
+    const withDefault = usages.find((u) => u.value && u.valueSource && SAMPLE_VALUE_SOURCES.has(u.valueSource));
+    const value = withDefault?.value && !isSensitive(name) ? withDefault.value : '';
+
+    const locations = usages.map((u) => `${relative(result.path, u.file)}:${u.line}`);
+    const usedIn = locations.slice(0, maxLocations);
+    if (locations.length > maxLocations) {
+      usedIn.push(`+${locations.length - maxLocations} more`);
+    }
+
+    entries.push({ name, value, usedIn });
+  }
+
+  return entries;
+}
+
+function formatEntry(entry: EnvExampleEntry): string[] {
+  return [
+    `# Used in: ${entry.usedIn.join(', ')}`,
+    `${entry.name}=${quoteValue(entry.value)}`,
+  ];
+}
+
+/**
+ * Quote a value if it would not survive dotenv parsing as-is
+ */
+function quoteValue(value: string): string {
+  if (!/[\s#"'\\]/.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
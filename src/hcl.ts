@@ -0,0 +1,404 @@
+/**
+ * A small HCL (Terraform) parser: enough structure to read blocks, attributes,
+ * literals, objects, tuples and function calls with their source lines.
+ * Anything more dynamic (operators, conditionals, for expressions) is kept as raw text.
+ */
+
+export type HclValue =
+  | { type: 'string'; value: string; line: number }
+  | { type: 'number' | 'bool' | 'null'; value: string; line: number }
+  | { type: 'object'; items: HclAttribute[]; line: number }
+  | { type: 'tuple'; items: HclValue[]; line: number }
+  | { type: 'call'; name: string; args: HclValue[]; line: number }
+  | { type: 'expr'; text: string; line: number };
+
+export interface HclAttribute {
+  key: string;
+  value: HclValue;
+  line: number;
+}
+
+export interface HclBlock {
+  type: string;
+  labels: string[];
+  body: HclBody;
+  line: number;
+}
+
+export interface HclBody {
+  attributes: HclAttribute[];
+  blocks: HclBlock[];
+}
+
+export class HclParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'HclParseError';
+  }
+}
+
+/**
+ * Parse an HCL file into its top-level body
+ */
+export function parseHcl(content: string): HclBody {
+  return new Parser(content).parseFile();
+}
+
+/**
+ * Find an attribute by key
+ */
+export function getAttribute(body: HclBody | { items: HclAttribute[] }, key: string): HclAttribute | undefined {
+  const items = 'attributes' in body ? body.attributes : body.items;
+  return items.find((a) => a.key === key);
+}
+
+const IDENT_START = /[A-Za-z_]/;
+const IDENT_CHAR = /[A-Za-z0-9_-]/;
+
+class Parser {
+  private pos = 0;
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly src: string) {
+    for (let i = 0; i < src.length; i++) {
+      if (src[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  parseFile(): HclBody {
+    const body = this.parseBody();
+    this.skipTrivia(true);
+    if (this.pos < this.src.length) {
+      throw this.error(`unexpected "${this.src[this.pos]}"`);
+    }
+    return body;
+  }
+
+  private parseBody(): HclBody {
+    const body: HclBody = { attributes: [], blocks: [] };
+
+    for (;;) {
+      this.skipTrivia(true);
+      if (this.pos >= this.src.length || this.src[this.pos] === '}') return body;
+
+      const line = this.line();
+      const name = this.readIdentifier();
+      if (!name) throw this.error(`unexpected "${this.src[this.pos]}"`);
+      this.skipTrivia(false);
+
+      if (this.src[this.pos] === '=' && this.src[this.pos + 1] !== '=') {
+        this.pos++;
+        body.attributes.push({ key: name, value: this.parseExpression(), line });
+        continue;
+      }
+
+      const labels: string[] = [];
+      while (this.src[this.pos] !== '{') {
+        if (this.src[this.pos] === '"') {
+          labels.push(this.readQuoted());
+        } else {
+          const label = this.readIdentifier();
+          if (!label) throw this.error(`expected "{" after block ${name}`);
+          labels.push(label);
+        }
+        this.skipTrivia(false);
+      }
+      this.pos++;
+      const blockBody = this.parseBody();
+      this.expect('}');
+      body.blocks.push({ type: name, labels, body: blockBody, line });
+    }
+  }
+
+  private parseExpression(): HclValue {
+    this.skipTrivia(false);
+    const start = this.pos;
+    const line = this.line();
+    const primary = this.parsePrimary();
+
+    this.skipTrivia(false);
+    if (this.atExpressionEnd()) return primary;
+
+    // Operators, conditionals etc: keep the whole expression as text
+    this.skipRawExpression();
+    return { type: 'expr', text: this.src.slice(start, this.pos).trim(), line };
+  }
+
+  private parsePrimary(): HclValue {
+    const line = this.line();
+    const ch = this.src[this.pos];
+
+    if (ch === '"') {
+      return { type: 'string', value: this.readQuoted(), line };
+    }
+    if (ch === '<' && this.src[this.pos + 1] === '<') {
+      // Heredoc content starts on the line after the <<EOF marker
+      return { type: 'string', value: this.readHeredoc(), line: line + 1 };
+    }
+    if (ch === '{' || ch === '[') {
+      if (/^[{[]\s*for\s/.test(this.src.slice(this.pos, this.pos + 20))) {
+        const start = this.pos;
+        this.skipBalanced();
+        return { type: 'expr', text: this.src.slice(start, this.pos), line };
+      }
+      return ch === '{' ? this.parseObject() : this.parseTuple();
+    }
+    if (ch === '(') {
+      const start = this.pos;
+      this.skipBalanced();
+      return { type: 'expr', text: this.src.slice(start, this.pos), line };
+    }
+    if (/[0-9-]/.test(ch ?? '')) {
+      const match = this.src.slice(this.pos).match(/^-?[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/);
+      if (match) {
+        this.pos += match[0].length;
+        return { type: 'number', value: match[0], line };
+      }
+    }
+
+    const name = this.readIdentifier();
+    if (!name) throw this.error(ch === undefined || ch === '\n' ? 'expected a value' : `unexpected "${ch}"`);
+
+    if (name === 'true' || name === 'false') return { type: 'bool', value: name, line };
+    if (name === 'null') return { type: 'null', value: name, line };
+
+    if (this.src[this.pos] === '(') {
+      this.pos++;
+      const args: HclValue[] = [];
+      for (;;) {
+        this.skipTrivia(true);
+        if (this.src[this.pos] === ')') break;
+        args.push(this.parseExpression());
+        this.skipTrivia(true);
+        if (this.src.startsWith('...', this.pos)) this.pos += 3;
+        if (this.src[this.pos] === ',') this.pos++;
+        else if (this.src[this.pos] !== ')') throw this.error(`expected "," or ")" in call to ${name}`);
+      }
+      this.pos++;
+      return { type: 'call', name, args, line };
+    }
+
+    // Traversal: var.name, aws_db_instance.main.address, local.list[0]
+    const start = this.pos - name.length;
+    while (this.src[this.pos] === '.' || this.src[this.pos] === '[') {
+      if (this.src[this.pos] === '[') {
+        this.skipBalanced();
+      } else {
+        this.pos++;
+        if (this.src[this.pos] === '*') this.pos++;
+        else this.readIdentifier();
+      }
+    }
+    return { type: 'expr', text: this.src.slice(start, this.pos), line };
+  }
+
+  private parseObject(): HclValue {
+    const line = this.line();
+    const items: HclAttribute[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipTrivia(true);
+      if (this.src[this.pos] === '}') break;
+
+      const keyLine = this.line();
+      let key: string;
+      if (this.src[this.pos] === '"') {
+        key = this.readQuoted();
+      } else if (this.src[this.pos] === '(') {
+        const start = this.pos;
+        this.skipBalanced();
+        key = this.src.slice(start, this.pos);
+      } else {
+        key = this.readIdentifier();
+        if (!key) throw this.error(`unexpected "${this.src[this.pos]}" in object`);
+      }
+
+      this.skipTrivia(false);
+      if (this.src[this.pos] !== '=' && this.src[this.pos] !== ':') {
+        throw this.error(`expected "=" after ${key}`);
+      }
+      this.pos++;
+      items.push({ key, value: this.parseExpression(), line: keyLine });
+
+      this.skipTrivia(false);
+      if (this.src[this.pos] === ',') this.pos++;
+    }
+
+    this.pos++;
+    return { type: 'object', items, line };
+  }
+
+  private parseTuple(): HclValue {
+    const line = this.line();
+    const items: HclValue[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipTrivia(true);
+      if (this.src[this.pos] === ']') break;
+      items.push(this.parseExpression());
+      this.skipTrivia(true);
+      if (this.src[this.pos] === ',') this.pos++;
+      else if (this.src[this.pos] !== ']') throw this.error('expected "," or "]" in list');
+    }
+
+    this.pos++;
+    return { type: 'tuple', items, line };
+  }
+
+  /**
+   * A quoted template string; ${...} interpolations are kept as written
+   */
+  private readQuoted(): string {
+    this.expect('"');
+    let value = '';
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        return value;
+      }
+      if (ch === '\\') {
+        const next = this.src[this.pos + 1];
+        value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+        this.pos += 2;
+        continue;
+      }
+      if ((ch === '$' || ch === '%') && this.src[this.pos + 1] === '{') {
+        const start = this.pos;
+        this.pos++;
+        this.skipBalanced();
+        value += this.src.slice(start, this.pos);
+        continue;
+      }
+      if (ch === '\n') break;
+      value += ch;
+      this.pos++;
+    }
+
+    throw this.error('unterminated string');
+  }
+
+  private readHeredoc(): string {
+    const match = this.src.slice(this.pos).match(/^<<(-?)([A-Za-z_][A-Za-z0-9_]*)[ \t]*\r?\n/);
+    if (!match) throw this.error('invalid heredoc');
+    this.pos += match[0].length;
+
+    const lines: string[] = [];
+    while (this.pos < this.src.length) {
+      const end = this.src.indexOf('\n', this.pos);
+      const text = this.src.slice(this.pos, end === -1 ? this.src.length : end);
+      this.pos = end === -1 ? this.src.length : end + 1;
+      if (text.trim() === match[2]) {
+        // Leave the newline for the body parser
+        if (end !== -1) this.pos = end;
+        if (!match[1]) return lines.join('\n');
+        const indent = Math.min(...lines.filter((l) => l.trim()).map((l) => l.length - l.trimStart().length));
+        return lines.map((l) => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n');
+      }
+      lines.push(text.replace(/\r$/, ''));
+    }
+
+    throw this.error(`heredoc ${match[2]} is not terminated`);
+  }
+
+  private readIdentifier(): string {
+    if (!IDENT_START.test(this.src[this.pos] ?? '')) return '';
+    const start = this.pos;
+    while (IDENT_CHAR.test(this.src[this.pos] ?? '')) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  /**
+   * Skip a bracketed region ({...}, [...], (...)) including nested strings
+   */
+  private skipBalanced(): void {
+    const close: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+    const stack: string[] = [];
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '"' && stack.length > 0) {
+        this.readQuoted();
+        continue;
+      }
+      if (close[ch]) {
+        stack.push(close[ch]);
+      } else if (ch === stack[stack.length - 1]) {
+        stack.pop();
+        if (stack.length === 0) {
+          this.pos++;
+          return;
+        }
+      }
+      this.pos++;
+    }
+
+    throw this.error('unbalanced brackets');
+  }
+
+  /**
+   * Skip the rest of an expression up to a newline, comma or closing bracket at depth 0
+   */
+  private skipRawExpression(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '\n' || ch === ',' || ch === '}' || ch === ']' || ch === ')' || ch === '#') return;
+      if (ch === '"') {
+        this.readQuoted();
+      } else if (ch === '{' || ch === '[' || ch === '(') {
+        this.skipBalanced();
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  private atExpressionEnd(): boolean {
+    const ch = this.src[this.pos];
+    return ch === undefined || ch === '\n' || ch === '\r' || ch === ',' || ch === '}' || ch === ']' || ch === ')' ||
+      ch === '#' || this.src.startsWith('//', this.pos) || this.src.startsWith('/*', this.pos);
+  }
+
+  /**
+   * Skip spaces and comments, and newlines too if requested
+   */
+  private skipTrivia(newlines: boolean): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === ' ' || ch === '\t' || ch === '\r' || (newlines && ch === '\n')) {
+        this.pos++;
+      } else if (ch === '#' || this.src.startsWith('//', this.pos)) {
+        const end = this.src.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.src.length : end;
+      } else if (this.src.startsWith('/*', this.pos)) {
+        const end = this.src.indexOf('*/', this.pos + 2);
+        this.pos = end === -1 ? this.src.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expect(ch: string): void {
+    if (this.src[this.pos] !== ch) throw this.error(`expected "${ch}"`);
+    this.pos++;
+  }
+
+  private line(): number {
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid] <= this.pos) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  }
+
+  private error(message: string): HclParseError {
+    return new HclParseError(message, this.line());
+  }
+}
@@ -0,0 +1,391 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative } from 'path';
+import { glob } from 'glob';
+import { LineCounter, isMap, isSeq, parseDocument } from 'yaml';
+import type { Document, Node } from 'yaml';
+import type { EnvVar } from './types.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+
+/**
+ * A parsed values file with line lookups
+ */
+interface ValuesFile {
+  file: string;
+  /** Environment label from values-<env>.yaml, undefined for values.yaml */
+  environment?: string;
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+/**
+ * An env entry found in a template
+ */
+type TemplateEntry =
+  | { kind: 'entry'; name: string; value?: string; line: number }
+  | { kind: 'range'; valuesPath: string[]; line: number }
+  | { kind: 'toYaml'; valuesPath: string[]; line: number };
+
+/**
+ * Scans Helm charts for env vars in templates, resolving .Values references
+ * against values.yaml and values-<env>.yaml without running helm
+ */
+export async function scanHelmCharts(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS
+): Promise<EnvVar[]> {
+  const envVars: EnvVar[] = [];
+
+  for (const chartDir of await findHelmCharts(basePath, excludePatterns)) {
+    const valuesFiles = await loadValuesFiles(chartDir);
+
+    const templates = await glob('templates/**/*.{yaml,yml}', {
+      cwd: chartDir,
+      nodir: true,
+      absolute: true,
+    });
+
+    for (const template of templates.sort()) {
+      try {
+        const content = readFileSync(template, 'utf-8');
+        for (const entry of parseTemplateEnv(content)) {
+          envVars.push(...resolveEntry(entry, template, valuesFiles));
+        }
+      } catch {
+        // Skip templates that can't be read
+      }
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * Chart directories (directories containing a Chart.yaml) under basePath
+ */
+export async function findHelmCharts(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS
+): Promise<string[]> {
+  const charts = await glob('**/Chart.yaml', {
+    cwd: basePath,
+    ignore: excludePatterns.map((p) => `**/${p}/**`),
+    nodir: true,
+    absolute: true,
+  });
+  return charts.map((chart) => dirname(chart)).sort();
+}
+
+/**
+ * Whether a file is a template of one of the given charts (under `<chart>/templates/`)
+ */
+export function isHelmTemplate(file: string, chartDirs: string[]): boolean {
+  return chartDirs.some((dir) => {
+    const rel = relative(join(dir, 'templates'), file);
+    return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+  });
+}
+
+/**
+ * Load values.yaml (or values.yml) plus values-<env>.yaml / values.<env>.yaml overrides
+ */
+async function loadValuesFiles(chartDir: string): Promise<ValuesFile[]> {
+  const files: ValuesFile[] = [];
+  const basePath = ['values.yaml', 'values.yml'].map((name) => join(chartDir, name)).find((file) => existsSync(file));
+
+  if (basePath) {
+    const parsed = parseValuesFile(basePath);
+    if (parsed) files.push(parsed);
+  }
+
+  const overrides = await glob('values[-.]*.{yaml,yml}', { cwd: chartDir, nodir: true, absolute: true });
+  for (const file of overrides.sort()) {
+    const match = basename(file).match(/^values[-.](.+)\.ya?ml$/);
+    if (!match) continue;
+    const parsed = parseValuesFile(file, match[1]);
+    if (parsed) files.push(parsed);
+  }
+
+  return files;
+}
+
+function parseValuesFile(file: string, environment?: string): ValuesFile | null {
+  try {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(readFileSync(file, 'utf-8'), { lineCounter });
+    if (doc.errors.length > 0) return null;
+    return { file, environment, doc, lineCounter };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find env: entries in a template. Templates are not valid YAML, so this walks lines.
+ */
+function parseTemplateEnv(content: string): TemplateEntry[] {
+  const entries: TemplateEntry[] = [];
+  const lines = content.split('\n');
+
+  let inEnv = false;
+  let envIndent = 0;
+  let pendingRange: string[] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trimStart();
+    const indent = line.length - trimmed.length;
+
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const envMatch = trimmed.match(/^env:\s*(.*)$/);
+    if (envMatch) {
+      inEnv = true;
+      envIndent = indent;
+      pendingRange = null;
+      // env: {{- toYaml .Values.env | nindent 12 }}
+      const toYaml = envMatch[1].match(/toYaml\s+\.Values\.([\w.]+)/);
+      if (toYaml) {
+        entries.push({ kind: 'toYaml', valuesPath: toYaml[1].split('.'), line: i + 1 });
+        inEnv = false;
+      }
+      continue;
+    }
+
+    if (!inEnv) continue;
+
+    const isAction = trimmed.startsWith('{{');
+
+    // Leave the env block at a key with the same or smaller indent
+    if (!isAction && indent <= envIndent && !trimmed.startsWith('-')) {
+      inEnv = false;
+      continue;
+    }
+
+    if (isAction) {
+      const range = trimmed.match(/range\s+\$\w+\s*,\s*\$\w+\s*:=\s*\.Values\.([\w.]+)/);
+      if (range) {
+        pendingRange = range[1].split('.');
+        continue;
+      }
+      const toYaml = trimmed.match(/toYaml\s+\.Values\.([\w.]+)/);
+      if (toYaml) {
+        entries.push({ kind: 'toYaml', valuesPath: toYaml[1].split('.'), line: i + 1 });
+      }
+      if (/^\{\{-?\s*end\b/.test(trimmed)) {
+        pendingRange = null;
+      }
+      continue;
+    }
+
+    const nameMatch = trimmed.match(/^-\s*name:\s*(.+?)\s*$/);
+    if (!nameMatch) continue;
+
+    const rawName = unquote(nameMatch[1]);
+
+    // - name: {{ $key }} inside a range over a values map
+    if (pendingRange && /^\{\{-?\s*\$\w+\s*-?\}\}$/.test(rawName)) {
+      entries.push({ kind: 'range', valuesPath: pendingRange, line: i + 1 });
+      pendingRange = null;
+      continue;
+    }
+
+    if (!/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(rawName)) continue;
+
+    // Look for value: among the entry's own keys
+    let value: string | undefined;
+    for (let j = i + 1; j < lines.length; j++) {
+      const next = lines[j];
+      const nextTrimmed = next.trimStart();
+      const nextIndent = next.length - nextTrimmed.length;
+      if (!nextTrimmed || nextTrimmed.startsWith('#')) continue;
+      if (nextIndent <= indent) break;
+      const valueMatch = nextTrimmed.match(/^value:\s*(.*)$/);
+      if (valueMatch) {
+        value = unquote(valueMatch[1].trim());
+        break;
+      }
+    }
+
+    entries.push({ kind: 'entry', name: rawName, value, line: i + 1 });
+  }
+
+  return entries;
+}
+
+/**
+ * Turn a template entry into EnvVars, one per values file that provides its value
+ */
+function resolveEntry(entry: TemplateEntry, template: string, valuesFiles: ValuesFile[]): EnvVar[] {
+  const base = valuesFiles.find((v) => v.environment === undefined);
+  const overrides = valuesFiles.filter((v) => v.environment !== undefined);
+
+  if (entry.kind === 'entry') {
+    const refs = entry.value ? findValuesRefs(entry.value) : [];
+
+    if (refs.length === 0) {
+      return [{
+        name: entry.name,
+        file: template,
+        line: entry.line,
+        language: 'helm',
+        pattern: 'template-env',
+        value: entry.value || undefined,
+        valueSource: entry.value ? 'helm-template' : undefined,
+      }];
+    }
+
+    const results: EnvVar[] = [];
+    const layers: (ValuesFile | undefined)[] = [base];
+    for (const o of overrides) {
+      // Only report an environment if it overrides something this entry uses
+      if (refs.some((ref) => o.doc.hasIn(ref))) layers.push(o);
+    }
+
+    for (const layer of layers) {
+      const value = renderTemplateValue(entry.value!, layer ? [layer, base] : [base]);
+      results.push({
+        name: entry.name,
+        file: template,
+        line: entry.line,
+        language: 'helm',
+        pattern: 'template-env',
+        value: value ?? entry.value,
+        valueSource: value !== undefined ? 'helm-values' : 'helm-template',
+        ...(layer?.environment && { environment: layer.environment }),
+      });
+    }
+    return results;
+  }
+
+  // range/toYaml: entries come from values files, reported at their values line
+  const results: EnvVar[] = [];
+  for (const layer of valuesFiles) {
+    const node = layer.doc.getIn(entry.valuesPath, true) as Node | undefined;
+    if (!node) continue;
+    const lineOf = (n: Node | null | undefined) =>
+      n?.range ? layer.lineCounter.linePos(n.range[0]).line : entry.line;
+
+    if (entry.kind === 'range' && isMap(node)) {
+      for (const pair of node.items) {
+        const keyNode = pair.key as Node;
+        const valueNode = pair.value as Node | null;
+        const value = valueNode ? stringify(valueNode.toJSON()) : undefined;
+        results.push({
+          name: String((keyNode as { value?: unknown }).value ?? keyNode),
+          file: layer.file,
+          line: lineOf(keyNode),
+          language: 'helm',
+          pattern: 'values-env',
+          value,
+          valueSource: value !== undefined ? 'helm-values' : undefined,
+          ...(layer.environment && { environment: layer.environment }),
+        });
+      }
+    } else if (entry.kind === 'toYaml' && isSeq(node)) {
+      for (const item of node.items) {
+        if (!isMap(item)) continue;
+        const name = item.get('name');
+        if (typeof name !== 'string') continue;
+        const raw = item.get('value');
+        const value = raw === undefined || raw === null ? undefined : stringify(raw);
+        results.push({
+          name,
+          file: layer.file,
+          line: lineOf(item as Node),
+          language: 'helm',
+          pattern: 'values-env',
+          value,
+          valueSource: value !== undefined ? 'helm-values' : undefined,
+          ...(layer.environment && { environment: layer.environment }),
+        });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * All .Values.x.y references in a template string
+ */
+function findValuesRefs(template: string): string[][] {
+  const refs: string[][] = [];
+  const re = /\$?\.Values\.([\w.]+)/g;
+  let match;
+  while ((match = re.exec(template)) !== null) {
+    refs.push(match[1].split('.'));
+  }
+  return refs;
+}
+
+/**
+ * Render {{ ... }} actions that only use .Values, quote, default and simple conversions.
+ * Returns undefined if any action can't be resolved.
+ * @param layers Values files in lookup order (override first)
+ */
+function renderTemplateValue(template: string, layers: (ValuesFile | undefined)[]): string | undefined {
+  let unresolved = false;
+
+  const rendered = template.replace(/\{\{-?\s*(.*?)\s*-?\}\}/g, (_, action: string) => {
+    const stages = action.split('|').map((s) => s.trim());
+    // Stages apply in order, so `default` only fills in what the stages before it left empty
+    let value: string | undefined;
+
+    for (const stage of stages) {
+      const ref = stage.match(/^(?:default\s+("[^"]*"|'[^']*'|\S+)\s+)?\$?\.Values\.([\w.]+)$/);
+      const def = stage.match(/^default\s+("[^"]*"|'[^']*'|\S+)$/);
+      if (ref) {
+        value = nonEmpty(lookup(layers, ref[2].split('.'))) ?? (ref[1] !== undefined ? unquote(ref[1]) : undefined);
+      } else if (def) {
+        value ??= unquote(def[1]);
+      } else if (stage === 'upper') {
+        value = value?.toUpperCase();
+      } else if (stage === 'lower') {
+        value = value?.toLowerCase();
+      } else if (stage === 'trim') {
+        value = value?.trim();
+      } else if (!/^(quote|squote|toString)$/.test(stage)) {
+        unresolved = true;
+      }
+    }
+
+    if (value === undefined) {
+      unresolved = true;
+      return '';
+    }
+    return value;
+  });
+
+  return unresolved ? undefined : rendered;
+}
+
+function lookup(layers: (ValuesFile | undefined)[], path: string[]): unknown {
+  for (const layer of layers) {
+    if (layer?.doc.hasIn(path)) {
+      return layer.doc.getIn(path);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A looked-up value as a string, undefined when missing or empty (so `default` applies)
+ */
+function nonEmpty(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return stringify(value);
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify((value as { toJSON?: () => unknown }).toJSON?.() ?? value);
+  }
+  return String(value);
+}
+
+function unquote(value: string): string {
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
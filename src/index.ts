@@ -1,4 +1,29 @@
-export { scan, checkSemgrepInstalled, uniqueEnvVarNames, groupByName, DEFAULT_EXCLUDE_PATTERNS, CONFIG_FILE_NAME } from './scanner.js';
+export { scan, checkSemgrepInstalled, uniqueEnvVarNames, groupByName, resolveExcludePatterns, DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+export { loadUserConfig, parseUserConfig, getConfigPath, formatConfigIssue, ConfigError, CONFIG_FILE_NAME } from './config.js';
 export { scanPropertyFiles, scanDockerfiles, scanDotEnvFiles, scanDockerComposeFiles } from './property-scanner.js';
 export { scanK8sManifests } from './k8s-scanner.js';
-export type { EnvVar, ScanResult, ScanOptions, CustomPattern, UserConfig, ValueSource } from './types.js';
+export { scanHelmCharts } from './helm-scanner.js';
+export { scanTerraformFiles } from './terraform-scanner.js';
+export { scanCiWorkflows } from './ci-scanner.js';
+export { scanShellScripts, DEFAULT_SHELL_IGNORE } from './shell-scanner.js';
+export { dynamicNamePattern } from './dynamic.js';
+export { detectPackages, findPackage, assignPackages } from './packages.js';
+export { inferReadRequired, classifyRequired, resolveRequired, requiredByName } from './required.js';
+export { inferReadType, inferValueType, inferEnvVarTypes, resolveVarType, findTypeConflicts } from './type-inference.js';
+export { checkEnvVars, getUsageKind } from './check.js';
+export { generateEnvExample, mergeEnvExample } from './env-example.js';
+export { toSarif, getRuleId } from './sarif.js';
+export { compareResults, compareInputWarnings, describeChange } from './compare.js';
+export { renderCompareMarkdown, MARKDOWN_COMMENT_MARKER } from './markdown.js';
+export { buildEnvMatrix, inferEnvironment, renderMatrixCsv } from './matrix.js';
+export { isSensitiveVar, maskValue, formatSensitiveValue, maskScanResult, nameWords, DEFAULT_SENSITIVE_WORDS, DEFAULT_SENSITIVE_SOURCES } from './sensitivity.js';
+export { auditSecrets, isPlaceholderValue, shannonEntropy, SECRET_TOKEN_FORMATS, DEFAULT_SECRET_ALLOWLIST } from './secrets.js';
+export type { ConfigIssue } from './config.js';
+export type { EnvExampleOptions } from './env-example.js';
+export type { SarifOptions } from './sarif.js';
+export type { MarkdownOptions } from './markdown.js';
+export type { EnvMatrix, MatrixRow, MatrixCell, MatrixStatus, MatrixOptions } from './matrix.js';
+export type { SecretFinding, SecretSeverity, SecretAuditOptions } from './secrets.js';
+export type { CompareResult, CompareOptions, VarChange, ValueChange, SourceValueChange } from './compare.js';
+export type { CheckResult, CheckFinding, CheckOptions, UsageKind } from './check.js';
+export type { EnvVar, ScanResult, ScanOptions, CustomPattern, UserConfig, ValueSource, ScanEngine, ResolvedEngine, K8sValueRef, K8sContext, CiContext, DockerfileContext, ComposeContext, MaskMode, SensitivityConfig, DynamicEnvAccess, EnvVarType, TypeConfidence, TypeSource, TypeConflict, RequiredStatus, PackageRoot, PackageKind } from './types.js';
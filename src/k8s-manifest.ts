@@ -0,0 +1,265 @@
+import { CST, LineCounter, Parser, isMap, isScalar, isSeq, parseAllDocuments } from 'yaml';
+import type { Node, YAMLMap } from 'yaml';
+import type { K8sValueRef } from './types.js';
+
+/**
+ * Where each workload kind keeps its pod spec
+ */
+export const POD_SPEC_PATHS: Record<string, string[]> = {
+  Pod: ['spec'],
+  Deployment: ['spec', 'template', 'spec'],
+  StatefulSet: ['spec', 'template', 'spec'],
+  DaemonSet: ['spec', 'template', 'spec'],
+  ReplicaSet: ['spec', 'template', 'spec'],
+  Job: ['spec', 'template', 'spec'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template', 'spec'],
+};
+
+export interface ManifestEnv {
+  name: string;
+  value?: string;
+  valueFrom?: K8sValueRef;
+  line: number;
+  /** Strategic-merge `$patch: delete` marker */
+  remove?: boolean;
+}
+
+export interface ManifestEnvFrom {
+  kind: 'ConfigMap' | 'Secret';
+  name: string;
+  prefix?: string;
+  optional?: boolean;
+  line: number;
+}
+
+export interface ManifestContainer {
+  name: string;
+  env: ManifestEnv[];
+  envFrom: ManifestEnvFrom[];
+  remove?: boolean;
+}
+
+export interface ManifestData {
+  key: string;
+  /** Decoded value (Secret data is base64 decoded) */
+  value?: string;
+  line: number;
+  /** `KEY: null`, which deletes the key in a strategic-merge patch */
+  remove?: boolean;
+}
+
+/**
+ * The env-relevant parts of a manifest: container env for workloads, data for ConfigMaps/Secrets
+ */
+export interface ManifestResource {
+  kind: string;
+  name: string;
+  namespace?: string;
+  line: number;
+  containers: ManifestContainer[];
+  data: ManifestData[];
+}
+
+export interface ReadManifestOptions {
+  /** Added to every line number (for manifests embedded in another file) */
+  lineOffset?: number;
+  /** Kind/name for documents that don't set them (kustomize patch targets) */
+  target?: { kind?: unknown; name?: unknown };
+  /** Receives one message per document that fails to parse */
+  errors?: string[];
+}
+
+/**
+ * Read every resource in a (multi-document) manifest, unwrapping `kind: List`
+ */
+export function readManifestResources(
+  content: string,
+  file: string,
+  options: ReadManifestOptions = {}
+): ManifestResource[] {
+  const { lineOffset = 0, target = {}, errors } = options;
+  const resources: ManifestResource[] = [];
+  const lineCounter = new LineCounter();
+  const lineOf = (node: Node | null | undefined) =>
+    (node?.range ? lineCounter.linePos(node.range[0]).line : 1) + lineOffset;
+
+  let unclosed: number[] | undefined;
+
+  for (const doc of parseAllDocuments(content, { lineCounter })) {
+    if (!('errors' in doc)) continue;
+    if (doc.errors.length > 0) {
+      const error = doc.errors[0];
+      unclosed ??= unclosedOffsets(content);
+      const start = unclosed.find((offset) => offset >= doc.range[0] && offset <= error.pos[0]);
+      const line = lineCounter.linePos(start ?? error.pos[0]).line + lineOffset;
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      errors?.push(`${file}:${line}: invalid YAML document: ${message}`);
+      continue;
+    }
+    if (!isMap(doc.contents)) continue;
+
+    const kind = doc.get('kind');
+    const items = kind === 'List' ? doc.get('items', true) : undefined;
+    const objects = isSeq(items) ? items.items : [doc.contents];
+
+    for (const object of objects) {
+      if (!isMap(object)) continue;
+      const resource = readResource(object, target, lineOf);
+      if (resource) resources.push(resource);
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Offsets of quoted scalars and flow collections that are never closed.
+ * The parser reports those where it gives up, often lines later at the end of the document.
+ */
+function unclosedOffsets(content: string): number[] {
+  const offsets: number[] = [];
+  for (const token of new Parser().parse(content)) {
+    if (token.type !== 'document') continue;
+    CST.visit(token, (item) => {
+      for (const node of [item.key, item.value]) {
+        if (node?.type === 'double-quoted-scalar' || node?.type === 'single-quoted-scalar') {
+          if (node.source.length < 2 || !node.source.endsWith(node.source[0])) offsets.push(node.offset);
+        } else if (node?.type === 'flow-collection' && node.end.length === 0) {
+          offsets.push(node.offset);
+        }
+      }
+    });
+  }
+  return offsets.sort((a, b) => a - b);
+}
+
+function readResource(
+  object: YAMLMap,
+  target: { kind?: unknown; name?: unknown },
+  lineOf: (node: Node | null | undefined) => number
+): ManifestResource | null {
+  const kind = object.get('kind') ?? target.kind;
+  const name = object.getIn(['metadata', 'name']) ?? target.name;
+  if (typeof kind !== 'string' || typeof name !== 'string') return null;
+
+  const namespace = object.getIn(['metadata', 'namespace']);
+  const resource: ManifestResource = {
+    kind,
+    name,
+    ...(typeof namespace === 'string' && { namespace }),
+    line: lineOf(object),
+    containers: [],
+    data: [],
+  };
+
+  const podSpecPath = POD_SPEC_PATHS[kind];
+  if (podSpecPath) {
+    for (const key of ['initContainers', 'containers']) {
+      const containers = object.getIn([...podSpecPath, key], true);
+      if (!isSeq(containers)) continue;
+      for (const container of containers.items) {
+        if (!isMap(container)) continue;
+        const containerName = container.get('name');
+        if (typeof containerName !== 'string') continue;
+        resource.containers.push({
+          name: containerName,
+          env: readEnv(container, lineOf),
+          envFrom: readEnvFrom(container, lineOf),
+          ...(container.get('$patch') === 'delete' && { remove: true }),
+        });
+      }
+    }
+  }
+
+  if (kind === 'ConfigMap' || kind === 'Secret') {
+    for (const key of ['data', 'stringData']) {
+      const data = object.get(key, true);
+      if (!isMap(data)) continue;
+      for (const pair of data.items) {
+        if (!isScalar(pair.key)) continue;
+        const raw = isScalar(pair.value) ? pair.value.value : undefined;
+        let value = raw === null || raw === undefined ? undefined : String(raw);
+        if (kind === 'Secret' && key === 'data' && value) {
+          value = Buffer.from(value, 'base64').toString('utf-8');
+        }
+        resource.data.push({
+          key: String(pair.key.value),
+          value,
+          line: lineOf(pair.key as Node),
+          ...(raw === null && { remove: true }),
+        });
+      }
+    }
+  }
+
+  return resource;
+}
+
+function readEnv(container: YAMLMap, lineOf: (node: Node) => number): ManifestEnv[] {
+  const env: ManifestEnv[] = [];
+  const list = container.get('env', true);
+  if (!isSeq(list)) return env;
+
+  for (const item of list.items) {
+    if (!isMap(item)) continue;
+    const name = item.get('name');
+    if (typeof name !== 'string') continue;
+    const raw = item.get('value');
+    const valueFrom = readValueFrom(item.get('valueFrom', true));
+    env.push({
+      name,
+      value: raw === undefined || raw === null ? undefined : String(raw),
+      line: lineOf(item),
+      ...(item.get('$patch') === 'delete' && { remove: true }),
+      ...(valueFrom && { valueFrom }),
+    });
+  }
+
+  return env;
+}
+
+function readValueFrom(node: unknown): K8sValueRef | undefined {
+  if (!isMap(node)) return undefined;
+
+  for (const [key, kind] of [['configMapKeyRef', 'ConfigMap'], ['secretKeyRef', 'Secret']] as const) {
+    const ref = node.get(key, true);
+    if (!isMap(ref)) continue;
+    return {
+      kind,
+      name: String(ref.get('name') ?? ''),
+      key: String(ref.get('key') ?? ''),
+      ...(ref.get('optional') === true && { optional: true }),
+    };
+  }
+
+  const fieldRef = node.get('fieldRef', true);
+  if (isMap(fieldRef)) return { kind: 'Field', name: String(fieldRef.get('fieldPath') ?? '') };
+  const resourceFieldRef = node.get('resourceFieldRef', true);
+  if (isMap(resourceFieldRef)) return { kind: 'ResourceField', name: String(resourceFieldRef.get('resource') ?? '') };
+
+  return undefined;
+}
+
+function readEnvFrom(container: YAMLMap, lineOf: (node: Node) => number): ManifestEnvFrom[] {
+  const entries: ManifestEnvFrom[] = [];
+  const list = container.get('envFrom', true);
+  if (!isSeq(list)) return entries;
+
+  for (const item of list.items) {
+    if (!isMap(item)) continue;
+    for (const [key, kind] of [['configMapRef', 'ConfigMap'], ['secretRef', 'Secret']] as const) {
+      const ref = item.get(key, true);
+      if (!isMap(ref) || typeof ref.get('name') !== 'string') continue;
+      const prefix = item.get('prefix');
+      entries.push({
+        kind,
+        name: ref.get('name') as string,
+        ...(typeof prefix === 'string' && { prefix }),
+        ...(ref.get('optional') === true && { optional: true }),
+        line: lineOf(item),
+      });
+    }
+  }
+
+  return entries;
+}
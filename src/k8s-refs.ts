@@ -0,0 +1,110 @@
+import type { EnvVar, K8sContext, K8sValueRef } from './types.js';
+
+/**
+ * ConfigMap/Secret data entries keyed by `namespace/Kind/name`
+ */
+export type K8sDataIndex = Map<string, EnvVar[]>;
+
+/**
+ * An envFrom entry: every key of a ConfigMap/Secret becomes a variable
+ */
+export interface EnvFromRef {
+  kind: 'ConfigMap' | 'Secret';
+  name: string;
+  prefix?: string;
+  optional?: boolean;
+  file: string;
+  line: number;
+  /** Pattern of the workload the entry belongs to (deployment, cronjob, ...) */
+  pattern: string;
+  environment?: string;
+  /** Workload and container the entry belongs to */
+  k8s?: K8sContext;
+}
+
+/**
+ * Index key of a ConfigMap/Secret; resources without a namespace live in `default`
+ */
+export function dataIndexKey(namespace: string | undefined, kind: string, name: string): string {
+  return `${namespace || 'default'}/${kind}/${name}`;
+}
+
+/**
+ * Add ConfigMap/Secret entries to an index under their namespace and resource name
+ */
+export function addToDataIndex(
+  index: K8sDataIndex,
+  namespace: string | undefined,
+  kind: string,
+  name: string,
+  envVars: EnvVar[]
+): void {
+  const key = dataIndexKey(namespace, kind, name);
+  index.set(key, [...(index.get(key) || []), ...envVars]);
+}
+
+/**
+ * Resolve configMapKeyRef/secretKeyRef values and expand envFrom against the index,
+ * looking references up in the workload's own namespace.
+ * Dangling references (unless optional) are marked on the EnvVar and reported in errors.
+ * @returns The env vars expanded from envFrom
+ */
+export function resolveK8sRefs(
+  envVars: EnvVar[],
+  envFrom: EnvFromRef[],
+  index: K8sDataIndex,
+  errors: string[]
+): EnvVar[] {
+  const where = (file: string, line: number, environment?: string) =>
+    `${file}:${line}${environment ? ` (${environment})` : ''}`;
+
+  for (const ev of envVars) {
+    const ref = ev.valueFrom;
+    if (!ref || (ref.kind !== 'ConfigMap' && ref.kind !== 'Secret')) continue;
+
+    const data = index.get(dataIndexKey(ev.k8s?.namespace, ref.kind, ref.name));
+    const entry = data?.find((d) => d.name === ref.key);
+    if (entry) {
+      ev.value = entry.value;
+      ev.valueSource = entry.valueSource;
+      continue;
+    }
+
+    ref.missing = data ? 'key' : 'resource';
+    if (ref.optional) continue;
+    errors.push(
+      data
+        ? `${where(ev.file, ev.line, ev.environment)}: ${ev.name} references key "${ref.key}" which is not in ${ref.kind} "${ref.name}"`
+        : `${where(ev.file, ev.line, ev.environment)}: ${ev.name} references ${ref.kind} "${ref.name}" which is not defined`
+    );
+  }
+
+  const expanded: EnvVar[] = [];
+  for (const from of envFrom) {
+    const data = index.get(dataIndexKey(from.k8s?.namespace, from.kind, from.name));
+    if (!data) {
+      if (!from.optional) {
+        errors.push(`${where(from.file, from.line, from.environment)}: envFrom references ${from.kind} "${from.name}" which is not defined`);
+      }
+      continue;
+    }
+
+    for (const entry of data) {
+      const valueFrom: K8sValueRef = { kind: from.kind, name: from.name, key: entry.name };
+      expanded.push({
+        name: `${from.prefix ?? ''}${entry.name}`,
+        file: from.file,
+        line: from.line,
+        language: 'kubernetes',
+        pattern: from.pattern,
+        value: entry.value,
+        valueSource: entry.valueSource,
+        valueFrom,
+        ...(from.environment && { environment: from.environment }),
+        ...(from.k8s && { k8s: from.k8s }),
+      });
+    }
+  }
+
+  return expanded;
+}
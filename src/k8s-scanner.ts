@@ -1,17 +1,30 @@
 import { readFileSync } from 'fs';
 import { glob } from 'glob';
-import type { EnvVar, ValueSource } from './types.js';
+import type { EnvVar, K8sContext, ValueSource } from './types.js';
 import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import { buildKustomizeOverlays } from './kustomize-scanner.js';
+import { findHelmCharts, isHelmTemplate } from './helm-scanner.js';
+import { addToDataIndex, resolveK8sRefs } from './k8s-refs.js';
+import type { EnvFromRef, K8sDataIndex } from './k8s-refs.js';
+import { POD_SPEC_PATHS, readManifestResources } from './k8s-manifest.js';
+import type { ManifestResource } from './k8s-manifest.js';
 
 /**
  * Scans Kubernetes manifests for environment variable definitions
- * Supports: Deployments, StatefulSets, DaemonSets, Jobs, CronJobs, ConfigMaps, Secrets
+ * Supports: Deployments, StatefulSets, DaemonSets, Jobs, CronJobs, Pods, ReplicaSets, ConfigMaps, Secrets
+ * (including `kind: List` wrappers and initContainers)
+ * Kustomize overlays are built and reported per overlay (environment = overlay directory name)
+ * valueFrom and envFrom are resolved against the ConfigMaps and Secrets found in the scan;
+ * dangling references and YAML parse errors are added to errors
  */
 export async function scanK8sManifests(
   basePath: string,
-  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  errors: string[] = []
 ): Promise<EnvVar[]> {
   const envVars: EnvVar[] = [];
+  const workloadVars: EnvVar[] = [];
+  const envFrom: EnvFromRef[] = [];
   const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
 
   // Find all YAML files
@@ -22,291 +35,124 @@ export async function scanK8sManifests(
     absolute: true,
   });
 
-  for (const file of files) {
-    try {
-      const content = readFileSync(file, 'utf-8');
-
-      // Check if it's a K8s manifest (has apiVersion and kind)
-      if (!isK8sManifest(content)) continue;
-
-      const kind = getK8sKind(content);
-
-      // Handle multi-document YAML files (separated by ---)
-      // Track line offsets for each document
-      const lines = content.split('\n');
-      let docStartLine = 0;
-      let docContent = '';
-      let currentDocKind: string | null = null;
+  const overlays = await buildKustomizeOverlays(basePath, excludePatterns, errors);
+  envVars.push(...overlays.envVars);
+  const dataIndex: K8sDataIndex = overlays.baseIndex;
 
-      for (let i = 0; i <= lines.length; i++) {
-        const line = lines[i];
-        const isEnd = i === lines.length;
-        const isDocSeparator = line === '---';
+  const chartDirs = await findHelmCharts(basePath, excludePatterns);
 
-        if (isEnd || isDocSeparator) {
-          // Process the current document
-          if (docContent.trim()) {
-            const docKind = getK8sKind(docContent) || kind;
+  for (const file of files) {
+    // Helm templates are handled by scanHelmCharts
+    if (isHelmTemplate(file, chartDirs)) continue;
 
-            switch (docKind) {
-              case 'Deployment':
-              case 'StatefulSet':
-              case 'DaemonSet':
-              case 'Job':
-              case 'CronJob':
-              case 'Pod':
-              case 'ReplicaSet':
-                envVars.push(...scanK8sWorkload(docContent, file, docKind, docStartLine));
-                break;
-              case 'ConfigMap':
-                envVars.push(...scanConfigMap(docContent, file, docStartLine));
-                break;
-              case 'Secret':
-                envVars.push(...scanSecret(docContent, file, docStartLine));
-                break;
-            }
-          }
+    // Patches and overlay-only resources are reported through their overlay
+    if (overlays.overlayFiles.has(file)) continue;
 
-          // Start new document
-          docStartLine = i + 1;
-          docContent = '';
-        } else {
-          docContent += (docContent ? '\n' : '') + line;
-        }
-      }
+    let content: string;
+    try {
+      content = readFileSync(file, 'utf-8');
     } catch {
       // Skip files that can't be read
+      continue;
+    }
+
+    // Check if it's a K8s manifest (has apiVersion and kind)
+    if (!isK8sManifest(content)) continue;
+
+
+    for (const resource of readManifestResources(content, file, { errors })) {
+      if (POD_SPEC_PATHS[resource.kind]) {
+        const workload = scanK8sWorkload(resource, file);
+        workloadVars.push(...workload.envVars);
+        envFrom.push(...workload.envFrom);
+      } else if (resource.kind === 'ConfigMap') {
+        const data = scanConfigMap(resource, file);
+        addToDataIndex(dataIndex, resource.namespace, resource.kind, resource.name, data);
+        envVars.push(...data);
+      } else if (resource.kind === 'Secret') {
+        const data = scanSecret(resource, file);
+        addToDataIndex(dataIndex, resource.namespace, resource.kind, resource.name, data);
+        envVars.push(...data);
+      }
     }
   }
 
+  // References can point at resources in other files, so resolve once everything is read
+  const expanded = resolveK8sRefs(workloadVars, envFrom, dataIndex, errors);
+  envVars.push(...workloadVars, ...expanded);
+
   return envVars;
 }
 
 /**
- * Check if content looks like a Kubernetes manifest
+ * Check if content looks like a Kubernetes manifest (block or flow style)
  */
 function isK8sManifest(content: string): boolean {
-  return /^apiVersion:/m.test(content) && /^kind:/m.test(content);
-}
-
-/**
- * Extract the 'kind' field from a K8s manifest
- */
-function getK8sKind(content: string): string | null {
-  const match = content.match(/^kind:\s*(\w+)/m);
-  return match ? match[1] : null;
+  return /^\s*[{,]?\s*["']?apiVersion["']?\s*:/m.test(content) && /^\s*[{,]?\s*["']?kind["']?\s*:/m.test(content);
 }
 
 /**
- * Scan workload resources (Deployment, StatefulSet, etc.) for env: sections
+ * Env entries of every container (and init container) in a workload
  */
-function scanK8sWorkload(content: string, file: string, kind: string, lineOffset: number = 0): EnvVar[] {
+function scanK8sWorkload(resource: ManifestResource, file: string): { envVars: EnvVar[]; envFrom: EnvFromRef[] } {
   const envVars: EnvVar[] = [];
-  const lines = content.split('\n');
-
-  // Track context to find env entries within containers
-  let inEnvSection = false;
-  let currentIndent = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trimStart();
-    const indent = line.length - trimmed.length;
-
-    // Detect start of env: section
-    if (trimmed.startsWith('env:')) {
-      inEnvSection = true;
-      currentIndent = indent;
-      continue;
+  const envFrom: EnvFromRef[] = [];
+  const pattern = resource.kind.toLowerCase();
+
+  for (const container of resource.containers) {
+    const k8s: K8sContext = { ...resourceContext(resource), container: container.name };
+    for (const env of container.env) {
+      envVars.push({
+        name: env.name,
+        file,
+        line: env.line,
+        language: 'kubernetes',
+        pattern,
+        value: env.value || undefined,
+        valueSource: env.value ? 'k8s-deployment' : undefined,
+        ...(env.valueFrom && { valueFrom: env.valueFrom }),
+        k8s,
+      });
     }
-
-    // Exit env section when we see a line at same or lesser indent that's not a list item
-    if (inEnvSection && indent <= currentIndent && !trimmed.startsWith('-')) {
-      inEnvSection = false;
-    }
-
-    // Parse env entries: - name: X\n  value: Y
-    if (inEnvSection && trimmed.startsWith('- name:')) {
-      const nameMatch = trimmed.match(/^-\s*name:\s*["']?([A-Z][A-Z0-9_]*)["']?/);
-      if (nameMatch) {
-        const varName = nameMatch[1];
-
-        // Look for value on next line
-        let value: string | undefined;
-        if (i + 1 < lines.length) {
-          const nextLine = lines[i + 1].trim();
-          const valueMatch = nextLine.match(/^value:\s*["']?([^"'\n]*)["']?/);
-          if (valueMatch) {
-            value = valueMatch[1];
-          }
-        }
-
-        envVars.push({
-          name: varName,
-          file,
-          line: lineOffset + i + 1,
-          language: 'kubernetes',
-          pattern: kind.toLowerCase(),
-          value: value || undefined,
-          valueSource: value ? 'k8s-deployment' : undefined,
-        });
-      }
+    for (const from of container.envFrom) {
+      envFrom.push({ ...from, file, pattern, k8s });
     }
   }
 
-  return envVars;
+  return { envVars, envFrom };
 }
 
 /**
- * Scan ConfigMap data: section for key-value pairs
+ * ConfigMap data keys
  */
-function scanConfigMap(content: string, file: string, lineOffset: number = 0): EnvVar[] {
-  const envVars: EnvVar[] = [];
-  const lines = content.split('\n');
-
-  let inDataSection = false;
-  let dataIndent = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trimStart();
-    const indent = line.length - trimmed.length;
-
-    // Detect start of data: section
-    if (trimmed.startsWith('data:')) {
-      inDataSection = true;
-      dataIndent = indent;
-      continue;
-    }
-
-    // Exit data section when we see a line at same or lesser indent
-    if (inDataSection && indent <= dataIndent && trimmed && !trimmed.startsWith('#')) {
-      inDataSection = false;
-    }
-
-    // Parse data entries: KEY: value
-    if (inDataSection && trimmed && !trimmed.startsWith('#')) {
-      const match = trimmed.match(/^([A-Z][A-Z0-9_]*):\s*(.*)$/);
-      if (match) {
-        let value: string | undefined = match[2].trim();
-
-        // Remove quotes if present
-        if (value && ((value.startsWith('"') && value.endsWith('"')) ||
-            (value.startsWith("'") && value.endsWith("'")))) {
-          value = value.slice(1, -1);
-        }
-
-        // Handle multiline values (|, >, |-, >-)
-        if (value === '|' || value === '>' || value === '|-' || value === '>-') {
-          // Look for multiline content on following lines
-          let multilineValue = '';
-          let j = i + 1;
-          const expectedIndent = indent + 2;
-
-          while (j < lines.length) {
-            const nextLine = lines[j];
-            const nextTrimmed = nextLine.trimStart();
-            const nextIndent = nextLine.length - nextTrimmed.length;
-
-            if (nextIndent >= expectedIndent && nextTrimmed) {
-              multilineValue += (multilineValue ? '\n' : '') + nextTrimmed;
-              j++;
-            } else if (!nextTrimmed) {
-              // Empty line, continue if next non-empty is still indented
-              j++;
-            } else {
-              break;
-            }
-          }
-
-          value = multilineValue || undefined;
-        }
-
-        envVars.push({
-          name: match[1],
-          file,
-          line: lineOffset + i + 1,
-          language: 'kubernetes',
-          pattern: 'configmap',
-          value: value || undefined,
-          valueSource: value ? 'k8s-configmap' : undefined,
-        });
-      }
-    }
-  }
-
-  return envVars;
+function scanConfigMap(resource: ManifestResource, file: string): EnvVar[] {
+  return scanData(resource, file, 'configmap', 'k8s-configmap');
 }
 
 /**
- * Scan Secret data: section for key-value pairs (base64 decode)
+ * Secret data (base64 decoded) and stringData keys
  */
-function scanSecret(content: string, file: string, lineOffset: number = 0): EnvVar[] {
-  const envVars: EnvVar[] = [];
-  const lines = content.split('\n');
-
-  let inDataSection = false;
-  let inStringDataSection = false;
-  let dataIndent = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trimStart();
-    const indent = line.length - trimmed.length;
-
-    // Detect start of data: or stringData: section
-    if (trimmed.startsWith('data:')) {
-      inDataSection = true;
-      inStringDataSection = false;
-      dataIndent = indent;
-      continue;
-    }
-    if (trimmed.startsWith('stringData:')) {
-      inStringDataSection = true;
-      inDataSection = false;
-      dataIndent = indent;
-      continue;
-    }
-
-    // Exit section when we see a line at same or lesser indent
-    if ((inDataSection || inStringDataSection) && indent <= dataIndent && trimmed && !trimmed.startsWith('#')) {
-      inDataSection = false;
-      inStringDataSection = false;
-    }
-
-    // Parse data entries: KEY: value
-    if ((inDataSection || inStringDataSection) && trimmed && !trimmed.startsWith('#')) {
-      const match = trimmed.match(/^([A-Z][A-Z0-9_]*):\s*(.*)$/);
-      if (match) {
-        let value = match[2].trim();
-
-        // Remove quotes if present
-        if ((value.startsWith('"') && value.endsWith('"')) ||
-            (value.startsWith("'") && value.endsWith("'"))) {
-          value = value.slice(1, -1);
-        }
-
-        // For data: section, base64 decode
-        if (inDataSection && value) {
-          try {
-            value = Buffer.from(value, 'base64').toString('utf-8');
-          } catch {
-            // Keep as-is if decode fails
-          }
-        }
+function scanSecret(resource: ManifestResource, file: string): EnvVar[] {
+  return scanData(resource, file, 'secret', 'k8s-secret');
+}
 
-        envVars.push({
-          name: match[1],
-          file,
-          line: lineOffset + i + 1,
-          language: 'kubernetes',
-          pattern: 'secret',
-          value: value || undefined,
-          valueSource: value ? 'k8s-secret' : undefined,
-        });
-      }
-    }
-  }
+function scanData(resource: ManifestResource, file: string, pattern: string, valueSource: ValueSource): EnvVar[] {
+  return resource.data.map((entry) => ({
+    name: entry.key,
+    file,
+    line: entry.line,
+    language: 'kubernetes',
+    pattern,
+    value: entry.value || undefined,
+    valueSource: entry.value ? valueSource : undefined,
+    k8s: resourceContext(resource),
+  }));
+}
 
-  return envVars;
+function resourceContext(resource: ManifestResource): K8sContext {
+  return {
+    kind: resource.kind,
+    name: resource.name,
+    ...(resource.namespace && { namespace: resource.namespace }),
+  };
 }
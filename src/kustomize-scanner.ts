@@ -0,0 +1,491 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { glob } from 'glob';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Document, Node } from 'yaml';
+import type { EnvVar, K8sContext, K8sValueRef } from './types.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import { addToDataIndex, resolveK8sRefs } from './k8s-refs.js';
+import type { EnvFromRef, K8sDataIndex } from './k8s-refs.js';
+import { readManifestResources } from './k8s-manifest.js';
+import { parseDotEnv } from './dotenv.js';
+
+const KUSTOMIZATION_FILES = ['kustomization.yaml', 'kustomization.yml', 'Kustomization'];
+
+/**
+ * A value and where it was set
+ */
+interface Entry {
+  value?: string;
+  file: string;
+  line: number;
+  /** Strategic-merge `$patch: delete` marker */
+  remove?: boolean;
+  valueFrom?: K8sValueRef;
+}
+
+type EnvFromEntry = Omit<EnvFromRef, 'pattern' | 'environment'>;
+
+interface Container {
+  env: Map<string, Entry>;
+  envFrom: EnvFromEntry[];
+  remove?: boolean;
+}
+
+/**
+ * The env-relevant parts of a resource: container env for workloads, data for ConfigMaps/Secrets
+ */
+interface Resource {
+  kind: string;
+  name: string;
+  namespace?: string;
+  containers: Map<string, Container>;
+  data: Map<string, Entry>;
+}
+
+interface Patch {
+  file: string;
+  resources: Resource[];
+}
+
+/**
+ * A kustomization that kustomize itself would refuse to build
+ */
+class KustomizeError extends Error {
+  constructor(message: string, public file: string) {
+    super(message);
+    this.name = 'KustomizeError';
+  }
+}
+
+export interface KustomizeBuild {
+  /** Effective env vars, labelled with the overlay they belong to */
+  envVars: EnvVar[];
+  /** Overlay-only files (patches, overlay resources) that should not be scanned on their own */
+  overlayFiles: Set<string>;
+  /** ConfigMaps/Secrets generated by base kustomizations, for resolving references from plain manifests */
+  baseIndex: K8sDataIndex;
+}
+
+/**
+ * Finds kustomization.yaml files and computes effective env vars for every overlay
+ * (a kustomization that builds on another one), applying generators and strategic-merge patches
+ */
+export async function buildKustomizeOverlays(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  errors: string[] = []
+): Promise<KustomizeBuild> {
+  const envVars: EnvVar[] = [];
+  const overlayFiles = new Set<string>();
+  const baseIndex: K8sDataIndex = new Map();
+  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+
+  const kustomizations = await glob(`**/{${KUSTOMIZATION_FILES.join(',')}}`, {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  for (const file of kustomizations.sort()) {
+    const dir = dirname(file);
+    const kustomization = readKustomization(dir);
+    if (!kustomization) continue;
+
+    const refs = [...readList(kustomization, 'resources'), ...readList(kustomization, 'bases'), ...readList(kustomization, 'components')];
+    const builtOnOther = refs.some((ref) => findKustomization(resolve(dir, ref)) !== null);
+
+    // A base's manifests are scanned as plain files; only its generators need building
+    if (!builtOnOther) {
+      const generated: Resource[] = [];
+      try {
+        applyGenerators(kustomization, dir, generated);
+      } catch (error) {
+        errors.push(buildErrorMessage(error, file));
+        continue;
+      }
+      for (const resource of generated) {
+        const data = toEnvVars([resource], errors);
+        addToDataIndex(baseIndex, resource.namespace, resource.kind, resource.name, data);
+        envVars.push(...data);
+      }
+      continue;
+    }
+
+    for (const ref of readList(kustomization, 'resources')) {
+      const path = resolve(dir, ref);
+      if (isFile(path)) overlayFiles.add(path);
+    }
+    for (const patch of readPatchRefs(kustomization, dir)) {
+      if (patch.file !== kustomization.file) overlayFiles.add(patch.file);
+    }
+
+    try {
+      const resources = build(dir, [], new Set());
+      envVars.push(...toEnvVars(resources, errors, basename(dir)));
+    } catch (error) {
+      errors.push(buildErrorMessage(error, file));
+    }
+  }
+
+  return { envVars, overlayFiles, baseIndex };
+}
+
+function buildErrorMessage(error: unknown, kustomizationFile: string): string {
+  if (error instanceof KustomizeError) return `${error.file}: ${error.message}`;
+  return `${kustomizationFile}: kustomize build failed: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+interface Kustomization {
+  file: string;
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+function findKustomization(dir: string): string | null {
+  if (!isDirectory(dir)) return null;
+  for (const name of KUSTOMIZATION_FILES) {
+    const file = join(dir, name);
+    if (existsSync(file)) return file;
+  }
+  return null;
+}
+
+function readKustomization(dir: string): Kustomization | null {
+  const file = findKustomization(dir);
+  if (!file) return null;
+  try {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(readFileSync(file, 'utf-8'), { lineCounter });
+    if (doc.errors.length > 0 || !isMap(doc.contents)) return null;
+    return { file, doc, lineCounter };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a kustomization the way `kustomize build` orders it:
+ * resources, components, generators, then patches
+ */
+function build(dir: string, inherited: Resource[], stack: Set<string>): Resource[] {
+  if (stack.has(dir)) return inherited;
+  const kustomization = readKustomization(dir);
+  if (!kustomization) return inherited;
+  stack = new Set(stack).add(dir);
+
+  let resources = [...inherited];
+
+  for (const ref of [...readList(kustomization, 'resources'), ...readList(kustomization, 'bases')]) {
+    const path = resolve(dir, ref);
+    if (findKustomization(path)) {
+      resources.push(...build(path, [], stack));
+    } else if (isFile(path)) {
+      resources.push(...readResources(path));
+    }
+  }
+
+  for (const ref of readList(kustomization, 'components')) {
+    resources = build(resolve(dir, ref), resources, stack);
+  }
+
+  applyGenerators(kustomization, dir, resources);
+
+  for (const patch of readPatchRefs(kustomization, dir)) {
+    for (const p of patch.resources) {
+      applyPatch(resources, p);
+    }
+  }
+
+  const namespace = kustomization.doc.get('namespace');
+  if (typeof namespace === 'string') {
+    for (const resource of resources) resource.namespace = namespace;
+  }
+
+  return resources;
+}
+
+/**
+ * configMapGenerator / secretGenerator with literals and envs, honouring behavior: create|merge|replace
+ */
+function applyGenerators(kustomization: Kustomization, dir: string, resources: Resource[]): void {
+  const generators: [string, string][] = [['configMapGenerator', 'ConfigMap'], ['secretGenerator', 'Secret']];
+
+  for (const [key, kind] of generators) {
+    const list = kustomization.doc.get(key, true);
+    if (!isSeq(list)) continue;
+
+    for (const item of list.items) {
+      if (!isMap(item)) continue;
+      const name = item.get('name');
+      if (typeof name !== 'string') continue;
+
+      const data = new Map<string, Entry>();
+
+      const literals = item.get('literals', true);
+      if (isSeq(literals)) {
+        for (const literal of literals.items) {
+          if (!isScalar(literal) || typeof literal.value !== 'string') continue;
+          const eq = literal.value.indexOf('=');
+          if (eq <= 0) continue;
+          data.set(literal.value.slice(0, eq).trim(), {
+            value: unquote(literal.value.slice(eq + 1).trim()),
+            file: kustomization.file,
+            line: lineOf(kustomization.lineCounter, literal),
+          });
+        }
+      }
+
+      const envFiles = [...readStrings(item.get('envs', true)), ...readStrings(item.get('env', true))];
+      for (const envFile of envFiles) {
+        for (const [k, entry] of readEnvFile(resolve(dir, envFile), kustomization.file)) {
+          data.set(k, entry);
+        }
+      }
+
+      const behavior = item.get('behavior');
+      const existing = resources.find((r) => r.kind === kind && r.name === name);
+      if (existing && behavior === 'merge') {
+        for (const [k, entry] of data) existing.data.set(k, entry);
+      } else if (existing && behavior === 'replace') {
+        existing.data = data;
+      } else {
+        resources.push({ kind, name, containers: new Map(), data });
+      }
+    }
+  }
+}
+
+/**
+ * Strategic-merge patches from patchesStrategicMerge and patches (file or inline).
+ * JSON 6902 patches (a list of operations) are not applied.
+ */
+function readPatchRefs(kustomization: Kustomization, dir: string): Patch[] {
+  const patches: Patch[] = [];
+
+  for (const ref of readList(kustomization, 'patchesStrategicMerge')) {
+    const path = resolve(dir, ref);
+    if (isFile(path)) {
+      patches.push({ file: path, resources: readResources(path) });
+    }
+  }
+
+  const list = kustomization.doc.get('patches', true);
+  if (isSeq(list)) {
+    for (const item of list.items) {
+      if (isScalar(item) && typeof item.value === 'string') {
+        const path = resolve(dir, item.value);
+        if (isFile(path)) patches.push({ file: path, resources: readResources(path) });
+        continue;
+      }
+      if (!isMap(item)) continue;
+
+      const target = item.get('target', true);
+      const targetKind = isMap(target) ? target.get('kind') : undefined;
+      const targetName = isMap(target) ? target.get('name') : undefined;
+
+      let resources: Resource[] = [];
+      let file = kustomization.file;
+      const path = item.get('path');
+      const inline = item.get('patch', true);
+      if (typeof path === 'string') {
+        file = resolve(dir, path);
+        if (!isFile(file)) continue;
+        resources = readResources(file, undefined, { kind: targetKind, name: targetName });
+      } else if (isScalar(inline) && typeof inline.value === 'string') {
+        // Block scalar content starts on the line after the indicator
+        const offset = lineOf(kustomization.lineCounter, inline);
+        resources = readResources(file, { content: inline.value, lineOffset: offset }, { kind: targetKind, name: targetName });
+      }
+
+      patches.push({ file, resources });
+    }
+  }
+
+  return patches;
+}
+
+function applyPatch(resources: Resource[], patch: Resource): void {
+  const target = resources.find((r) => r.kind === patch.kind && r.name === patch.name);
+  if (!target) return;
+
+  for (const [name, container] of patch.containers) {
+    if (container.remove) {
+      target.containers.delete(name);
+      continue;
+    }
+    const existing = target.containers.get(name);
+    if (!existing) {
+      target.containers.set(name, { ...container, env: new Map([...container.env].filter(([, e]) => !e.remove)) });
+      continue;
+    }
+    // envFrom has no merge key, so a patch replaces the whole list
+    if (container.envFrom.length > 0) {
+      existing.envFrom = container.envFrom;
+    }
+    for (const [envName, entry] of container.env) {
+      if (entry.remove) {
+        existing.env.delete(envName);
+      } else {
+        existing.env.set(envName, entry);
+      }
+    }
+  }
+
+  for (const [key, entry] of patch.data) {
+    if (entry.remove) {
+      target.data.delete(key);
+    } else {
+      target.data.set(key, entry);
+    }
+  }
+}
+
+/**
+ * Read the env-relevant parts of every document in a manifest or patch file
+ */
+function readResources(
+  file: string,
+  inline?: { content: string; lineOffset: number },
+  target: { kind?: unknown; name?: unknown } = {}
+): Resource[] {
+  let content: string;
+  try {
+    content = inline ? inline.content : readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  return readManifestResources(content, file, { lineOffset: inline?.lineOffset, target }).map((manifest) => ({
+    kind: manifest.kind,
+    name: manifest.name,
+    ...(manifest.namespace && { namespace: manifest.namespace }),
+    containers: new Map(manifest.containers.map((c) => [c.name, {
+      env: new Map(c.env.map(({ name, ...entry }) => [name, { ...entry, file }])),
+      envFrom: c.envFrom.map((from) => ({ ...from, file })),
+      ...(c.remove && { remove: true }),
+    }])),
+    data: new Map(manifest.data.map(({ key, ...entry }) => [key, { ...entry, file }])),
+  }));
+}
+
+/**
+ * Entries of a generator envs: file, parsed like a .env file (without expansion, as kustomize doesn't expand)
+ */
+function readEnvFile(file: string, kustomizationFile: string): Map<string, Entry> {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf-8');
+  } catch {
+    throw new KustomizeError(`env file "${file}" can't be read`, kustomizationFile);
+  }
+
+  return new Map(parseDotEnv(content).map((entry) => [entry.key, { value: entry.value, file, line: entry.line }]));
+}
+
+/**
+ * Effective env vars of a build, with valueFrom/envFrom resolved against the build's own ConfigMaps/Secrets
+ */
+function toEnvVars(resources: Resource[], errors: string[], environment?: string): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const workloadVars: EnvVar[] = [];
+  const envFrom: EnvFromRef[] = [];
+  const dataIndex: K8sDataIndex = new Map();
+
+  for (const resource of resources) {
+    const pattern = resource.kind.toLowerCase();
+    const context: K8sContext = {
+      kind: resource.kind,
+      name: resource.name,
+      ...(resource.namespace && { namespace: resource.namespace }),
+    };
+
+    for (const [containerName, container] of resource.containers) {
+      const k8s: K8sContext = { ...context, container: containerName };
+      for (const [name, entry] of container.env) {
+        workloadVars.push({
+          name,
+          file: entry.file,
+          line: entry.line,
+          language: 'kubernetes',
+          pattern,
+          value: entry.value || undefined,
+          valueSource: entry.value ? 'k8s-deployment' : undefined,
+          ...(entry.valueFrom && { valueFrom: { ...entry.valueFrom } }),
+          ...(environment && { environment }),
+          k8s,
+        });
+      }
+      for (const from of container.envFrom) {
+        envFrom.push({ ...from, pattern, ...(environment && { environment }), k8s });
+      }
+    }
+
+    const data: EnvVar[] = [];
+    const valueSource = resource.kind === 'Secret' ? 'k8s-secret' : 'k8s-configmap';
+    for (const [name, entry] of resource.data) {
+      data.push({
+        name,
+        file: entry.file,
+        line: entry.line,
+        language: 'kubernetes',
+        pattern: resource.kind.toLowerCase(),
+        value: entry.value || undefined,
+        valueSource: entry.value ? valueSource : undefined,
+        ...(environment && { environment }),
+        k8s: context,
+      });
+    }
+    if (resource.kind === 'ConfigMap' || resource.kind === 'Secret') {
+      addToDataIndex(dataIndex, resource.namespace, resource.kind, resource.name, data);
+    }
+    envVars.push(...data);
+  }
+
+  const expanded = resolveK8sRefs(workloadVars, envFrom, dataIndex, errors);
+  envVars.push(...workloadVars, ...expanded);
+
+  return envVars;
+}
+
+function readList(kustomization: Kustomization, key: string): string[] {
+  return readStrings(kustomization.doc.get(key, true));
+}
+
+function readStrings(node: unknown): string[] {
+  if (isScalar(node) && typeof node.value === 'string') return [node.value];
+  if (!isSeq(node)) return [];
+  return node.items
+    .filter((item) => isScalar(item) && typeof item.value === 'string')
+    .map((item) => (item as { value: string }).value)
+    // Remote bases (git URLs) can't be resolved locally
+    .filter((ref) => !/^(https?:\/\/|git@|github\.com\/)/.test(ref));
+}
+
+function lineOf(lineCounter: LineCounter, node: Node): number {
+  return node.range ? lineCounter.linePos(node.range[0]).line : 1;
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function unquote(value: string): string {
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
@@ -0,0 +1,99 @@
+import { describeChange } from './compare.js';
+import type { CompareResult } from './compare.js';
+import type { EnvVar, ScanResult } from './types.js';
+
+/**
+ * Hidden marker at the top of every comment, so a bot can find and update it in place
+ */
+export const MARKDOWN_COMMENT_MARKER = '<!-- envvars-scan:compare -->';
+
+export interface MarkdownOptions {
+  /** Heading shown at the top of the comment */
+  title?: string;
+  /** URL prefix for file links, e.g. https://github.com/org/repo/blob/<sha> */
+  linkBase?: string;
+  /** Scan roots stripped from base/head file paths */
+  roots?: { base: string; head: string };
+}
+
+/**
+ * Render a compare result as a Markdown PR comment
+ */
+export function renderCompareMarkdown(
+  result: CompareResult,
+  baseResult: ScanResult,
+  headResult: ScanResult,
+  options: MarkdownOptions = {}
+): string {
+  const { title = 'Env Var Changes', linkBase, roots = { base: baseResult.path, head: headResult.path } } = options;
+  const { added, removed, changed, unchanged } = result;
+  const lines: string[] = [MARKDOWN_COMMENT_MARKER, `### ${title}`, ''];
+
+  const location = (file: string | undefined, line: number | undefined, root: string, link: boolean): string => {
+    if (!file) return '';
+    const relPath = file.replace(root + '/', '');
+    const text = `\`${relPath}:${line}\``;
+    return link && linkBase ? `[${text}](${linkBase.replace(/\/$/, '')}/${encodeURI(relPath)}#L${line})` : text;
+  };
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+    lines.push('No env var changes detected.', '');
+  }
+
+  if (added.length > 0) {
+    lines.push(`#### Added (${added.length})`, '', '| Variable | Location | Sources |', '| --- | --- | --- |');
+    for (const name of added) {
+      const usages = headResult.envVars.filter((v) => v.name === name);
+      lines.push(row(`\`${name}\``, location(usages[0]?.file, usages[0]?.line, roots.head, true), listSources(usages)));
+    }
+    lines.push('');
+  }
+
+  if (removed.length > 0) {
+    // Removed locations only exist in base, so they are not linked to head
+    lines.push(`#### Removed (${removed.length})`, '', '| Variable | Was in |', '| --- | --- |');
+    for (const name of removed) {
+      const loc = baseResult.envVars.find((v) => v.name === name);
+      lines.push(row(`\`${name}\``, location(loc?.file, loc?.line, roots.base, false)));
+    }
+    lines.push('');
+  }
+
+  if (changed.length > 0) {
+    lines.push(`#### Changed (${changed.length})`, '', '| Variable | Change | Location |', '| --- | --- | --- |');
+    for (const change of changed) {
+      const description = describeChange(change).map((l) => escapeCell(l)).join('<br>');
+      lines.push(`| \`${change.name}\` | ${description} | ${location(change.file, change.line, roots.head, true)} |`);
+    }
+    lines.push('');
+  }
+
+  if (unchanged.length > 0) {
+    lines.push(
+      '<details>',
+      `<summary>Unchanged (${unchanged.length})</summary>`,
+      '',
+      unchanged.map((n) => `\`${n}\``).join(', '),
+      '',
+      '</details>',
+      ''
+    );
+  }
+
+  lines.push(`**Summary:** ${added.length} added, ${removed.length} removed, ${changed.length} changed, ${unchanged.length} unchanged`);
+
+  return lines.join('\n') + '\n';
+}
+
+function listSources(usages: EnvVar[]): string {
+  const sources = new Set(usages.map((u) => u.valueSource ?? u.language));
+  return [...sources].sort().join(', ');
+}
+
+function row(...cells: string[]): string {
+  return `| ${cells.map((c) => (c.startsWith('[') || c.startsWith('`') ? c : escapeCell(c))).join(' | ')} |`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
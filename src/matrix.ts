@@ -0,0 +1,167 @@
+import { basename } from 'path';
+import { getUsageKind } from './check.js';
+import type { EnvVar, ScanResult, ValueSource } from './types.js';
+
+/**
+ * How a variable is provided in one environment:
+ * - set: defined by a source specific to that environment
+ * - default: only a shared definition (.env, Dockerfile, compose) or a code default applies
+ * - missing: nothing provides it
+ */
+export type MatrixStatus = 'set' | 'default' | 'missing';
+
+export interface MatrixCell {
+  status: MatrixStatus;
+  /** Display value (formatted with formatValue; left out when it returns undefined) */
+  value?: string;
+  valueSource?: ValueSource;
+  file?: string;
+  line?: number;
+}
+
+export interface MatrixRow {
+  name: string;
+  /** One cell per environment, keyed by environment label */
+  cells: Record<string, MatrixCell>;
+  /** Provided in some environments but missing from others */
+  inconsistent: boolean;
+}
+
+export interface EnvMatrix {
+  environments: string[];
+  rows: MatrixRow[];
+}
+
+export interface MatrixOptions {
+  /** Environment label → other names for it in file names, overlays and namespaces (e.g. production: [prod, prd]) */
+  aliases?: Record<string, string[]>;
+  /** Display form of a value, e.g. masked when sensitive */
+  formatValue?: (name: string, value: string, valueSource?: ValueSource) => string | undefined;
+}
+
+/**
+ * .env files that document variables rather than configure an environment
+ */
+const TEMPLATE_SUFFIXES = new Set(['example', 'sample', 'template', 'dist', 'defaults']);
+
+/**
+ * Environment a finding applies to, or undefined when it applies to every environment:
+ * - the `environment` set by the scanner (values-prod.yaml, kustomize overlays)
+ * - the .env file name: .env.production, .env.production.local, production.env
+ * - the k8s namespace
+ */
+export function inferEnvironment(envVar: EnvVar, aliases: Record<string, string[]> = {}): string | undefined {
+  const token = envVar.environment ?? fileEnvironment(envVar) ?? envVar.k8s?.namespace;
+  return token ? resolveAlias(token, aliases) : undefined;
+}
+
+function fileEnvironment(envVar: EnvVar): string | undefined {
+  if (envVar.language !== 'dotenv') return undefined;
+  const name = basename(envVar.file);
+  // .env.production(.local) → production; .env and .env.local apply everywhere
+  const dotted = /^\.env\.(.+?)(?:\.local)?$/.exec(name);
+  if (dotted) return dotted[1] === 'local' ? undefined : dotted[1];
+  // production.env → production
+  return /^(.+)\.env$/.exec(name)?.[1];
+}
+
+function resolveAlias(token: string, aliases: Record<string, string[]>): string {
+  const lower = token.toLowerCase();
+  const match = (t: string) =>
+    Object.entries(aliases).find(([label, names]) => label.toLowerCase() === t || names.some((n) => n.toLowerCase() === t))?.[0];
+  // Whole name first, then its parts (myapp-prod → prod)
+  return match(lower) ?? lower.split(/[-_.]/).map(match).find((label) => label !== undefined) ?? token;
+}
+
+function isTemplateFile(envVar: EnvVar): boolean {
+  if (envVar.language !== 'dotenv') return false;
+  const parts = basename(envVar.file).split('.');
+  return parts.some((part) => TEMPLATE_SUFFIXES.has(part.toLowerCase()));
+}
+
+/**
+ * Which finding a cell shows (lowest first): a definition with a value (.env, compose, k8s,
+ * Terraform, ...), then a code default, then whatever was seen first
+ */
+function valueRank(envVar: EnvVar): number {
+  if (envVar.value === undefined) return 2;
+  return getUsageKind(envVar) === 'definition' ? 0 : 1;
+}
+
+/**
+ * Variable × environment matrix of a merged scan result. Environments are inferred from
+ * the findings (see inferEnvironment); every variable in the scan gets a row.
+ */
+export function buildEnvMatrix(result: ScanResult, options: MatrixOptions = {}): EnvMatrix {
+  const { aliases = {}, formatValue = (_name: string, value: string): string | undefined => value } = options;
+  const byEnvironment = new Map<string, Map<string, EnvVar[]>>();
+  const shared = new Map<string, EnvVar[]>();
+  const names = new Set<string>();
+
+  for (const ev of result.envVars) {
+    if (isTemplateFile(ev)) continue;
+    names.add(ev.name);
+    const isDefinition = getUsageKind(ev) === 'definition';
+    if (!isDefinition && !ev.isDefault) continue;
+
+    const environment = isDefinition ? inferEnvironment(ev, aliases) : undefined;
+    if (environment === undefined) {
+      shared.set(ev.name, [...(shared.get(ev.name) || []), ev]);
+      continue;
+    }
+    const vars = byEnvironment.get(environment) || new Map<string, EnvVar[]>();
+    vars.set(ev.name, [...(vars.get(ev.name) || []), ev]);
+    byEnvironment.set(environment, vars);
+  }
+
+  const environments = [...byEnvironment.keys()].sort();
+  const toCell = (status: MatrixStatus, envVars: EnvVar[]): MatrixCell => {
+    const withValue = envVars.reduce((best, ev) => (valueRank(ev) < valueRank(best) ? ev : best));
+    const value = withValue.value === undefined ? undefined : formatValue(withValue.name, withValue.value, withValue.valueSource);
+    return {
+      status,
+      ...(value !== undefined && { value }),
+      ...(withValue.valueSource && { valueSource: withValue.valueSource }),
+      file: withValue.file,
+      line: withValue.line,
+    };
+  };
+
+  const rows: MatrixRow[] = [...names].sort().map((name) => {
+    const cells: Record<string, MatrixCell> = {};
+    for (const environment of environments) {
+      const specific = byEnvironment.get(environment)?.get(name);
+      const fallback = shared.get(name);
+      cells[environment] = specific
+        ? toCell('set', specific)
+        : fallback
+          ? toCell('default', fallback)
+          : { status: 'missing' };
+    }
+    const statuses = Object.values(cells).map((cell) => cell.status);
+    const inconsistent = statuses.includes('missing') && statuses.some((status) => status !== 'missing');
+    return { name, cells, inconsistent };
+  });
+
+  return { environments, rows };
+}
+
+/**
+ * CSV with a status and a value column per environment
+ */
+export function renderMatrixCsv(matrix: EnvMatrix): string {
+  const escape = (field: string) => (/[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field);
+  const header = ['name', ...matrix.environments.flatMap((env) => [env, `${env}_value`]), 'inconsistent'];
+  const lines = [header.map(escape).join(',')];
+
+  for (const row of matrix.rows) {
+    const fields = [
+      row.name,
+      ...matrix.environments.flatMap((env) => [row.cells[env].status, row.cells[env].value ?? '']),
+      String(row.inconsistent),
+    ];
+    lines.push(fields.map(escape).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,199 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative } from 'path';
+import { glob } from 'glob';
+import { parse } from 'yaml';
+import { loadUserConfig } from './config.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import type { EnvVar, PackageKind, PackageRoot } from './types.js';
+
+/**
+ * Manifest files that mark a package root, in order of preference when a directory has several
+ */
+const MANIFESTS: { file: string; kind: PackageKind }[] = [
+  { file: 'package.json', kind: 'npm' },
+  { file: 'go.mod', kind: 'go' },
+  { file: 'pyproject.toml', kind: 'python' },
+  { file: 'Cargo.toml', kind: 'cargo' },
+  { file: 'pom.xml', kind: 'maven' },
+  { file: 'build.gradle', kind: 'gradle' },
+  { file: 'build.gradle.kts', kind: 'gradle' },
+];
+
+/**
+ * Finds package roots under basePath from their manifests (package.json, go.mod, pyproject.toml,
+ * Cargo.toml, pom.xml, build.gradle) and from the user config's `packages` (directories or globs
+ * relative to basePath). When the root package.json or pnpm-workspace.yaml declares workspaces,
+ * only package.json files inside them count, so fixtures and examples aren't mistaken for packages.
+ * Names come from the manifest, falling back to the directory; a name used twice is replaced by
+ * the relative directory.
+ */
+export async function detectPackages(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  roots?: string[]
+): Promise<PackageRoot[]> {
+  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+  const manifests = await glob(
+    MANIFESTS.map((m) => `**/${m.file}`),
+    { cwd: basePath, ignore: ignorePatterns, nodir: true, absolute: true }
+  );
+
+  const workspaces = await workspaceDirs(basePath, ignorePatterns);
+  const byDir = new Map<string, PackageRoot>();
+
+  for (const { file, kind } of MANIFESTS) {
+    for (const manifest of manifests.filter((m) => basename(m) === file).sort()) {
+      const dir = dirname(manifest);
+      if (byDir.has(dir)) continue;
+      if (kind === 'npm' && workspaces && dir !== basePath && !workspaces.has(dir)) continue;
+      const name = manifestName(manifest, kind);
+      // A Cargo virtual manifest ([workspace] only) has no package of its own
+      if (name === undefined && kind === 'cargo') continue;
+      byDir.set(dir, { name: name ?? basename(dir), dir, kind, manifest });
+    }
+  }
+
+  // Explicit roots for services without a manifest; a trailing / makes glob match directories only
+  const explicit = roots ?? loadUserConfig(basePath)?.packages ?? [];
+  for (const root of explicit) {
+    const dirs = await glob(`${root.replace(/\/+$/, '')}/`, { cwd: basePath, ignore: ignorePatterns, absolute: true });
+    for (const dir of dirs.sort()) {
+      if (!byDir.has(dir)) byDir.set(dir, { name: relative(basePath, dir) || basename(dir), dir, kind: 'config' });
+    }
+  }
+
+  // Names must identify a package for --package; fall back to the directory on collisions
+  const packages = [...byDir.values()];
+  const counts = new Map<string, number>();
+  for (const pkg of packages) counts.set(pkg.name, (counts.get(pkg.name) || 0) + 1);
+  return packages
+    .map((pkg) => (counts.get(pkg.name)! > 1 ? { ...pkg, name: relative(basePath, pkg.dir) || basename(pkg.dir) } : pkg))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The package a file belongs to: the deepest package root that contains it
+ */
+export function findPackage(file: string, packages: PackageRoot[]): PackageRoot | undefined {
+  let best: PackageRoot | undefined;
+  for (const pkg of packages) {
+    const rel = relative(pkg.dir, file);
+    if (rel.startsWith('..') || isAbsolute(rel)) continue;
+    if (!best || pkg.dir.length > best.dir.length) best = pkg;
+  }
+  return best;
+}
+
+/**
+ * Set `package` on every finding inside a package root, so definitions (.env, Dockerfile, k8s
+ * manifests) in a package directory are grouped with that package's code reads
+ */
+export function assignPackages(envVars: EnvVar[], packages: PackageRoot[]): void {
+  for (const ev of envVars) {
+    const pkg = findPackage(ev.file, packages);
+    if (pkg) ev.package = pkg.name;
+  }
+}
+
+/**
+ * Directories matched by the npm/yarn `workspaces` of the root package.json or the `packages`
+ * of pnpm-workspace.yaml; undefined when neither declares any
+ */
+async function workspaceDirs(basePath: string, ignorePatterns: string[]): Promise<Set<string> | undefined> {
+  const patterns: string[] = [];
+
+  const rootManifest = join(basePath, 'package.json');
+  if (existsSync(rootManifest)) {
+    try {
+      const workspaces = JSON.parse(readFileSync(rootManifest, 'utf-8')).workspaces;
+      const list = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+      if (Array.isArray(list)) patterns.push(...list.filter((p): p is string => typeof p === 'string'));
+    } catch {
+      // Invalid package.json: no workspaces
+    }
+  }
+
+  const pnpmWorkspace = join(basePath, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    try {
+      const list = parse(readFileSync(pnpmWorkspace, 'utf-8'))?.packages;
+      if (Array.isArray(list)) patterns.push(...list.filter((p): p is string => typeof p === 'string'));
+    } catch {
+      // Invalid YAML: no workspaces
+    }
+  }
+
+  if (patterns.length === 0) return undefined;
+  const include = patterns.filter((p) => !p.startsWith('!')).map((p) => `${p.replace(/\/+$/, '')}/package.json`);
+  const exclude = patterns.filter((p) => p.startsWith('!')).map((p) => `${p.slice(1).replace(/\/+$/, '')}/package.json`);
+  const manifests = await glob(include, { cwd: basePath, ignore: [...ignorePatterns, ...exclude], nodir: true, absolute: true });
+  return new Set(manifests.map((m) => dirname(m)));
+}
+
+/**
+ * Package name declared by a manifest, if any
+ */
+function manifestName(manifest: string, kind: PackageKind): string | undefined {
+  let content: string;
+  try {
+    content = readFileSync(manifest, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  switch (kind) {
+    case 'npm': {
+      try {
+        const name = JSON.parse(content).name;
+        return typeof name === 'string' && name ? name : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+    case 'go': {
+      // module github.com/acme/shop/services/api/v2 → api
+      const module = /^\s*module\s+"?([^\s"]+)"?/m.exec(content)?.[1];
+      return module?.split('/').filter((part) => !/^v\d+$/.test(part)).pop();
+    }
+    case 'python':
+      return tomlName(content, ['project', 'tool.poetry']);
+    case 'cargo':
+      return tomlName(content, ['package']);
+    case 'maven': {
+      // The project's own artifactId, not the parent's
+      const project = content.replace(/<parent>[\s\S]*?<\/parent>/, '');
+      return /<artifactId>\s*([^<\s]+)\s*<\/artifactId>/.exec(project)?.[1];
+    }
+    case 'gradle':
+      return gradleRootProjectName(dirname(manifest));
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * `name = "..."` in the first of the given TOML tables that has one
+ */
+function tomlName(content: string, tables: string[]): string | undefined {
+  for (const table of tables) {
+    const header = new RegExp(`^\\s*\\[${table.replace(/\./g, '\\.')}\\]\\s*$`, 'm').exec(content);
+    if (!header) continue;
+    const body = content.slice(header.index + header[0].length).split(/^\s*\[/m)[0];
+    const name = /^\s*name\s*=\s*["']([^"']+)["']/m.exec(body)?.[1];
+    if (name) return name;
+  }
+  return undefined;
+}
+
+/**
+ * rootProject.name from settings.gradle(.kts) next to the build file
+ */
+function gradleRootProjectName(dir: string): string | undefined {
+  for (const file of ['settings.gradle', 'settings.gradle.kts']) {
+    const path = join(dir, file);
+    if (!existsSync(path)) continue;
+    const name = /rootProject\.name\s*=\s*["']([^"']+)["']/.exec(readFileSync(path, 'utf-8'))?.[1];
+    if (name) return name;
+  }
+  return undefined;
+}
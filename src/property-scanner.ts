@@ -1,31 +1,13 @@
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { glob } from 'glob';
-import { join, relative } from 'path';
-import type { EnvVar, ValueSource } from './types.js';
+import { dirname, join, relative, resolve } from 'path';
+import { LineCounter, isAlias, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Document } from 'yaml';
+import type { ComposeContext, DockerfileContext, EnvVar, ValueSource } from './types.js';
 import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
-
-/**
- * Parse a value from .env file format, handling quotes and escape sequences
- */
-function parseEnvValue(rawValue: string): string {
-  let value = rawValue.trim();
-
-  // Handle quoted values
-  if ((value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))) {
-    value = value.slice(1, -1);
-  }
-
-  // Handle inline comments (only for unquoted values)
-  if (!rawValue.startsWith('"') && !rawValue.startsWith("'")) {
-    const commentIdx = value.indexOf('#');
-    if (commentIdx > 0) {
-      value = value.slice(0, commentIdx).trim();
-    }
-  }
-
-  return value;
-}
+import { expandDockerWord, parseDockerfile, parseKeyValues } from './dockerfile.js';
+import { expandDotEnv, parseDotEnv } from './dotenv.js';
+import { DEFAULT_SHELL_IGNORE, forEachExpansion, literalShellValue } from './shell-scanner.js';
 
 /**
  * Scans property/config files for ${VAR} and ${VAR:default} syntax
@@ -95,6 +77,8 @@ function scanPropertyFile(filePath: string, basePath: string): EnvVar[] {
         value: defaultValue,
         valueSource: defaultValue ? 'properties' : undefined,
         isDefault: !!defaultValue,
+        // An unresolvable placeholder without a default fails at startup
+        required: defaultValue === undefined,
       });
     }
   }
@@ -103,7 +87,11 @@ function scanPropertyFile(filePath: string, basePath: string): EnvVar[] {
 }
 
 /**
- * Scans Dockerfile for ENV and ARG declarations
+ * Scans Dockerfiles (and Containerfiles) for ENV and ARG declarations and for
+ * $VAR / ${VAR:-default} references in shell-form RUN, CMD and ENTRYPOINT (and in the script of
+ * exec-form `["sh", "-c", "..."]`).
+ * Findings are tagged with their build stage; ARG scope follows the builder:
+ * an ARG before the first FROM is only visible in a stage that redeclares it.
  */
 export async function scanDockerfiles(
   basePath: string,
@@ -111,9 +99,9 @@ export async function scanDockerfiles(
 ): Promise<EnvVar[]> {
   const envVars: EnvVar[] = [];
 
-  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+  const ignorePatterns = [...excludePatterns.map((p) => `**/${p}/**`), '**/*.dockerignore'];
 
-  const files = await glob('**/Dockerfile*', {
+  const files = await glob(['**/Dockerfile*', '**/Containerfile*', '**/*.dockerfile', '**/*.containerfile'], {
     cwd: basePath,
     ignore: ignorePatterns,
     nodir: true,
@@ -128,75 +116,178 @@ export async function scanDockerfiles(
   return envVars;
 }
 
+interface DockerStage {
+  name: string;
+  /** Index of the stage this one is built FROM */
+  parent?: number;
+}
+
 function scanDockerfile(filePath: string, basePath: string): EnvVar[] {
   const envVars: EnvVar[] = [];
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
+  const instructions = parseDockerfile(readFileSync(filePath, 'utf-8'));
+
+  // Stages first, so findings know whether their stage ends up in the final image
+  const stages: DockerStage[] = [];
+  for (const inst of instructions) {
+    if (inst.keyword !== 'FROM') continue;
+    const words = inst.args.trim().split(/\s+/).filter((w) => !w.startsWith('--'));
+    const alias = words.length >= 3 && words[1].toLowerCase() === 'as' ? words[2] : undefined;
+    const parent = stages.findIndex((stage) => stage.name.toLowerCase() === words[0]?.toLowerCase());
+    stages.push({ name: alias ?? String(stages.length), ...(parent !== -1 && { parent }) });
+  }
+  const finalStages = new Set<number>();
+  for (let s: number | undefined = stages.length - 1; s !== undefined && s >= 0; s = stages[s].parent) {
+    finalStages.add(s);
+  }
 
-  // Pattern: ENV VAR_NAME=value or ENV VAR_NAME value
-  // Captures: group 1 = var name, group 2 = value (with = or space separator)
-  const envPatternEquals = /^ENV\s+([A-Z][A-Z0-9_]*)=(.*)$/i;
-  const envPatternSpace = /^ENV\s+([A-Z][A-Z0-9_]*)\s+(.+)$/i;
-  // Pattern: ARG VAR_NAME or ARG VAR_NAME=default
-  const argPattern = /^ARG\s+([A-Z][A-Z0-9_]*)(?:=(.*))?$/i;
+  const globalArgs = new Map<string, string | null>();
+  // ENV of each stage, inherited by stages built FROM it
+  const stageEnv: Map<string, string | null>[] = [];
+  // ARG and ENV values visible to the current instruction
+  let scope = globalArgs;
+  let stage = -1;
+
+  const context = (): DockerfileContext =>
+    stage === -1 ? { final: false } : { stage: stages[stage].name, final: finalStages.has(stage) };
+  const lookup = (name: string) => scope.get(name);
+
+  for (const inst of instructions) {
+    switch (inst.keyword) {
+      case 'FROM': {
+        stage++;
+        const parent = stages[stage].parent;
+        stageEnv[stage] = new Map(parent !== undefined ? stageEnv[parent] : []);
+        scope = new Map(stageEnv[stage]);
+        break;
+      }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
+      case 'ARG':
+        for (const kv of parseKeyValues(inst.args, inst.escape)) {
+          let value: string | null | undefined;
+          if (kv.raw !== undefined) value = expandDockerWord(kv.raw, inst.escape, lookup);
+          // A bare ARG in a stage picks up the default of the global ARG with the same name
+          else if (stage !== -1) value = globalArgs.get(kv.key);
+          // ENV always wins over an ARG of the same name
+          if (stage === -1 || !stageEnv[stage].has(kv.key)) scope.set(kv.key, value ?? null);
+          envVars.push({
+            name: kv.key,
+            file: filePath,
+            line: inst.lineAt(kv.offset),
+            language: 'dockerfile',
+            pattern: 'ARG',
+            value: value || undefined,
+            valueSource: value ? 'dockerfile-arg' : undefined,
+            isDefault: !!value,
+            dockerfile: context(),
+          });
+        }
+        break;
+
+      case 'ENV': {
+        // All pairs of one ENV are substituted with the values from before the instruction
+        const pairs = parseKeyValues(inst.args, inst.escape)
+          .filter((kv) => kv.raw !== undefined)
+          .map((kv) => ({ ...kv, value: expandDockerWord(kv.raw!, inst.escape, lookup) }));
+        for (const kv of pairs) {
+          if (stage !== -1) stageEnv[stage].set(kv.key, kv.value ?? null);
+          scope.set(kv.key, kv.value ?? null);
+          envVars.push({
+            name: kv.key,
+            file: filePath,
+            line: inst.lineAt(kv.offset),
+            language: 'dockerfile',
+            pattern: 'ENV',
+            value: kv.value || undefined,
+            valueSource: kv.value ? 'dockerfile-env' : undefined,
+            dockerfile: context(),
+          });
+        }
+        break;
+      }
 
-    // Check ENV declarations (= syntax)
-    let envMatch = envPatternEquals.exec(line);
-    if (envMatch) {
-      const value = envMatch[2]?.trim();
-      envVars.push({
-        name: envMatch[1],
-        file: filePath,
-        line: i + 1,
-        language: 'dockerfile',
-        pattern: 'ENV',
-        value: value || undefined,
-        valueSource: value ? 'dockerfile-env' : undefined,
-      });
-      continue;
+      case 'RUN':
+      case 'CMD':
+      case 'ENTRYPOINT': {
+        // Exec form (JSON array) runs without a shell, so only the script of `sh -c` is expanded
+        const shellForm = inst.args.trimStart().startsWith('[')
+          ? execFormScript(inst.args)
+          : { script: inst.args, offset: 0 };
+        if (!shellForm) break;
+        forEachExpansion(maskSingleQuoted(shellForm.script), (exp) => {
+          if (DEFAULT_SHELL_IGNORE.includes(exp.name)) return;
+          const hasDefault = exp.operator !== undefined && /^:?[-=]$/.test(exp.operator);
+          const value = hasDefault ? literalShellValue(exp.word ?? '') : undefined;
+          envVars.push({
+            name: exp.name,
+            file: filePath,
+            line: inst.lineAt(shellForm.offset + exp.start),
+            language: 'dockerfile',
+            pattern: inst.keyword,
+            ...(hasDefault && {
+              value: value || undefined,
+              valueSource: value ? 'shell-default' : undefined,
+              isDefault: true,
+            }),
+            ...(exp.operator !== undefined && /^:?\?$/.test(exp.operator) && { required: true }),
+            dockerfile: context(),
+          });
+        });
+        break;
+      }
     }
+  }
 
-    // Check ENV declarations (space syntax)
-    envMatch = envPatternSpace.exec(line);
-    if (envMatch) {
-      const value = envMatch[2]?.trim();
-      envVars.push({
-        name: envMatch[1],
-        file: filePath,
-        line: i + 1,
-        language: 'dockerfile',
-        pattern: 'ENV',
-        value: value || undefined,
-        valueSource: value ? 'dockerfile-env' : undefined,
-      });
-      continue;
-    }
+  return envVars;
+}
 
-    // Check ARG declarations
-    const argMatch = argPattern.exec(line);
-    if (argMatch) {
-      const value = argMatch[2]?.trim();
-      envVars.push({
-        name: argMatch[1],
-        file: filePath,
-        line: i + 1,
-        language: 'dockerfile',
-        pattern: 'ARG',
-        value: value || undefined,
-        valueSource: value ? 'dockerfile-arg' : undefined,
-        isDefault: !!value,
-      });
-    }
+/**
+ * Shells whose `-c` argument is a script
+ */
+const EXEC_FORM_SHELLS = new Set(['sh', 'bash', 'ash', 'dash', 'zsh']);
+
+/**
+ * The script of an exec-form `["sh", "-c", "script"]` (also bash and combined flags like `-ec`),
+ * as written in args so expansion offsets still map to lines
+ */
+function execFormScript(args: string): { script: string; offset: number } | undefined {
+  let words: unknown;
+  try {
+    words = JSON.parse(args.replace(/\n/g, ''));
+  } catch {
+    return undefined;
   }
+  if (!Array.isArray(words) || words.length < 3 || !words.every((w): w is string => typeof w === 'string')) return undefined;
+  if (!EXEC_FORM_SHELLS.has(words[0].split('/').pop()!) || !/^-[a-z]*c[a-z]*$/.test(words[1])) return undefined;
 
-  return envVars;
+  const script = [...args.matchAll(/"(?:\\[\s\S]|[^"\\])*"/g)][2];
+  return script && { script: script[0].slice(1, -1), offset: script.index! + 1 };
 }
 
 /**
- * Scans .env files for variable definitions
+ * Blank out single-quoted text (not expanded by the shell), keeping offsets
+ */
+function maskSingleQuoted(text: string): string {
+  let inDouble = false;
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inDouble = !inDouble;
+    if (ch === "'" && !inDouble) {
+      const end = text.indexOf("'", i + 1);
+      const stop = end === -1 ? text.length : end + 1;
+      out += text.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop - 1;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * Scans .env files for variable definitions, parsed with dotenv syntax (quoted and multi-line
+ * values, escapes) and expanded like dotenv-expand; the raw value and the variables it
+ * depends on are kept when expansion changes it
  */
 export async function scanDotEnvFiles(
   basePath: string,
@@ -224,115 +315,260 @@ export async function scanDotEnvFiles(
 }
 
 function scanDotEnvFile(filePath: string, basePath: string): EnvVar[] {
-  const envVars: EnvVar[] = [];
   const content = readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
-
-  // Pattern: VAR_NAME=value (with optional export prefix)
-  // Captures: group 1 = var name, group 2 = value
-  const envPattern = /^(?:export\s+)?([A-Z][A-Z0-9_]*)=(.*)$/;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    // Skip comments and empty lines
-    if (line.startsWith('#') || line === '') continue;
 
-    const match = envPattern.exec(line);
-    if (match) {
-      const rawValue = match[2];
-      const value = parseEnvValue(rawValue);
-
-      envVars.push({
-        name: match[1],
-        file: filePath,
-        line: i + 1,
-        language: 'dotenv',
-        pattern: 'definition',
-        value: value || undefined,
-        valueSource: 'dotenv',
-      });
-    }
-  }
-
-  return envVars;
+  return expandDotEnv(parseDotEnv(content)).map((entry) => {
+    const value = entry.expanded;
+    const endLine = entry.line + (entry.raw.match(/\n/g)?.length ?? 0);
+    return {
+      name: entry.key,
+      file: filePath,
+      line: entry.line,
+      ...(endLine !== entry.line && { endLine }),
+      language: 'dotenv',
+      pattern: 'definition',
+      value,
+      valueSource: 'dotenv',
+      // Unresolved ${OTHER} references leave value unset; keep what was written
+      ...(entry.raw !== value && { rawValue: entry.raw }),
+      ...(entry.dependsOn.length > 0 && { dependsOn: entry.dependsOn }),
+    };
+  });
 }
 
 /**
- * Scans docker-compose.yml files for environment variable definitions
+ * Scans Compose files (compose.yaml, docker-compose*.yml and override files) structurally:
+ * - `environment:` entries of each service (map or `KEY=value` list form)
+ * - `env_file:` references, read from the referenced .env files
+ * - `${VAR}` interpolation anywhere in the file, with `:-`/`-` defaults and `:?`/`?` required markers
+ * Findings under `services:` are attributed to their service.
+ * Missing env files (unless `required: false`) and YAML parse errors are added to errors.
  */
 export async function scanDockerComposeFiles(
   basePath: string,
-  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  errors: string[] = []
 ): Promise<EnvVar[]> {
   const envVars: EnvVar[] = [];
 
   const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
 
-  const files = await glob('**/docker-compose*.{yml,yaml}', {
+  const files = await glob(['**/docker-compose*.{yml,yaml}', '**/compose.{yml,yaml}', '**/compose.*.{yml,yaml}'], {
     cwd: basePath,
     ignore: ignorePatterns,
     nodir: true,
     absolute: true,
   });
 
-  for (const file of files) {
-    const vars = scanDockerComposeFile(file, basePath);
+  for (const file of files.sort()) {
+    const vars = scanDockerComposeFile(file, basePath, errors);
     envVars.push(...vars);
   }
 
   return envVars;
 }
 
-function scanDockerComposeFile(filePath: string, basePath: string): EnvVar[] {
+function scanDockerComposeFile(filePath: string, basePath: string, errors: string[]): EnvVar[] {
   const envVars: EnvVar[] = [];
   const content = readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const lineOf = (offset: number) => lineCounter.linePos(offset).line;
+
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0];
+    const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    errors.push(`${filePath}:${lineOf(error.pos[0])}: invalid YAML document: ${message}`);
+    return envVars;
+  }
+  if (!isMap(doc.contents)) return envVars;
 
-  // Pattern: ${VAR_NAME} or $VAR_NAME in values (references only, no value extraction)
-  const varRefPattern = /\$\{?([A-Z][A-Z0-9_]*)\}?/g;
-  // Pattern: - VAR_NAME=value or VAR_NAME: value (env definitions with values)
-  // Captures: group 1 = var name, group 2 = separator (= or :), group 3 = value
-  const envDefPattern = /^\s*-?\s*([A-Z][A-Z0-9_]*)([=:])(.*)$/;
+  // Interpolation outside services (x- extensions, networks, ...) has no service
+  envVars.push(...composeReferences(doc.contents, content, filePath, lineOf, undefined, ['services']));
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Check for VAR_NAME= or VAR_NAME: definitions (with values)
-    const defMatch = envDefPattern.exec(line);
-    if (defMatch) {
-      let value = defMatch[3]?.trim();
+  const services = doc.get('services', true);
+  if (!isMap(services)) return envVars;
 
-      // Remove quotes if present
-      if ((value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))) {
-        value = value.slice(1, -1);
-      }
+  for (const pair of services.items) {
+    if (!isScalar(pair.key) || !isMap(pair.value)) continue;
+    const compose: ComposeContext = { service: String(pair.key.value) };
+    const service = pair.value;
 
+    for (const entry of composeEnvironment(service.get('environment', true), doc)) {
+      const interpolated = entry.value !== undefined ? interpolateCompose(entry.value) : undefined;
+      const value = interpolated?.value;
       envVars.push({
-        name: defMatch[1],
+        name: entry.name,
         file: filePath,
-        line: i + 1,
+        line: lineOf(entry.offset),
         language: 'docker-compose',
         pattern: 'environment-definition',
         value: value || undefined,
         valueSource: value ? 'docker-compose' : undefined,
+        ...(interpolated?.usedDefault && { isDefault: true }),
+        ...(interpolated?.required && { required: true }),
+        compose,
       });
-      continue; // Don't double-count as reference
     }
 
-    // Check for ${VAR} references (no value extraction for references)
-    let match;
-    while ((match = varRefPattern.exec(line)) !== null) {
-      envVars.push({
-        name: match[1],
-        file: filePath,
-        line: i + 1,
-        language: 'docker-compose',
-        pattern: 'variable-reference',
+    for (const ref of composeEnvFiles(service.get('env_file', true))) {
+      const envFile = resolve(dirname(filePath), ref.path);
+      if (!existsSync(envFile)) {
+        if (ref.required) {
+          errors.push(`${filePath}:${lineOf(ref.offset)}: service "${compose.service}" env_file "${ref.path}" not found`);
+        }
+        continue;
+      }
+      // Reported at the env_file entry, like a k8s envFrom
+      for (const ev of scanDotEnvFile(envFile, basePath)) {
+        envVars.push({
+          name: ev.name,
+          file: filePath,
+          line: lineOf(ref.offset),
+          language: 'docker-compose',
+          pattern: 'env-file',
+          value: ev.value,
+          valueSource: ev.value !== undefined ? 'docker-compose' : undefined,
+          ...(ev.rawValue !== undefined && { rawValue: ev.rawValue }),
+          compose,
+        });
+      }
+    }
+
+    envVars.push(...composeReferences(service, content, filePath, lineOf, compose, []));
+  }
+
+  return envVars;
+}
+
+/**
+ * `environment:` as a map (KEY: value, `<<` merge keys included) or a list of KEY=value / KEY
+ */
+function composeEnvironment(node: unknown, doc: Document): { name: string; value?: string; offset: number }[] {
+  const entries: { name: string; value?: string; offset: number }[] = [];
+
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (!isScalar(pair.key)) continue;
+      if (pair.key.value === '<<') {
+        const sources = isSeq(pair.value) ? pair.value.items : [pair.value];
+        for (const source of sources) {
+          entries.push(...composeEnvironment(isAlias(source) ? source.resolve(doc) : source, doc));
+        }
+        continue;
+      }
+      const value = isScalar(pair.value) && pair.value.value !== null ? String(pair.value.value) : undefined;
+      entries.push({ name: String(pair.key.value), value, offset: pair.key.range?.[0] ?? 0 });
+    }
+  } else if (isSeq(node)) {
+    for (const item of node.items) {
+      if (!isScalar(item) || typeof item.value !== 'string') continue;
+      const eq = item.value.indexOf('=');
+      entries.push({
+        name: eq === -1 ? item.value : item.value.slice(0, eq),
+        value: eq === -1 ? undefined : item.value.slice(eq + 1),
+        offset: item.range?.[0] ?? 0,
       });
     }
   }
 
+  return entries;
+}
+
+/**
+ * `env_file:` as a path, a list of paths, or a list of { path, required }
+ */
+function composeEnvFiles(node: unknown): { path: string; required: boolean; offset: number }[] {
+  const items = isSeq(node) ? node.items : node ? [node] : [];
+  const refs: { path: string; required: boolean; offset: number }[] = [];
+
+  for (const item of items) {
+    if (isScalar(item) && typeof item.value === 'string') {
+      refs.push({ path: item.value, required: true, offset: item.range?.[0] ?? 0 });
+    } else if (isMap(item)) {
+      const path = item.get('path');
+      if (typeof path !== 'string') continue;
+      refs.push({ path, required: item.get('required') !== false, offset: item.range?.[0] ?? 0 });
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * ${VAR} interpolation in every scalar under a node (except under the skipped keys),
+ * located in the raw source so multi-line values report the right line
+ */
+function composeReferences(
+  node: unknown,
+  content: string,
+  filePath: string,
+  lineOf: (offset: number) => number,
+  compose: ComposeContext | undefined,
+  skipKeys: string[]
+): EnvVar[] {
+  const envVars: EnvVar[] = [];
+
+  const visit = (current: unknown, top: boolean) => {
+    if (isMap(current)) {
+      for (const pair of current.items) {
+        if (top && isScalar(pair.key) && skipKeys.includes(String(pair.key.value))) continue;
+        visit(pair.value, false);
+      }
+    } else if (isSeq(current)) {
+      for (const item of current.items) visit(item, false);
+    } else if (isScalar(current) && typeof current.value === 'string' && current.range) {
+      const start = current.range[0];
+      // $$ is an escaped literal $
+      const text = content.slice(start, current.range[1]).replace(/\$\$/g, '  ');
+      forEachExpansion(text, (exp) => {
+        const hasDefault = exp.operator !== undefined && /^:?-$/.test(exp.operator);
+        const value = hasDefault ? interpolateCompose(exp.word ?? '').value : undefined;
+        envVars.push({
+          name: exp.name,
+          file: filePath,
+          line: lineOf(start + exp.start),
+          language: 'docker-compose',
+          pattern: 'variable-reference',
+          ...(hasDefault && {
+            value: value || undefined,
+            valueSource: value ? 'docker-compose' : undefined,
+            isDefault: true,
+          }),
+          ...(exp.operator !== undefined && /^:?\?$/.test(exp.operator) && { required: true }),
+          ...(compose && { compose }),
+        });
+      });
+    }
+  };
+
+  visit(node, true);
   return envVars;
 }
+
+/**
+ * Value of a compose string with interpolation applied using only the defaults in it.
+ * value is undefined when it depends on a variable without a default; required is set
+ * when it uses a `${VAR:?message}` reference.
+ */
+function interpolateCompose(text: string): { value?: string; usedDefault: boolean; required: boolean } {
+  let unknown = false;
+  let usedDefault = false;
+  let required = false;
+  const pattern = /\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-?+])((?:[^{}]|\{[^{}]*\})*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+  const value = text.replace(pattern, (match, braced?: string, operator?: string, word?: string) => {
+    if (match === '$$') return '$';
+    if (braced && operator?.endsWith('-')) {
+      const fallback = interpolateCompose(word ?? '');
+      if (fallback.value === undefined) unknown = true;
+      usedDefault = true;
+      return fallback.value ?? '';
+    }
+    if (operator?.endsWith('?')) required = true;
+    unknown = true;
+    return '';
+  });
+
+  return unknown ? { usedDefault, required } : { value, usedDefault, required };
+}
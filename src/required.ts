@@ -0,0 +1,140 @@
+import { getUsageKind } from './check.js';
+import type { EnvVar, RequiredStatus } from './types.js';
+
+/**
+ * Rules whose read fails when the variable is unset: raises (os.environ[...], ENV.fetch, decouple
+ * config(), django-environ), throws (getRequiredProperty, getOrThrow), or stops the app or build
+ * from starting (Spring @Value, Quarkus @ConfigProperty and envalid without a default, env!())
+ */
+const REQUIRED_RULES = new Set([
+  'python-os-environ-bracket',
+  'python-os-environ-bracket-single',
+  'python-django-env',
+  'python-django-env-single',
+  'python-django-env-str',
+  'python-django-env-bool',
+  'python-django-env-int',
+  'python-django-env-float',
+  'python-django-env-list',
+  'python-django-env-json',
+  'python-django-env-url',
+  'python-django-config',
+  'python-django-config-single',
+  'ruby-env-fetch',
+  'ruby-env-fetch-single',
+  'java-spring-environment-required',
+  'java-spring-value-annotation',
+  'java-quarkus-configproperty',
+  'kotlin-quarkus-configproperty',
+  'js-nestjs-configservice-getorelse',
+  'js-envalid-str',
+  'js-envalid-bool',
+  'js-envalid-num',
+  'js-envalid-port',
+  'js-envalid-url',
+  'js-envalid-json',
+  'js-envalid-email',
+  'js-envalid-host',
+  'rust-env-macro',
+]);
+
+/**
+ * Rules that use the lenient accessor of an API that also has a failing one
+ * (os.environ.get vs os.environ[...], ENV[...] vs ENV.fetch, getProperty vs getRequiredProperty)
+ * or that supply a fallback the default capture doesn't record
+ */
+const OPTIONAL_RULES = new Set([
+  'python-os-getenv',
+  'python-os-getenv-single',
+  'python-os-environ-get',
+  'python-os-environ-get-single',
+  'python-getenv-or-set',
+  'python-getenv-or-set-single',
+  'go-os-lookupenv',
+  'ruby-env-bracket',
+  'ruby-env-bracket-single',
+  'java-spring-environment-get',
+]);
+
+/**
+ * Rule ids that read with a default (`*-default`, `*-with-fallback`, `.orElse`, `.unwrap_or`)
+ */
+const DEFAULT_RULE_RE = /default|fallback|-orelse$|-unwrap-or/;
+
+/**
+ * A default passed to a typed reader: envalid `port({ default: 3000 })`, django-environ `env.bool("X", default=False)`.
+ * Only the text up to the first `)` is checked, so a default on the next property doesn't count.
+ */
+const DEFAULT_ARGUMENT_RE = /\bdefault\s*[:=]/;
+
+/**
+ * Conversions that fail on a missing value, by rule prefix: `.unwrap()`, `.expect(...)` and `?` on
+ * Rust's env::var, Kotlin `!!`
+ */
+const FAILING_SUFFIXES: Record<string, RegExp> = {
+  'rust-': /^\s*(?:\.unwrap\(\)|\.expect\(|\?)/,
+  'kotlin-': /^\s*!!/,
+};
+const FAILING_PREFIX_RE = /\b(?:Objects\.requireNonNull|requireNotNull|checkNotNull)\(\s*$/;
+
+/**
+ * A block passed to Ruby's ENV.fetch supplies the default
+ */
+const BLOCK_DEFAULT_RE = /^\s*(?:\{|do\b)/;
+
+/**
+ * Whether a code read fails when the variable is unset, from the rule that matched and the source
+ * text around the match (`before` up to the match on its line, `after` the text following it)
+ */
+export function inferReadRequired(ruleId: string | undefined, isDefault: boolean, before: string, after: string): RequiredStatus {
+  if (isDefault || (ruleId && DEFAULT_RULE_RE.test(ruleId))) return false;
+  if (ruleId?.startsWith('ruby-env-fetch') && BLOCK_DEFAULT_RE.test(after)) return false;
+
+  if (ruleId && REQUIRED_RULES.has(ruleId)) {
+    return !DEFAULT_ARGUMENT_RE.test(after.split(')')[0]);
+  }
+  const failingSuffix = Object.entries(FAILING_SUFFIXES).find(([prefix]) => ruleId?.startsWith(prefix))?.[1];
+  if (FAILING_PREFIX_RE.test(before) || failingSuffix?.test(after)) return true;
+  if (ruleId && OPTIONAL_RULES.has(ruleId)) return false;
+  return 'unknown';
+}
+
+/**
+ * Fill in required for reads that don't have it yet: false when they fall back to a default,
+ * 'unknown' otherwise. Definitions (.env, k8s, ...) are left alone.
+ */
+export function classifyRequired(envVars: EnvVar[]): void {
+  for (const ev of envVars) {
+    if (ev.required !== undefined || getUsageKind(ev) === 'definition') continue;
+    ev.required = ev.isDefault ? false : 'unknown';
+  }
+}
+
+/**
+ * Required status of a variable across its reads: true if any read fails when it is unset,
+ * false if every read has a default or uses a lenient accessor, 'unknown' otherwise.
+ * Undefined when the variable is never read.
+ */
+export function resolveRequired(usages: EnvVar[]): RequiredStatus | undefined {
+  const statuses = usages.map((u) => u.required).filter((r): r is RequiredStatus => r !== undefined);
+  if (statuses.length === 0) return undefined;
+  if (statuses.includes(true)) return true;
+  return statuses.every((r) => r === false) ? false : 'unknown';
+}
+
+/**
+ * Required status per variable name (see resolveRequired), for variables that are read
+ */
+export function requiredByName(envVars: EnvVar[]): Record<string, RequiredStatus> {
+  const byName = new Map<string, EnvVar[]>();
+  for (const ev of envVars) {
+    byName.set(ev.name, [...(byName.get(ev.name) || []), ev]);
+  }
+
+  const required: Record<string, RequiredStatus> = {};
+  for (const [name, usages] of [...byName].sort(([a], [b]) => a.localeCompare(b))) {
+    const status = resolveRequired(usages);
+    if (status !== undefined) required[name] = status;
+  }
+  return required;
+}
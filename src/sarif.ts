@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { relative } from 'path';
+import { parse } from 'yaml';
+import { BUILTIN_RULES_PATH } from './scanner.js';
+import { getUsageKind } from './check.js';
+import type { EnvVar, ScanResult } from './types.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/skyhook-io/envvars-scan';
+
+export interface SarifOptions {
+  /** Tool version reported in the driver */
+  toolVersion?: string;
+}
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Rules for the non-code scanners (property files, .env, Dockerfile, compose, k8s, Helm, Terraform, CI, shell)
+ */
+const FILE_SCANNER_RULES: { id: string; description: string }[] = [
+  { id: 'properties-spring-placeholder', description: 'Property file placeholder ${VAR} or ${VAR:default}' },
+  { id: 'dotenv-definition', description: '.env file definition' },
+  { id: 'dockerfile-env', description: 'Dockerfile ENV instruction' },
+  { id: 'dockerfile-arg', description: 'Dockerfile ARG instruction' },
+  { id: 'dockerfile-run', description: 'Dockerfile RUN $VAR reference' },
+  { id: 'dockerfile-cmd', description: 'Dockerfile CMD $VAR reference' },
+  { id: 'dockerfile-entrypoint', description: 'Dockerfile ENTRYPOINT $VAR reference' },
+  { id: 'docker-compose-environment-definition', description: 'docker-compose environment definition' },
+  { id: 'docker-compose-variable-reference', description: 'docker-compose ${VAR} interpolation' },
+  { id: 'docker-compose-env-file', description: 'docker-compose env_file entry' },
+  { id: 'kubernetes-deployment', description: 'Kubernetes Deployment container env' },
+  { id: 'kubernetes-statefulset', description: 'Kubernetes StatefulSet container env' },
+  { id: 'kubernetes-daemonset', description: 'Kubernetes DaemonSet container env' },
+  { id: 'kubernetes-job', description: 'Kubernetes Job container env' },
+  { id: 'kubernetes-cronjob', description: 'Kubernetes CronJob container env' },
+  { id: 'kubernetes-pod', description: 'Kubernetes Pod container env' },
+  { id: 'kubernetes-replicaset', description: 'Kubernetes ReplicaSet container env' },
+  { id: 'kubernetes-configmap', description: 'Kubernetes ConfigMap data key' },
+  { id: 'kubernetes-secret', description: 'Kubernetes Secret data key' },
+  { id: 'helm-template-env', description: 'Helm template container env' },
+  { id: 'helm-values-env', description: 'Helm values env entry (range or toYaml)' },
+  { id: 'terraform-lambda-environment', description: 'Terraform aws_lambda_function environment variable' },
+  { id: 'terraform-ecs-environment', description: 'Terraform ECS container_definitions environment' },
+  { id: 'terraform-ecs-secrets', description: 'Terraform ECS container_definitions secret' },
+  { id: 'ecs-environment', description: 'ECS task definition environment' },
+  { id: 'ecs-secrets', description: 'ECS task definition secret' },
+  { id: 'github-actions-env', description: 'GitHub Actions env (workflow, job or step)' },
+  { id: 'github-actions-secret', description: 'GitHub Actions ${{ secrets.X }} reference' },
+  { id: 'github-actions-variable', description: 'GitHub Actions ${{ vars.X }} reference' },
+  { id: 'gitlab-ci-variables', description: 'GitLab CI variables entry' },
+  { id: 'shell-read', description: 'Shell script $VAR or ${VAR...} expansion' },
+  { id: 'shell-export', description: 'Shell script export VAR=value' },
+  { id: 'makefile-read', description: 'Makefile $(VAR) or recipe $$VAR reference' },
+  { id: 'makefile-default', description: 'Makefile VAR ?= default' },
+  { id: 'makefile-export', description: 'Makefile export VAR' },
+];
+
+/**
+ * Rule id for a finding: the semgrep rule id for code, language-pattern otherwise
+ */
+export function getRuleId(envVar: EnvVar): string {
+  if (envVar.ruleId) return envVar.ruleId;
+  return `${envVar.language}-${envVar.pattern}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * Convert a scan result to a SARIF 2.1.0 log
+ */
+export function toSarif(result: ScanResult, options: SarifOptions = {}): object {
+  const rules = loadRuleDescriptors();
+  const ruleIndex = new Map(rules.map((r, i) => [r.id, i]));
+
+  const results = result.envVars.map((ev) => {
+    const ruleId = getRuleId(ev);
+    if (!ruleIndex.has(ruleId)) {
+      // Custom patterns and scanners without a catalog entry
+      ruleIndex.set(ruleId, rules.length);
+      rules.push({ id: ruleId, name: ruleId, shortDescription: { text: `${ev.language} ${ev.pattern}` } });
+    }
+
+    const kind = getUsageKind(ev);
+    const region: Record<string, number> = { startLine: ev.line };
+    if (ev.column !== undefined) region.startColumn = ev.column;
+    if (ev.endLine !== undefined) region.endLine = ev.endLine;
+    if (ev.endColumn !== undefined) region.endColumn = ev.endColumn;
+
+    const uri = toUri(relative(result.path, ev.file));
+
+    return {
+      ruleId,
+      ruleIndex: ruleIndex.get(ruleId),
+      level: 'note',
+      message: {
+        text: kind === 'read'
+          ? `Environment variable ${ev.name} is read`
+          : `Environment variable ${ev.name} is defined`,
+      },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri, uriBaseId: '%SRCROOT%' },
+          region,
+        },
+      }],
+      partialFingerprints: { 'envVarLocation/v1': locationFingerprint(ev, ruleId, uri) },
+      properties: {
+        name: ev.name,
+        language: ev.language,
+        usage: kind,
+        ...(ev.valueSource && { valueSource: ev.valueSource }),
+        ...(ev.isDefault && { isDefault: true }),
+      },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'envvars-scan',
+          informationUri: INFORMATION_URI,
+          ...(options.toolVersion && { version: options.toolVersion }),
+          rules,
+        },
+      },
+      originalUriBaseIds: {
+        '%SRCROOT%': { uri: toUri(result.path.endsWith('/') ? result.path : result.path + '/', true) },
+      },
+      invocations: [{
+        executionSuccessful: result.errors.length === 0,
+        toolExecutionNotifications: result.errors.map((e) => ({
+          level: 'warning',
+          message: { text: e },
+        })),
+      }],
+      results,
+    }],
+  };
+}
+
+/**
+ * Rule descriptors from rules/rules.yaml plus the non-code scanners
+ */
+function loadRuleDescriptors(): SarifRule[] {
+  const rules: SarifRule[] = [];
+
+  try {
+    const parsed = parse(readFileSync(BUILTIN_RULES_PATH, 'utf-8')) as {
+      rules?: { id: string; patterns?: { pattern?: string }[]; languages?: string[] }[];
+    };
+    for (const rule of parsed.rules ?? []) {
+      const pattern = rule.patterns?.find((p) => p.pattern)?.pattern?.trim();
+      rules.push({
+        id: rule.id,
+        name: rule.id,
+        shortDescription: { text: pattern ? `Env var access: ${pattern.split('\n')[0]}` : rule.id },
+        properties: { languages: rule.languages ?? [] },
+      });
+    }
+  } catch {
+    // Fall back to descriptors generated from results
+  }
+
+  for (const rule of FILE_SCANNER_RULES) {
+    rules.push({ id: rule.id, name: rule.id, shortDescription: { text: rule.description } });
+  }
+
+  return rules;
+}
+
+/**
+ * Identifies one usage: the same variable read in two places gets two fingerprints
+ */
+function locationFingerprint(ev: EnvVar, ruleId: string, uri: string): string {
+  return createHash('sha256').update([ev.name, ruleId, uri, ev.line, ev.column ?? ''].join('\0')).digest('hex').slice(0, 16);
+}
+
+function toUri(path: string, absolute = false): string {
+  const encoded = path.split('/').map(encodeURIComponent).join('/');
+  return absolute ? `file://${encoded}` : encoded;
+}
@@ -3,7 +3,12 @@ import { existsSync, mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs
 import { tmpdir } from 'os';
 import { join, resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { EnvVar, ScanOptions, ScanResult, SemgrepOutput, UserConfig, ValueSource } from './types.js';
+import { loadUserConfig } from './config.js';
+import { runBuiltinEngine } from './builtin-engine.js';
+import { dynamicNamePattern } from './dynamic.js';
+import { inferReadRequired } from './required.js';
+import { inferEnvVarTypes, inferReadType } from './type-inference.js';
+import type { CustomPattern, DynamicEnvAccess, EnvVar, ScanOptions, ScanResult, SemgrepOutput, SemgrepResult, UserConfig } from './types.js';
 
 /**
  * Clean up a default value captured from Semgrep
@@ -12,6 +17,9 @@ import type { EnvVar, ScanOptions, ScanResult, SemgrepOutput, UserConfig, ValueS
 function cleanDefaultValue(value: string): string {
   let cleaned = value.trim();
 
+  // Handle .to_string(), .to_owned() or .into() (Rust) before unquoting
+  cleaned = cleaned.replace(/\.(to_string|to_owned|into)\(\)$/, '');
+
   // Remove surrounding quotes (single or double)
   if ((cleaned.startsWith('"') && cleaned.endsWith('"')) ||
       (cleaned.startsWith("'") && cleaned.endsWith("'"))) {
@@ -28,9 +36,6 @@ function cleanDefaultValue(value: string): string {
     cleaned = cleaned.slice(7, -1);
   }
 
-  // Handle .to_string() or .to_owned() (Rust)
-  cleaned = cleaned.replace(/\.(to_string|to_owned)\(\)$/, '');
-
   return cleaned;
 }
 
@@ -52,7 +57,10 @@ export const DEFAULT_EXCLUDE_PATTERNS = [
   'target',
 ];
 
-export const CONFIG_FILE_NAME = 'envvars-scan.yaml';
+export { CONFIG_FILE_NAME } from './config.js';
+
+/** Path of the semgrep rules shipped with the package */
+export const BUILTIN_RULES_PATH = join(__dirname, '..', 'rules', 'rules.yaml');
 
 export async function checkSemgrepInstalled(): Promise<boolean> {
   return new Promise((resolve) => {
@@ -62,17 +70,33 @@ export async function checkSemgrepInstalled(): Promise<boolean> {
   });
 }
 
+/**
+ * Merge the config's exclude patterns into the defaults
+ * excludePatterns replaces the defaults, includeExcludePatterns adds to them
+ */
+export function resolveExcludePatterns(
+  userConfig: UserConfig | null,
+  defaults: string[] = DEFAULT_EXCLUDE_PATTERNS
+): string[] {
+  if (userConfig?.excludePatterns) {
+    return [...userConfig.excludePatterns];
+  }
+  return [...defaults, ...(userConfig?.includeExcludePatterns ?? [])];
+}
+
 export async function scan(path: string, options: ScanOptions = {}): Promise<ScanResult> {
   const {
     filterUppercase = true,
     excludePatterns = DEFAULT_EXCLUDE_PATTERNS,
-    customRulesPath,
+    engine = 'auto',
   } = options;
 
-  // Verify semgrep is installed
-  if (!(await checkSemgrepInstalled())) {
-    throw new Error('semgrep not found in PATH. Install with: brew install semgrep');
+  // Pick the engine: semgrep when available, otherwise the built-in matcher
+  const semgrepInstalled = engine === 'builtin' ? false : await checkSemgrepInstalled();
+  if (engine === 'semgrep' && !semgrepInstalled) {
+    throw new Error('semgrep not found in PATH. Install with: brew install semgrep (or use --engine builtin)');
   }
+  const resolvedEngine = semgrepInstalled ? 'semgrep' : 'builtin';
 
   // Resolve absolute path
   const absPath = resolve(path);
@@ -80,115 +104,147 @@ export async function scan(path: string, options: ScanOptions = {}): Promise<Sca
     throw new Error(`Path does not exist: ${absPath}`);
   }
 
-  // Load built-in rules
-  const rulesPath = join(__dirname, '..', 'rules', 'rules.yaml');
-  let rulesContent = readFileSync(rulesPath, 'utf-8');
-
-  // Load and merge user config if exists
+  // Load user config if exists (throws ConfigError if invalid)
   const userConfig = loadUserConfig(absPath);
-  if (userConfig?.customPatterns?.length) {
-    const customRules = generateCustomRulesYaml(userConfig.customPatterns);
-    // Strip the "rules:" header from custom rules and append
-    const customRulesBody = customRules.replace(/^rules:\n/, '');
-    rulesContent = rulesContent + '\n' + customRulesBody;
-  }
 
-  // Write combined rules to temp file
-  const tempDir = mkdtempSync(join(tmpdir(), 'envvars-scan-'));
-  const tempRulesPath = join(tempDir, 'rules.yaml');
-  writeFileSync(tempRulesPath, rulesContent);
+  const allExcludes = resolveExcludePatterns(userConfig, excludePatterns);
 
-  try {
-    // Build semgrep command
-    const args = ['--config', tempRulesPath, '--json', '--quiet'];
+  const output = resolvedEngine === 'semgrep'
+    ? await runSemgrepScan(absPath, allExcludes, userConfig?.customPatterns)
+    : await runBuiltinEngine(absPath, allExcludes, userConfig?.customPatterns);
 
-    // Merge exclude patterns
-    const allExcludes = [...excludePatterns];
-    if (userConfig?.includeExcludePatterns) {
-      allExcludes.push(...userConfig.includeExcludePatterns);
+  // Parse results
+  const dynamicAccess: DynamicEnvAccess[] = [];
+  const result: ScanResult = {
+    path: absPath,
+    envVars: [],
+    errors: [],
+    dynamicAccess,
+    engine: resolvedEngine,
+  };
+
+  // Use a map to track results by key, preferring results with default values
+  const resultMap = new Map<string, { envVar: EnvVar; hasDefault: boolean }>();
+  const uppercaseRe = /^[A-Z][A-Z0-9_]*$/;
+
+  for (const r of output.results) {
+    const message = r.extra.message;
+
+    // Computed keys (process.env[key]) have no name; the message is the key expression
+    if (r.check_id.endsWith('-dynamic')) {
+      const { language, pattern, ruleId } = parseCheckId(r.check_id);
+      const namePattern = dynamicNamePattern(message);
+      dynamicAccess.push({
+        file: r.path,
+        line: r.start.line,
+        column: r.start.col,
+        language,
+        pattern,
+        ruleId,
+        expression: message,
+        ...(namePattern && { namePattern }),
+      });
+      continue;
     }
-    if (userConfig?.excludePatterns) {
-      // User override - replace defaults
-      allExcludes.length = 0;
-      allExcludes.push(...userConfig.excludePatterns);
+
+    // Check for default value separator (|||)
+    let envVarName: string;
+    let defaultValue: string | undefined;
+
+    if (message.includes('|||')) {
+      const parts = message.split('|||');
+      envVarName = parts[0];
+      defaultValue = cleanDefaultValue(parts[1]);
+    } else {
+      envVarName = message;
     }
 
-    for (const pattern of allExcludes) {
-      args.push('--exclude', pattern);
+    // Filter to uppercase only if enabled
+    if (filterUppercase && !uppercaseRe.test(envVarName)) {
+      continue;
     }
 
-    args.push(absPath);
+    const { language, pattern, ruleId } = parseCheckId(r.check_id);
+    const [before, after] = matchContext(r);
+    const readType = inferReadType(ruleId, before, after);
+
+    const envVar: EnvVar = {
+      name: envVarName,
+      file: r.path,
+      line: r.start.line,
+      column: r.start.col,
+      endLine: r.end.line,
+      endColumn: r.end.col,
+      language,
+      pattern,
+      ruleId,
+      value: defaultValue,
+      valueSource: defaultValue ? 'code-default' : undefined,
+      isDefault: !!defaultValue,
+      required: inferReadRequired(ruleId, !!defaultValue, before, after),
+      ...(readType && { ...readType, typeConfidence: 'high' }),
+    };
 
-    // Run semgrep
-    const output = await runSemgrep(args);
+    // Dedupe by key, but prefer results with default values
+    const key = `${envVarName}:${r.path}:${r.start.line}`;
+    const existing = resultMap.get(key);
 
-    // Parse results
-    const result: ScanResult = {
-      path: absPath,
-      envVars: [],
-      errors: [],
-    };
+    if (!existing) {
+      resultMap.set(key, { envVar, hasDefault: !!defaultValue });
+    } else if (defaultValue && !existing.hasDefault) {
+      // Replace with version that has a default value
+      resultMap.set(key, { envVar, hasDefault: true });
+    }
+  }
 
-    // Use a map to track results by key, preferring results with default values
-    const resultMap = new Map<string, { envVar: EnvVar; hasDefault: boolean }>();
-    const uppercaseRe = /^[A-Z][A-Z0-9_]*$/;
+  // Add all deduped results
+  for (const { envVar } of resultMap.values()) {
+    result.envVars.push(envVar);
+  }
+  inferEnvVarTypes(result.envVars);
 
-    for (const r of output.results) {
-      const message = r.extra.message;
+  // Collect errors
+  for (const e of output.errors) {
+    result.errors.push(e.message);
+  }
 
-      // Check for default value separator (|||)
-      let envVarName: string;
-      let defaultValue: string | undefined;
+  return result;
+}
 
-      if (message.includes('|||')) {
-        const parts = message.split('|||');
-        envVarName = parts[0];
-        defaultValue = cleanDefaultValue(parts[1]);
-      } else {
-        envVarName = message;
-      }
+/**
+ * Run semgrep with the built-in rules plus any custom patterns from the user config
+ */
+async function runSemgrepScan(
+  absPath: string,
+  excludePatterns: string[],
+  customPatterns: CustomPattern[] = []
+): Promise<SemgrepOutput> {
+  // Load built-in rules
+  let rulesContent = readFileSync(BUILTIN_RULES_PATH, 'utf-8');
 
-      // Filter to uppercase only if enabled
-      if (filterUppercase && !uppercaseRe.test(envVarName)) {
-        continue;
-      }
+  if (customPatterns.length) {
+    const customRules = generateCustomRulesYaml(customPatterns);
+    // Strip the "rules:" header from custom rules and append
+    const customRulesBody = customRules.replace(/^rules:\n/, '');
+    rulesContent = rulesContent + '\n' + customRulesBody;
+  }
 
-      const { language, pattern } = parseCheckId(r.check_id);
+  // Write combined rules to temp file
+  const tempDir = mkdtempSync(join(tmpdir(), 'envvars-scan-'));
+  const tempRulesPath = join(tempDir, 'rules.yaml');
+  writeFileSync(tempRulesPath, rulesContent);
 
-      const envVar: EnvVar = {
-        name: envVarName,
-        file: r.path,
-        line: r.start.line,
-        language,
-        pattern,
-        value: defaultValue,
-        valueSource: defaultValue ? 'code-default' : undefined,
-        isDefault: !!defaultValue,
-      };
-
-      // Dedupe by key, but prefer results with default values
-      const key = `${envVarName}:${r.path}:${r.start.line}`;
-      const existing = resultMap.get(key);
-
-      if (!existing) {
-        resultMap.set(key, { envVar, hasDefault: !!defaultValue });
-      } else if (defaultValue && !existing.hasDefault) {
-        // Replace with version that has a default value
-        resultMap.set(key, { envVar, hasDefault: true });
-      }
-    }
+  try {
+    // Build semgrep command
+    const args = ['--config', tempRulesPath, '--json', '--quiet'];
 
-    // Add all deduped results
-    for (const { envVar } of resultMap.values()) {
-      result.envVars.push(envVar);
+    for (const pattern of excludePatterns) {
+      args.push('--exclude', pattern);
     }
 
-    // Collect errors
-    for (const e of output.errors) {
-      result.errors.push(e.message);
-    }
+    args.push(absPath);
 
-    return result;
+    return await runSemgrep(args);
   } finally {
     // Cleanup temp files
     rmSync(tempDir, { recursive: true, force: true });
@@ -219,28 +275,34 @@ async function runSemgrep(args: string[]): Promise<SemgrepOutput> {
   });
 }
 
-function parseCheckId(checkId: string): { language: string; pattern: string } {
+/**
+ * Source text before and after a match on its first and last line (empty when the lines are not available)
+ */
+function matchContext(r: SemgrepResult): [string, string] {
+  const lines = (r.extra.lines ?? '').split('\n');
+  const before = lines[0].slice(0, r.start.col - 1);
+  const last = lines[r.end.line - r.start.line];
+  return [before, last === undefined ? '' : last.slice(r.end.col - 1)];
+}
+
+function parseCheckId(checkId: string): { language: string; pattern: string; ruleId: string } {
   // Check for custom patterns first
   if (checkId.includes('custom-')) {
     const idx = checkId.lastIndexOf('custom-');
-    return { language: 'custom', pattern: checkId.slice(idx) };
+    return { language: 'custom', pattern: checkId.slice(idx), ruleId: checkId.slice(idx) };
   }
 
   // Find the rule ID by looking for known language prefixes
   const langPrefixes = ['go-', 'js-', 'python-', 'java-', 'ruby-', 'rust-', 'csharp-', 'php-', 'kotlin-', 'scala-', 'properties-'];
 
-  let ruleId = checkId;
-  for (const prefix of langPrefixes) {
-    const idx = checkId.lastIndexOf(prefix);
-    if (idx !== -1) {
-      ruleId = checkId.slice(idx);
-      break;
-    }
-  }
+  // semgrep prefixes the id with the dotted config path; match the prefix at the start of the
+  // last segment only, so python-django-* isn't read as go-*
+  const lastSegment = checkId.slice(checkId.lastIndexOf('.') + 1);
+  const ruleId = langPrefixes.some((prefix) => lastSegment.startsWith(prefix)) ? lastSegment : checkId;
 
   const parts = ruleId.split('-');
   if (parts.length < 2) {
-    return { language: 'unknown', pattern: ruleId };
+    return { language: 'unknown', pattern: ruleId, ruleId };
   }
 
   const langMap: Record<string, string> = {
@@ -261,34 +323,7 @@ function parseCheckId(checkId: string): { language: string; pattern: string } {
   const language = langMap[lang] || lang;
   const pattern = parts.slice(1).join('.');
 
-  return { language, pattern };
-}
-
-function loadUserConfig(dir: string): UserConfig | null {
-  const configPath = join(dir, '.skyhook', CONFIG_FILE_NAME);
-  if (!existsSync(configPath)) {
-    return null;
-  }
-
-  try {
-    const content = readFileSync(configPath, 'utf-8');
-    // Simple YAML parsing for our limited use case
-    // For a real implementation, use a proper YAML parser
-    return parseSimpleYaml(content);
-  } catch {
-    return null;
-  }
-}
-
-function parseSimpleYaml(content: string): UserConfig {
-  // This is a simplified parser - in production, use js-yaml
-  // For now, we'll add js-yaml as a dependency
-  const config: UserConfig = {};
-
-  // Basic extraction - this should be replaced with proper yaml parsing
-  // TODO: Add js-yaml dependency for proper parsing
-
-  return config;
+  return { language, pattern, ruleId };
 }
 
 function generateCustomRulesYaml(patterns: { id: string; pattern: string; languages: string[] }[]): string {
@@ -0,0 +1,129 @@
+import { createHmac } from 'crypto';
+import type { EnvVar, MaskMode, ScanResult, SensitivityConfig, ValueSource } from './types.js';
+
+/**
+ * Name words that indicate a sensitive variable. A name is split into words on `_`, `-`, `.`
+ * and camelCase, so API_KEY and apiKey match `key` but MONKEY_COUNT and AUTHOR_NAME don't.
+ */
+export const DEFAULT_SENSITIVE_WORDS = [
+  'secret',
+  'secrets',
+  'password',
+  'passwd',
+  'passphrase',
+  'key',
+  'token',
+  'auth',
+  'credential',
+  'credentials',
+  'private',
+  'apikey',
+  'accesskey',
+  'secretkey',
+  'privatekey',
+];
+
+/**
+ * Value sources whose values are sensitive whatever the variable is called
+ */
+export const DEFAULT_SENSITIVE_SOURCES: ValueSource[] = ['k8s-secret'];
+
+/**
+ * Suffixes that make a run-together word sensitive (DBPASSWORD, GITHUBTOKEN); `key` is not
+ * one of them because too many ordinary words end in it
+ */
+const SENSITIVE_SUFFIXES = ['secret', 'password', 'passwd', 'token'];
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Words of a variable name, lower-cased: DB_PASSWORD → [db, password], githubToken → [github, token]
+ */
+export function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+/**
+ * Whether a variable's values should be masked: its name contains a sensitive word or matches
+ * one of config.patterns, or its value comes from one of the sensitive sources.
+ * Names in config.allowNames are never sensitive.
+ */
+export function isSensitiveVar(name: string, valueSource?: ValueSource, config: SensitivityConfig = {}): boolean {
+  if (config.allowNames?.includes(name)) return false;
+  if (valueSource && [...DEFAULT_SENSITIVE_SOURCES, ...(config.sources ?? [])].includes(valueSource)) return true;
+
+  const words = nameWords(name);
+  if (words.some((word) => DEFAULT_SENSITIVE_WORDS.includes(word) || SENSITIVE_SUFFIXES.some((s) => word.endsWith(s)))) {
+    return true;
+  }
+
+  return (config.patterns ?? []).some((source) => {
+    let pattern = compiledPatterns.get(source);
+    if (!pattern) {
+      pattern = new RegExp(source, 'i');
+      compiledPatterns.set(source, pattern);
+    }
+    return pattern.test(name);
+  });
+}
+
+/**
+ * Mask a value for display:
+ * - partial: first/last 2 characters (1 for short values), e.g. sk****89
+ * - full: ****
+ * - hash: a short HMAC-SHA256 fingerprint, e.g. hmac:1a2b3c4d5e6f (equal values get equal fingerprints under the same key).
+ *   Keyed so that short or guessable values can't be recovered by hashing candidates
+ * - omit: undefined
+ */
+export function maskValue(value: string, mode: MaskMode = 'partial', hashKey?: string): string | undefined {
+  switch (mode) {
+    case 'omit':
+      return undefined;
+    case 'full':
+      return '****';
+    case 'hash':
+      if (!hashKey) throw new Error('Hash masks need a hashKey');
+      return `hmac:${createHmac('sha256', hashKey).update(value).digest('hex').slice(0, 12)}`;
+    case 'partial':
+      if (value.length <= 4) return '****';
+      if (value.length <= 8) return value.slice(0, 1) + '****' + value.slice(-1);
+      return value.slice(0, 2) + '****' + value.slice(-2);
+  }
+}
+
+/**
+ * Display form of a value: masked with config.mask (default partial) when the variable is sensitive
+ */
+export function formatSensitiveValue(
+  name: string,
+  value: string,
+  valueSource?: ValueSource,
+  config: SensitivityConfig = {}
+): string | undefined {
+  return isSensitiveVar(name, valueSource, config) ? maskValue(value, config.mask, config.hashKey) : value;
+}
+
+/**
+ * Copy of a scan result with sensitive values (and raw values) masked, for JSON output.
+ * The mode is recorded in `mask` so compare can tell whether changes may be hidden.
+ */
+export function maskScanResult(result: ScanResult, config: SensitivityConfig = {}): ScanResult {
+  const envVars = result.envVars.map((ev): EnvVar => {
+    if (ev.value === undefined && ev.rawValue === undefined) return ev;
+    if (!isSensitiveVar(ev.name, ev.valueSource, config)) return ev;
+    const masked: EnvVar = { ...ev };
+    for (const field of ['value', 'rawValue'] as const) {
+      const value = ev[field];
+      if (value === undefined) continue;
+      const display = maskValue(value, config.mask, config.hashKey);
+      if (display === undefined) delete masked[field];
+      else masked[field] = display;
+    }
+    return masked;
+  });
+  return { ...result, envVars, mask: config.mask ?? 'partial' };
+}
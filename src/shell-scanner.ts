@@ -0,0 +1,427 @@
+import { readFileSync } from 'fs';
+import { glob } from 'glob';
+import type { EnvVar } from './types.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import { loadUserConfig } from './config.js';
+
+/**
+ * Variables set by the shell or make itself, never by the deployment environment.
+ * Extended with `shellIgnore` in the user config.
+ */
+export const DEFAULT_SHELL_IGNORE = [
+  'PATH', 'HOME', 'PWD', 'OLDPWD', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'LANG', 'LC_ALL', 'TMPDIR',
+  'IFS', 'PS1', 'PS2', 'PS4', 'UID', 'EUID', 'PPID', 'HOSTNAME', 'HOSTTYPE', 'OSTYPE', 'SHLVL',
+  'RANDOM', 'LINENO', 'SECONDS', 'REPLY', 'OPTARG', 'OPTIND', 'PIPESTATUS', 'FUNCNAME',
+  'BASH', 'BASH_SOURCE', 'BASH_LINENO', 'BASH_REMATCH', 'BASH_VERSION',
+  'MAKE', 'MAKEFLAGS', 'MAKELEVEL', 'MAKECMDGOALS', 'MAKEFILE_LIST', 'CURDIR',
+];
+
+const SHELL_FILE_PATTERNS = ['**/*.sh', '**/*.bash'];
+const MAKEFILE_PATTERNS = ['**/Makefile', '**/makefile', '**/GNUmakefile', '**/*.mk'];
+
+/**
+ * A parameter expansion: $NAME or ${NAME[op word]}
+ */
+export interface Expansion {
+  name: string;
+  start: number;
+  /** `-`, `:-`, `=`, `:=`, `?`, `:?`, `+`, `:+` */
+  operator?: string;
+  word?: string;
+  /** Where to continue scanning (inside the word, so nested expansions are found) */
+  next: number;
+}
+
+/**
+ * Shell quoting and heredoc state carried across lines
+ */
+interface ShellState {
+  inSingle: boolean;
+  inDouble: boolean;
+  heredoc?: { delimiter: string; stripTabs: boolean; expand: boolean };
+  /** Names bound by the script itself (assignments, for/read/local), which are not env reads */
+  locals: Set<string>;
+  /** Last literal value assigned to each name, used by a later bare `export NAME` */
+  assigned: Map<string, string | undefined>;
+}
+
+/**
+ * Scans shell scripts (*.sh, *.bash) and Makefiles for env var usage:
+ * - reads: `$VAR`, `${VAR}`, `${VAR:-default}` / `${VAR:=default}` (default captured as isDefault),
+ *   `${VAR:?message}` (marked required), and `$(VAR)` / `$$VAR` in Makefiles
+ * - definitions: `export VAR=value` (and `export VAR = value` in Makefiles)
+ * - Makefile `VAR ?= default`, a read that falls back to the default
+ * Variables the script sets itself (plain assignments, for/read/local) and names in
+ * DEFAULT_SHELL_IGNORE or the user config's `shellIgnore` are skipped
+ */
+export async function scanShellScripts(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  ignore?: string[]
+): Promise<EnvVar[]> {
+  const envVars: EnvVar[] = [];
+  const ignorePatterns = excludePatterns.map((p) => `**/${p}/**`);
+  const ignored = new Set(ignore ?? [...DEFAULT_SHELL_IGNORE, ...(loadUserConfig(basePath)?.shellIgnore ?? [])]);
+
+  const shellFiles = await glob(SHELL_FILE_PATTERNS, {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  for (const file of shellFiles.sort()) {
+    const vars = scanShellScript(file, ignored);
+    envVars.push(...vars);
+  }
+
+  const makefiles = await glob(MAKEFILE_PATTERNS, {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  for (const file of makefiles.sort()) {
+    const vars = scanMakefile(file, ignored);
+    envVars.push(...vars);
+  }
+
+  return envVars;
+}
+
+function scanShellScript(filePath: string, ignored: Set<string>): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const lines = readFileSync(filePath, 'utf-8').split('\n');
+  const state: ShellState = { inSingle: false, inDouble: false, locals: new Set(), assigned: new Map() };
+
+  for (let i = 0; i < lines.length; i++) {
+    for (const ev of scanShellLine(lines[i], state, 'shell', filePath, i + 1)) {
+      if (!ignored.has(ev.name)) envVars.push(ev);
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * Reads and exports on one line of shell. A name bound on the line only hides reads after
+ * the binding, so `DB_HOST=${DB_HOST:-localhost}` still reports the read.
+ */
+function scanShellLine(line: string, state: ShellState, language: string, file: string, lineNo: number): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const bindings: { name: string; at: number }[] = [];
+  const read = (exp: Expansion) => {
+    if (state.locals.has(exp.name)) return;
+    if (bindings.some((b) => b.name === exp.name && b.at <= exp.start)) return;
+    envVars.push(shellRead(exp, language, file, lineNo));
+  };
+
+  const heredoc = state.heredoc;
+  if (heredoc) {
+    const text = heredoc.stripTabs ? line.replace(/^\t+/, '') : line;
+    if (text === heredoc.delimiter) {
+      state.heredoc = undefined;
+    } else if (heredoc.expand) {
+      forEachExpansion(line, read);
+    }
+    return envVars;
+  }
+
+  // Strip quoted-out and commented text, keeping what the shell expands
+  let code = '';
+  let pendingHeredoc: ShellState['heredoc'];
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (state.inSingle) {
+      if (ch === "'") state.inSingle = false;
+      code += ' ';
+      continue;
+    }
+    if (ch === '\\') {
+      code += '  ';
+      i++;
+      continue;
+    }
+    if (!state.inDouble && ch === "'") {
+      state.inSingle = true;
+      code += ' ';
+      continue;
+    }
+    if (ch === '"') state.inDouble = !state.inDouble;
+    if (!state.inDouble && ch === '#' && (i === 0 || /[\s;]/.test(line[i - 1]))) break;
+    if (!state.inDouble && ch === '<' && line[i + 1] === '<') {
+      const match = /^<<(-?)\s*(['"]?)([A-Za-z_][A-Za-z0-9_]*)\2/.exec(line.slice(i));
+      if (match) {
+        pendingHeredoc = { delimiter: match[3], stripTabs: match[1] === '-', expand: !match[2] };
+        code += ' '.repeat(match[0].length);
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    code += ch;
+  }
+
+  // Statements: exports are definitions, everything else the script binds is a local.
+  // `code` is index-aligned with `line`, so values are read from the original text.
+  const statementStart = String.raw`(?:^\s*|[;&|({!]\s*|\b(?:then|do|else|while|until|if)\s+)`;
+  const exportPattern = new RegExp(`${statementStart}(?:export|declare\\s+-x|typeset\\s+-x)(?=\\s)`, 'g');
+  for (const match of code.matchAll(exportPattern)) {
+    let pos = match.index! + match[0].length;
+    for (;;) {
+      while (/\s/.test(code[pos] ?? '')) pos++;
+      if (pos >= code.length || /[;&|]/.test(code[pos])) break;
+      const word = readShellWord(line, pos);
+      pos = word.end;
+      if (word.text.startsWith('-')) continue;
+      const def = /^([A-Za-z_][A-Za-z0-9_]*)(?:=([\s\S]*))?$/.exec(word.text);
+      if (!def) break;
+
+      const [, name, raw] = def;
+      const value = raw !== undefined ? literalShellValue(raw) : state.assigned.get(name);
+      envVars.push({
+        name,
+        file,
+        line: lineNo,
+        language,
+        pattern: 'export',
+        value: value || undefined,
+        valueSource: value ? 'shell-export' : undefined,
+      });
+      if (raw !== undefined) {
+        bindings.push({ name, at: word.end });
+        state.assigned.set(name, value);
+      }
+    }
+  }
+
+  const assignmentPattern = new RegExp(`${statementStart}([A-Za-z_][A-Za-z0-9_]*)=`, 'g');
+  for (const match of code.matchAll(assignmentPattern)) {
+    const name = match[1];
+    const word = readShellWord(line, match.index! + match[0].length);
+    bindings.push({ name, at: word.end });
+    state.assigned.set(name, literalShellValue(word.text));
+  }
+
+  const bindingPattern = new RegExp(`${statementStart}(?:for\\s+([A-Za-z_][A-Za-z0-9_]*)\\s+in\\b|(local|readonly|declare|typeset|read)\\s+([^;&|]*))`, 'g');
+  for (const match of code.matchAll(bindingPattern)) {
+    const at = match.index! + match[0].length;
+    if (match[1]) {
+      bindings.push({ name: match[1], at });
+      continue;
+    }
+    const words = match[3].trim().split(/\s+/);
+    for (let w = 0; w < words.length; w++) {
+      if (words[w].startsWith('-')) {
+        // read -p prompt, -d delim, ... take an argument
+        if (match[2] === 'read' && /^-[pdnNtu]$/.test(words[w])) w++;
+        continue;
+      }
+      const name = /^([A-Za-z_][A-Za-z0-9_]*)/.exec(words[w])?.[1];
+      if (name) bindings.push({ name, at });
+    }
+  }
+
+  forEachExpansion(code, read);
+  for (const { name } of bindings) state.locals.add(name);
+
+  if (pendingHeredoc) state.heredoc = pendingHeredoc;
+  return envVars;
+}
+
+function shellRead(exp: Expansion, language: string, file: string, line: number): EnvVar {
+  const hasDefault = exp.operator !== undefined && /^:?[-=]$/.test(exp.operator);
+  const value = hasDefault ? literalShellValue(exp.word ?? '') : undefined;
+  return {
+    name: exp.name,
+    file,
+    line,
+    language,
+    pattern: 'read',
+    ...(hasDefault && {
+      value: value || undefined,
+      valueSource: value ? 'shell-default' : undefined,
+      isDefault: true,
+    }),
+    ...(exp.operator !== undefined && /^:?\?$/.test(exp.operator) && { required: true }),
+  };
+}
+
+/**
+ * Call fn for every $NAME / ${NAME...} expansion in text (special parameters like $1 and $@ are skipped)
+ */
+export function forEachExpansion(text: string, fn: (exp: Expansion) => void): void {
+  let i = text.indexOf('$');
+  while (i !== -1) {
+    const exp = readExpansion(text, i);
+    if (exp) fn(exp);
+    i = text.indexOf('$', exp ? exp.next : i + 1);
+  }
+}
+
+function readExpansion(text: string, start: number): Expansion | undefined {
+  // $_ is the last argument of the previous command
+  const simple = /^\$([A-Za-z_][A-Za-z0-9_]*)/.exec(text.slice(start));
+  if (simple) return simple[1] === '_' ? undefined : { name: simple[1], start, next: start + simple[0].length };
+  if (text[start + 1] !== '{') return undefined;
+
+  // Find the closing brace, skipping nested ${...}
+  let depth = 1;
+  let end = start + 2;
+  for (; end < text.length && depth > 0; end++) {
+    if (text[end] === '{' && text[end - 1] === '$') depth++;
+    else if (text[end] === '}') depth--;
+  }
+  const inner = text.slice(start + 2, depth === 0 ? end - 1 : end);
+
+  const match = /^[#!]?([A-Za-z_][A-Za-z0-9_]*)(:?[-=?+])?/.exec(inner);
+  if (!match) return undefined;
+  if (!match[2]) return { name: match[1], start, next: start + 2 + match[0].length };
+
+  const word = inner.slice(match[0].length);
+  return { name: match[1], start, operator: match[2], word, next: start + 2 + match[0].length };
+}
+
+/**
+ * The value of an assignment or default word, undefined if it expands anything
+ */
+export function literalShellValue(raw: string): string | undefined {
+  let value = raw.trim();
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+    if (value[0] === "'") return value.slice(1, -1);
+    value = value.slice(1, -1);
+  }
+  return /[$`]/.test(value) ? undefined : value;
+}
+
+/**
+ * One shell word starting at pos (quotes kept), ending at unquoted whitespace or ; & |
+ */
+function readShellWord(line: string, pos: number): { text: string; end: number } {
+  let end = pos;
+  let quote: string | undefined;
+  for (; end < line.length; end++) {
+    const ch = line[end];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '\\') {
+      end++;
+    } else if (/[\s;&|]/.test(ch)) {
+      break;
+    }
+  }
+  return { text: line.slice(pos, end), end };
+}
+
+function scanMakefile(filePath: string, ignored: Set<string>): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const lines = readFileSync(filePath, 'utf-8').split('\n');
+  const language = 'makefile';
+
+  // Make expands lazily, so a variable assigned anywhere in the file is a make variable
+  const makeVars = new Set<string>();
+  for (const line of lines) {
+    const assign = /^\s*(?:override\s+)?(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*(?::{1,3}|\+|!)?=/.exec(line);
+    if (assign) makeVars.add(assign[1]);
+    const define = /^\s*define\s+([A-Za-z_][A-Za-z0-9_]*)/.exec(line);
+    if (define) makeVars.add(define[1]);
+  }
+
+  const push = (ev: EnvVar) => {
+    if (!ignored.has(ev.name)) envVars.push(ev);
+  };
+
+  let inDefine = false;
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    let line = lines[i];
+    // Join continuation lines, reporting everything on the first line
+    while (line.endsWith('\\') && i + 1 < lines.length) {
+      line = line.slice(0, -1) + ' ' + lines[++i];
+    }
+
+    if (inDefine) {
+      if (/^\s*endef\b/.test(line)) inDefine = false;
+      continue;
+    }
+
+    if (line.startsWith('\t')) {
+      // Recipe: $(VAR) is expanded by make, $$VAR by the shell (each line runs in its own shell)
+      for (const name of makeReferences(line)) {
+        if (!makeVars.has(name)) push(makeRead(name, filePath, lineNo));
+      }
+      const shellText = line.replace(/\$\$|\$/g, (m) => (m === '$$' ? '$' : '\0'));
+      const state: ShellState = { inSingle: false, inDouble: false, locals: new Set(), assigned: new Map() };
+      for (const ev of scanShellLine(shellText, state, language, filePath, lineNo)) push(ev);
+      continue;
+    }
+
+    const code = line.replace(/(^|[^\\])#.*$/, '$1');
+    if (/^\s*define\s/.test(code)) {
+      inDefine = true;
+      continue;
+    }
+
+    const conditional = /^\s*if(n?)def\s+([A-Za-z_][A-Za-z0-9_]*)/.exec(code);
+    if (conditional && !makeVars.has(conditional[2])) {
+      push(makeRead(conditional[2], filePath, lineNo));
+    }
+
+    const exported = /^\s*export\s+(.*)$/.exec(code);
+    if (exported) {
+      const assign = /^([A-Za-z_][A-Za-z0-9_]*)\s*(?::{1,3}|\?|\+|!)?=\s*(.*)$/.exec(exported[1].trim());
+      const names = assign ? [assign[1]] : exported[1].trim().split(/\s+/).filter((n) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(n));
+      const value = assign && !assign[2].includes('$') ? assign[2].trim() : undefined;
+      for (const name of names) {
+        push({
+          name,
+          file: filePath,
+          line: lineNo,
+          language,
+          pattern: 'export',
+          value: value || undefined,
+          valueSource: value ? 'shell-export' : undefined,
+        });
+      }
+    }
+
+    // VAR ?= default: only takes effect when VAR is not already set in the environment
+    const conditionalAssign = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*\?=\s*(.*)$/.exec(code);
+    if (conditionalAssign) {
+      const value = conditionalAssign[2].includes('$') ? undefined : conditionalAssign[2].trim();
+      push({
+        name: conditionalAssign[1],
+        file: filePath,
+        line: lineNo,
+        language,
+        pattern: 'default',
+        value: value || undefined,
+        valueSource: value ? 'shell-default' : undefined,
+        isDefault: true,
+      });
+    }
+
+    for (const name of makeReferences(code)) {
+      if (!makeVars.has(name)) push(makeRead(name, filePath, lineNo));
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * Names referenced as $(NAME) or ${NAME}; function calls like $(shell ...) have arguments and don't match
+ */
+function makeReferences(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(/\$\$|\$[({]([A-Za-z_][A-Za-z0-9_]*)[)}]/g)) {
+    if (match[1]) names.push(match[1]);
+  }
+  return names;
+}
+
+function makeRead(name: string, file: string, line: number): EnvVar {
+  return { name, file, line, language: 'makefile', pattern: 'read' };
+}
@@ -0,0 +1,280 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { glob } from 'glob';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Node, YAMLMap } from 'yaml';
+import type { EnvVar } from './types.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './scanner.js';
+import { HclParseError, getAttribute, parseHcl } from './hcl.js';
+import type { HclAttribute, HclBody, HclValue } from './hcl.js';
+
+/**
+ * Literal values of var.x / local.x in a Terraform module
+ */
+type ModuleValues = Map<string, string>;
+
+/**
+ * Scans Terraform and ECS task definitions for env var definitions:
+ * - aws_lambda_function `environment { variables = {...} }`
+ * - aws_ecs_task_definition `container_definitions` (jsonencode or heredoc JSON)
+ * - ECS task-definition JSON files (`containerDefinitions`, or a list of container definitions)
+ * var.x and local.x values are resolved from variable defaults, locals and *.tfvars
+ */
+export async function scanTerraformFiles(
+  basePath: string,
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  errors: string[] = []
+): Promise<EnvVar[]> {
+  const envVars: EnvVar[] = [];
+  // Downloaded modules and providers live in .terraform
+  const ignorePatterns = [...excludePatterns, '.terraform'].map((p) => `**/${p}/**`);
+
+  const tfFiles = await glob('**/*.tf', {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  const modules = new Map<string, { file: string; body: HclBody }[]>();
+  for (const file of tfFiles.sort()) {
+    try {
+      const body = parseHcl(readFileSync(file, 'utf-8'));
+      const dir = dirname(file);
+      modules.set(dir, [...(modules.get(dir) || []), { file, body }]);
+    } catch (error) {
+      if (error instanceof HclParseError) {
+        errors.push(`${file}:${error.line}: invalid HCL: ${error.message}`);
+      }
+    }
+  }
+
+  for (const [dir, files] of modules) {
+    const values = await loadModuleValues(dir, files.map((f) => f.body));
+    for (const { file, body } of files) {
+      envVars.push(...scanTerraformBody(body, file, values));
+    }
+  }
+
+  const jsonFiles = await glob('**/*.{json,json.tpl,json.tftpl}', {
+    cwd: basePath,
+    ignore: ignorePatterns,
+    nodir: true,
+    absolute: true,
+  });
+
+  for (const file of jsonFiles.sort()) {
+    try {
+      const content = readFileSync(file, 'utf-8');
+      // Cheap check before parsing every JSON file in the repo
+      if (!/"(containerDefinitions|environment|secrets)"\s*:/.test(content)) continue;
+      envVars.push(...scanTaskDefinitionJson(content, file, 'ecs', 0));
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * Collect variable defaults, locals and tfvars values for a module directory
+ */
+async function loadModuleValues(dir: string, bodies: HclBody[]): Promise<ModuleValues> {
+  const values: ModuleValues = new Map();
+
+  for (const body of bodies) {
+    for (const block of body.blocks) {
+      if (block.type === 'variable' && block.labels[0]) {
+        const literal = literalValue(getAttribute(block.body, 'default')?.value);
+        if (literal !== undefined) values.set(`var.${block.labels[0]}`, literal);
+      } else if (block.type === 'locals') {
+        for (const attr of block.body.attributes) {
+          const literal = literalValue(attr.value);
+          if (literal !== undefined) values.set(`local.${attr.key}`, literal);
+        }
+      }
+    }
+  }
+
+  // terraform.tfvars, then *.auto.tfvars in lexical order, the same order terraform applies them
+  const tfvars = await glob('{terraform.tfvars,*.auto.tfvars}', { cwd: dir, nodir: true });
+  const ordered = tfvars.sort((a, b) => (a === 'terraform.tfvars' ? -1 : b === 'terraform.tfvars' ? 1 : a.localeCompare(b)));
+  for (const name of ordered) {
+    try {
+      const body = parseHcl(readFileSync(resolve(dir, name), 'utf-8'));
+      for (const attr of body.attributes) {
+        const literal = literalValue(attr.value);
+        if (literal !== undefined) values.set(`var.${attr.key}`, literal);
+      }
+    } catch {
+      // Ignore tfvars that can't be parsed
+    }
+  }
+
+  return values;
+}
+
+function scanTerraformBody(body: HclBody, file: string, values: ModuleValues): EnvVar[] {
+  const envVars: EnvVar[] = [];
+
+  for (const block of body.blocks) {
+    if (block.type !== 'resource') continue;
+    const [resourceType] = block.labels;
+
+    if (resourceType === 'aws_lambda_function') {
+      for (const environment of block.body.blocks.filter((b) => b.type === 'environment')) {
+        const variables = getAttribute(environment.body, 'variables')?.value;
+        if (variables?.type !== 'object') continue;
+        for (const item of variables.items) {
+          const value = resolveValue(item.value, values);
+          envVars.push({
+            name: item.key,
+            file,
+            line: item.line,
+            language: 'terraform',
+            pattern: 'lambda-environment',
+            value,
+            valueSource: value !== undefined ? 'lambda-environment' : undefined,
+          });
+        }
+      }
+    }
+
+    if (resourceType === 'aws_ecs_task_definition') {
+      const definitions = getAttribute(block.body, 'container_definitions');
+      if (definitions) {
+        envVars.push(...scanContainerDefinitions(definitions, file, values));
+      }
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * container_definitions = jsonencode([...]) or a heredoc/string of JSON
+ */
+function scanContainerDefinitions(attr: HclAttribute, file: string, values: ModuleValues): EnvVar[] {
+  let value = attr.value;
+  if (value.type === 'call' && value.name === 'jsonencode' && value.args[0]) {
+    value = value.args[0];
+  }
+
+  if (value.type === 'string') {
+    return scanTaskDefinitionJson(value.value, file, 'terraform', value.line - 1, values);
+  }
+
+  const envVars: EnvVar[] = [];
+  if (value.type !== 'tuple') return envVars;
+
+  for (const container of value.items) {
+    if (container.type !== 'object') continue;
+    for (const [key, source] of [['environment', 'ecs-environment'], ['secrets', 'ecs-secret']] as const) {
+      const list = getAttribute(container, key)?.value;
+      if (list?.type !== 'tuple') continue;
+      for (const entry of list.items) {
+        if (entry.type !== 'object') continue;
+        const name = literalValue(getAttribute(entry, 'name')?.value);
+        if (!name) continue;
+        const raw = getAttribute(entry, key === 'secrets' ? 'valueFrom' : 'value')?.value;
+        const resolved = raw ? resolveValue(raw, values) : undefined;
+        envVars.push({
+          name,
+          file,
+          line: entry.line,
+          language: 'terraform',
+          pattern: `ecs-${key}`,
+          value: resolved,
+          valueSource: resolved !== undefined ? source : undefined,
+        });
+      }
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * Env entries in task-definition JSON: either { containerDefinitions: [...] } or a bare list of containers
+ */
+function scanTaskDefinitionJson(
+  content: string,
+  file: string,
+  language: string,
+  lineOffset: number,
+  values?: ModuleValues
+): EnvVar[] {
+  const envVars: EnvVar[] = [];
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) return envVars;
+
+  const root = doc.contents;
+  const containers = isMap(root) ? root.get('containerDefinitions', true) : root;
+  if (!isSeq(containers)) return envVars;
+
+  const lineOf = (node: Node) => (node.range ? lineCounter.linePos(node.range[0]).line : 1) + lineOffset;
+  const prefix = language === 'terraform' ? 'ecs-' : '';
+
+  for (const container of containers.items) {
+    if (!isMap(container)) continue;
+    for (const [key, source] of [['environment', 'ecs-environment'], ['secrets', 'ecs-secret']] as const) {
+      const list = (container as YAMLMap).get(key, true);
+      if (!isSeq(list)) continue;
+      for (const entry of list.items) {
+        if (!isMap(entry)) continue;
+        const name = entry.get('name');
+        if (typeof name !== 'string') continue;
+        const rawNode = entry.get(key === 'secrets' ? 'valueFrom' : 'value', true);
+        let value = isScalar(rawNode) && rawNode.value !== null ? String(rawNode.value) : undefined;
+        if (value !== undefined && values) {
+          value = resolveInterpolation(value, values);
+        }
+        envVars.push({
+          name,
+          file,
+          line: lineOf(entry),
+          language,
+          pattern: `${prefix}${key}`,
+          value,
+          valueSource: value !== undefined ? source : undefined,
+        });
+      }
+    }
+  }
+
+  return envVars;
+}
+
+/**
+ * String value of a literal (no interpolation), undefined otherwise
+ */
+function literalValue(value: HclValue | undefined): string | undefined {
+  if (!value) return undefined;
+  if (value.type === 'string') return value.value.includes('${') ? undefined : value.value;
+  if (value.type === 'number' || value.type === 'bool') return value.value;
+  return undefined;
+}
+
+/**
+ * A literal, var.x / local.x reference or "${var.x}" template resolved against module values
+ */
+function resolveValue(value: HclValue, values: ModuleValues): string | undefined {
+  if (value.type === 'expr') return values.get(value.text);
+  if (value.type === 'string') return resolveInterpolation(value.value, values);
+  return literalValue(value);
+}
+
+/**
+ * Substitute ${var.x} / ${local.x}; undefined if anything else is interpolated
+ */
+function resolveInterpolation(template: string, values: ModuleValues): string | undefined {
+  let unresolved = false;
+  const rendered = template.replace(/\$\{\s*([^}]*?)\s*\}/g, (_, ref: string) => {
+    const value = values.get(ref);
+    if (value === undefined) unresolved = true;
+    return value ?? '';
+  });
+  return unresolved ? undefined : rendered;
+}
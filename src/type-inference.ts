@@ -0,0 +1,171 @@
+import type { EnvVar, EnvVarType, TypeConfidence, TypeConflict, TypeSource } from './types.js';
+
+/**
+ * Types implied by the rule that matched
+ */
+const RULE_TYPES: Record<string, EnvVarType> = {
+  'go-viper-getstring': 'string',
+  'go-viper-getbool': 'bool',
+  'go-viper-getint': 'int',
+  'go-viper-getint64': 'int',
+  'go-viper-getduration': 'duration',
+  'go-viper-getfloat64': 'float',
+  'js-envalid-str': 'string',
+  'js-envalid-bool': 'bool',
+  'js-envalid-num': 'float',
+  'js-envalid-port': 'int',
+  'js-envalid-url': 'url',
+  'js-envalid-json': 'json',
+  'js-envalid-email': 'string',
+  'js-envalid-host': 'string',
+  'python-django-env-str': 'string',
+  'python-django-env-bool': 'bool',
+  'python-django-env-int': 'int',
+  'python-django-env-float': 'float',
+  'python-django-env-list': 'list',
+  'python-django-env-json': 'json',
+  'python-django-env-url': 'url',
+};
+
+/**
+ * Parse/cast calls wrapped around a read: parseInt(process.env.X), int(os.getenv("X"))
+ */
+const CAST_PREFIXES: { type: EnvVarType; pattern: RegExp }[] = [
+  {
+    type: 'int',
+    pattern: /\b(?:(?:Number\.)?parseInt|int|strconv\.Atoi|strconv\.Parse(?:Int|Uint)|Integer\.(?:parseInt|valueOf)|Long\.(?:parseLong|valueOf)|int\.Parse|Convert\.ToInt(?:32|64)|intval)\(\s*$/,
+  },
+  {
+    type: 'float',
+    pattern: /\b(?:(?:Number\.)?parseFloat|Number|float|strconv\.ParseFloat|Double\.(?:parseDouble|valueOf)|Float\.parseFloat|double\.Parse|floatval)\(\s*$/,
+  },
+  { type: 'bool', pattern: /\b(?:Boolean|bool|strconv\.ParseBool|Boolean\.(?:parseBoolean|valueOf)|bool\.Parse)\(\s*$/ },
+  { type: 'duration', pattern: /\b(?:time\.ParseDuration|ms)\(\s*$/ },
+  { type: 'json', pattern: /\b(?:JSON\.parse|json\.loads)\(\s*$/ },
+  { type: 'url', pattern: /(?:\bnew URL|\burlparse|\burl\.Parse|\bURI\.parse|\bnew URI)\(\s*$/ },
+];
+
+/**
+ * Conversions applied to the result of a read: ENV["X"].to_i, getenv("X").split(","), == "true"
+ */
+const CAST_SUFFIXES: { type: EnvVarType; pattern: RegExp }[] = [
+  { type: 'int', pattern: /^\s*(?:\.to_i\b|\.toInt\(\)|(?:\.unwrap\(\))?\.parse::<[iu](?:8|16|32|64|128|size)>)/ },
+  { type: 'float', pattern: /^\s*(?:\.to_f\b|\.toDouble\(\)|\.toFloat\(\)|(?:\.unwrap\(\))?\.parse::<f(?:32|64)>)/ },
+  {
+    type: 'bool',
+    pattern: /^\s*(?:\.toBoolean\(\)|(?:\.unwrap\(\))?\.parse::<bool>|(?:\.(?:lower|toLowerCase)\(\))?\s*[!=]==?\s*["'](?:true|false|1|0|yes|no)["'])/i,
+  },
+  { type: 'list', pattern: /^\s*(?:\?\.|\.)split\(/ },
+];
+
+const CONFIDENCE_RANK: Record<TypeConfidence, number> = { high: 2, medium: 1, low: 0 };
+
+/**
+ * Type implied by how a variable is read: the rule itself, or a parse/cast call around the
+ * match (`before` is the source text up to the match on its line, `after` the text following it)
+ */
+export function inferReadType(
+  ruleId: string | undefined,
+  before: string,
+  after: string
+): { type: EnvVarType; typeSource: TypeSource } | undefined {
+  const ruleType = ruleId ? RULE_TYPES[ruleId] : undefined;
+  if (ruleType) return { type: ruleType, typeSource: 'rule' };
+
+  const prefix = CAST_PREFIXES.find((cast) => cast.pattern.test(before));
+  if (prefix) return { type: prefix.type, typeSource: 'cast' };
+  const suffix = CAST_SUFFIXES.find((cast) => cast.pattern.test(after));
+  if (suffix) return { type: suffix.type, typeSource: 'cast' };
+  return undefined;
+}
+
+/**
+ * Type a value looks like: 8080 → int, true → bool, 30s → duration, https://… → url,
+ * {"a":1} → json, a,b,c → list, anything else → string
+ */
+export function inferValueType(value: string): EnvVarType {
+  const v = value.trim();
+  if (/^(?:true|false)$/i.test(v)) return 'bool';
+  if (/^[-+]?\d+$/.test(v)) return 'int';
+  if (/^[-+]?(?:\d+\.\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(v)) return 'float';
+  if (/^(?:\d+(?:\.\d+)?(?:ns|us|µs|ms|s|m|h))+$/.test(v)) return 'duration';
+  if (/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(v)) return 'url';
+  if (/^[[{]/.test(v)) {
+    try {
+      JSON.parse(v);
+      return 'json';
+    } catch {
+      // Not JSON; fall through
+    }
+  }
+  if (/^[^,\s]+(?:\s*,\s*[^,\s]+)+$/.test(v)) return 'list';
+  return 'string';
+}
+
+/**
+ * Fill in type, typeConfidence and typeSource from the shape of the value for findings that
+ * don't have a type yet: code defaults get medium confidence, defined values low.
+ */
+export function inferEnvVarTypes(envVars: EnvVar[]): void {
+  for (const ev of envVars) {
+    if (ev.type || ev.value === undefined || ev.value === '') continue;
+    // A null fallback says nothing about the type
+    if (ev.isDefault && /^(?:null|undefined|None|nil)$/.test(ev.value)) continue;
+    ev.type = inferValueType(ev.value);
+    ev.typeConfidence = ev.isDefault ? 'medium' : 'low';
+    ev.typeSource = ev.isDefault ? 'default' : 'value';
+  }
+}
+
+/**
+ * Type of a variable across its usages: the most confident inference, preferring float over int
+ * when both appear at that confidence
+ */
+export function resolveVarType(usages: EnvVar[]): { type: EnvVarType; confidence: TypeConfidence } | undefined {
+  const typed = usages.filter((u) => u.type && u.typeConfidence);
+  if (typed.length === 0) return undefined;
+
+  const best = Math.max(...typed.map((u) => CONFIDENCE_RANK[u.typeConfidence!]));
+  const top = typed.filter((u) => CONFIDENCE_RANK[u.typeConfidence!] === best);
+  const types = new Set(top.map((u) => u.type!));
+  const type = types.has('float') && types.has('int') ? 'float' : top[0].type!;
+  return { type, confidence: top[0].typeConfidence! };
+}
+
+/**
+ * Variables whose usages imply incompatible types at medium confidence or above.
+ * int and float are compatible, and so is string with url, json and list.
+ */
+export function findTypeConflicts(envVars: EnvVar[]): TypeConflict[] {
+  const byName = new Map<string, EnvVar[]>();
+  for (const ev of envVars) {
+    if (!ev.type || !ev.typeConfidence || !ev.typeSource || ev.typeConfidence === 'low') continue;
+    byName.set(ev.name, [...(byName.get(ev.name) || []), ev]);
+  }
+
+  const conflicts: TypeConflict[] = [];
+  for (const [name, usages] of [...byName].sort(([a], [b]) => a.localeCompare(b))) {
+    const types = [...new Set(usages.map((u) => u.type!))];
+    const incompatible = types.some((a) => types.some((b) => !compatible(a, b)));
+    if (!incompatible) continue;
+    conflicts.push({
+      name,
+      usages: usages.map((u) => ({
+        type: u.type!,
+        confidence: u.typeConfidence!,
+        typeSource: u.typeSource!,
+        file: u.file,
+        line: u.line,
+      })),
+    });
+  }
+  return conflicts;
+}
+
+function compatible(a: EnvVarType, b: EnvVarType): boolean {
+  if (a === b) return true;
+  const numeric = ['int', 'float'];
+  if (numeric.includes(a) && numeric.includes(b)) return true;
+  const stringLike = ['url', 'json', 'list'];
+  return (a === 'string' && stringLike.includes(b)) || (b === 'string' && stringLike.includes(a));
+}
@@ -7,28 +7,211 @@ export type ValueSource =
   | 'k8s-configmap'     // K8s ConfigMap
   | 'k8s-secret'        // K8s Secret (base64 decoded)
   | 'docker-compose'    // docker-compose.yml
+  | 'helm-values'       // Helm template value resolved from values*.yaml
+  | 'helm-template'     // Literal value in a Helm template
+  | 'lambda-environment' // Terraform aws_lambda_function environment variables
+  | 'ecs-environment'   // ECS container definition environment
+  | 'ecs-secret'        // ECS container definition secrets (value is the valueFrom ARN)
+  | 'github-actions-env' // GitHub Actions env: (workflow, job or step)
+  | 'gitlab-ci-variables' // GitLab CI variables:
+  | 'shell-export'      // export VAR=value in a shell script or Makefile
+  | 'shell-default'     // ${VAR:-default} in a shell script or Dockerfile RUN, VAR ?= default in a Makefile
   | 'properties';       // application.properties default
 
+/**
+ * Expected type of a variable's value
+ */
+export type EnvVarType = 'string' | 'bool' | 'int' | 'float' | 'duration' | 'url' | 'json' | 'list';
+
+/**
+ * How sure a type inference is:
+ * - high: the matched rule (viper.GetBool) or a parse/cast around the read (parseInt(...))
+ * - medium: the shape of a code default
+ * - low: the shape of a defined value (.env, compose, k8s)
+ */
+export type TypeConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * What a type inference is based on
+ */
+export type TypeSource = 'rule' | 'cast' | 'default' | 'value';
+
+/**
+ * Usages of one variable whose inferred types disagree
+ */
+export interface TypeConflict {
+  name: string;
+  usages: { type: EnvVarType; confidence: TypeConfidence; typeSource: TypeSource; file: string; line: number }[];
+}
+
+/**
+ * Whether a read fails when the variable is unset:
+ * - true: it raises, throws or stops the app from starting (os.environ[...], ENV.fetch, `${VAR:?}`)
+ * - false: it falls back to a default or uses a lenient accessor (os.environ.get, ENV[...])
+ * - unknown: it yields an empty value and it depends on the caller (process.env.X, os.Getenv)
+ */
+export type RequiredStatus = boolean | 'unknown';
+
+/**
+ * Manifest a package root was detected from ('config' for roots listed in the user config)
+ */
+export type PackageKind = 'npm' | 'go' | 'python' | 'cargo' | 'maven' | 'gradle' | 'config';
+
+/**
+ * A package or service in a monorepo
+ */
+export interface PackageRoot {
+  /** Name from the manifest (package.json name, go.mod module, ...), or the directory */
+  name: string;
+  /** Absolute path of the package directory */
+  dir: string;
+  kind: PackageKind;
+  /** Manifest file, absent for roots from the user config */
+  manifest?: string;
+}
+
 export interface EnvVar {
   name: string;
   file: string;
   line: number;
+  /** 1-based column and end position (code scan; endLine also for multi-line .env values) */
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
   language: string;
   pattern: string;
+  /** Id of the rule that matched (code scan only), e.g. js-process-env-dot */
+  ruleId?: string;
   /** The detected value (if found) */
   value?: string;
   /** Where the value came from */
   valueSource?: ValueSource;
+  /** The value as written, when it differs from value (.env escapes and ${OTHER} expansion) or can't be expanded */
+  rawValue?: string;
+  /** Variables the value is expanded from (.env ${OTHER} references) */
+  dependsOn?: string[];
   /** Is this a default/fallback value? */
   isDefault?: boolean;
+  /** Inferred type of the value */
+  type?: EnvVarType;
+  typeConfidence?: TypeConfidence;
+  typeSource?: TypeSource;
+  /** Whether the read fails when the variable is unset (reads only) */
+  required?: RequiredStatus;
+  /** Package the file belongs to (see PackageRoot), when the scan found any */
+  package?: string;
+  /** Environment the value applies to (e.g. from values-prod.yaml or a kustomize overlay) */
+  environment?: string;
+  /** K8s resource the value is taken from (valueFrom or envFrom) */
+  valueFrom?: K8sValueRef;
+  /** K8s resource (and container) the finding belongs to */
+  k8s?: K8sContext;
+  /** CI workflow, job and step the finding belongs to */
+  ci?: CiContext;
+  /** Dockerfile build stage the finding belongs to */
+  dockerfile?: DockerfileContext;
+  /** Compose service the finding belongs to */
+  compose?: ComposeContext;
+}
+
+/**
+ * Where a Compose finding lives
+ */
+export interface ComposeContext {
+  /** Key under `services:` */
+  service: string;
+}
+
+/**
+ * Where a Dockerfile finding lives in a multi-stage build
+ */
+export interface DockerfileContext {
+  /** Stage name (`FROM ... AS name`), or its index when unnamed; absent for ARGs before the first FROM */
+  stage?: string;
+  /** The stage ends up in the final image (the last stage, or a stage it is built FROM) */
+  final: boolean;
+}
+
+/**
+ * Where a CI finding lives in the pipeline
+ */
+export interface CiContext {
+  /** Workflow name (or file name when unnamed) */
+  workflow: string;
+  /** Job id */
+  job?: string;
+  /** Step name, id or action (GitHub Actions only) */
+  step?: string;
+}
+
+/**
+ * Where a k8s finding lives: the resource and, for workload env, the container
+ */
+export interface K8sContext {
+  kind: string;
+  /** metadata.name */
+  name: string;
+  namespace?: string;
+  container?: string;
+}
+
+/**
+ * A k8s valueFrom/envFrom reference
+ */
+export interface K8sValueRef {
+  kind: 'ConfigMap' | 'Secret' | 'Field' | 'ResourceField';
+  /** ConfigMap/Secret name, or the fieldPath/resource for field refs */
+  name: string;
+  /** Key within the ConfigMap/Secret */
+  key?: string;
+  optional?: boolean;
+  /** Set when the referenced ConfigMap/Secret or key is not in the scanned files */
+  missing?: 'resource' | 'key';
+}
+
+/**
+ * A read whose variable name is computed at runtime: process.env[key], os.Getenv(name), os.environ[key]
+ */
+export interface DynamicEnvAccess {
+  file: string;
+  line: number;
+  column?: number;
+  language: string;
+  pattern: string;
+  ruleId?: string;
+  /** Source text of the key expression */
+  expression: string;
+  /** Names the key can take when it has a literal prefix or suffix, e.g. FEATURE_* */
+  namePattern?: string;
 }
 
 export interface ScanResult {
   path: string;
   envVars: EnvVar[];
   errors: string[];
+  /** Reads with a computed name, which can't be attributed to a variable */
+  dynamicAccess?: DynamicEnvAccess[];
+  /** Variables whose usages imply different types */
+  typeConflicts?: TypeConflict[];
+  /** Required status per variable that is read, rolled up from its reads */
+  required?: Record<string, RequiredStatus>;
+  /** Package roots found under path */
+  packages?: PackageRoot[];
+  /** How sensitive values were masked (set by maskScanResult) */
+  mask?: MaskMode;
+  /** Engine used for the code scan (absent if code was not scanned) */
+  engine?: ResolvedEngine;
 }
 
+/**
+ * Code scanning engine:
+ * - semgrep: full rule set, requires semgrep in PATH
+ * - builtin: regex matcher for the most common patterns, no dependencies
+ * - auto: semgrep if installed, otherwise builtin
+ */
+export type ScanEngine = 'auto' | 'semgrep' | 'builtin';
+export type ResolvedEngine = Exclude<ScanEngine, 'auto'>;
+
 export interface ScanOptions {
   /** Filter to only uppercase env var names (default: true) */
   filterUppercase?: boolean;
@@ -36,6 +219,8 @@ export interface ScanOptions {
   excludePatterns?: string[];
   /** Path to custom rules file */
   customRulesPath?: string;
+  /** Code scanning engine (default: auto) */
+  engine?: ScanEngine;
 }
 
 export interface CustomPattern {
@@ -45,10 +230,40 @@ export interface CustomPattern {
   languages: string[];
 }
 
+/**
+ * How sensitive values are displayed: partially masked, fully masked, as a keyed hash fingerprint, or left out
+ */
+export type MaskMode = 'partial' | 'full' | 'hash' | 'omit';
+
+/**
+ * Which variables count as sensitive and how their values are masked
+ */
+export interface SensitivityConfig {
+  /** Extra name patterns (case-insensitive regular expressions) */
+  patterns?: string[];
+  /** Names that are never sensitive, even if a pattern matches */
+  allowNames?: string[];
+  /** Value sources whose values are always sensitive (added to DEFAULT_SENSITIVE_SOURCES) */
+  sources?: ValueSource[];
+  /** Default partial */
+  mask?: MaskMode;
+  /** Secret key for hash masks (HMAC-SHA256), required by the hash mode. Not read from the config file */
+  hashKey?: string;
+}
+
 export interface UserConfig {
   customPatterns?: CustomPattern[];
   excludePatterns?: string[];
   includeExcludePatterns?: string[];
+  /** Extra names the shell/Makefile scanner skips (added to DEFAULT_SHELL_IGNORE) */
+  shellIgnore?: string[];
+  /** Environment label → other names for it (file suffixes, overlays, namespaces), used by the matrix command */
+  environments?: Record<string, string[]>;
+  /** Known dummy values the secrets audit never reports (added to DEFAULT_SECRET_ALLOWLIST) */
+  secretAllowlist?: string[];
+  sensitivity?: SensitivityConfig;
+  /** Extra package roots (directories or globs relative to the scan root) for services without a manifest */
+  packages?: string[];
 }
 
 // Semgrep output types
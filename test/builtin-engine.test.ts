@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { runBuiltinEngine } from '../src/builtin-engine.js';
+import type { CustomPattern } from '../src/types.js';
+import { writeTree } from './fixtures.js';
+
+async function matches(files: Record<string, string>, customPatterns?: CustomPattern[]) {
+  const output = await runBuiltinEngine(writeTree(files), [], customPatterns);
+  return output.results.map((r) => [r.check_id, r.extra.message, r.start.line]);
+}
+
+describe('runBuiltinEngine', () => {
+  it('matches JavaScript reads, fallbacks and envalid validators', async () => {
+    const found = await matches({
+      'app.ts': [
+        'const a = process.env.API_URL;',
+        "const b = process.env['BUCKET'] ?? 'assets';",
+        'const c = process.env.PORT || 3000;',
+        'const env = cleanEnv(process.env, { LOG_LEVEL: str(), "DEBUG": bool() });',
+      ].join('\n'),
+    });
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        ['js-process-env-dot', 'API_URL', 1],
+        ['js-process-env-bracket-nullish-default', "BUCKET|||'assets'", 2],
+        ['js-process-env-or-default', 'PORT|||3000', 3],
+        ['js-envalid-str', 'LOG_LEVEL', 4],
+        ['js-envalid-bool', 'DEBUG', 4],
+      ])
+    );
+  });
+
+  it('matches Go, Python, Java, Kotlin, Ruby and Rust reads', async () => {
+    const found = await matches({
+      'main.go': 'addr := os.Getenv("ADDR")\nv := viper.GetString("MODE")\n',
+      'settings.py': 'db = os.environ.get("DATABASE_URL", "sqlite://")\nkey = os.environ[\'SECRET_KEY\']\nDEBUG = env.bool("DJANGO_DEBUG")\n',
+      'App.java': 'String home = System.getenv("JAVA_HOME");\n',
+      'App.kt': 'val user = System.getenv("USER_NAME")\n',
+      'config.rb': 'ENV.fetch("RAILS_ENV", "development")\n',
+      'main.rs': 'let level = std::env::var("RUST_LOG").unwrap_or("info".to_string());\n',
+    });
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        ['go-os-getenv', 'ADDR', 1],
+        ['go-viper-getstring', 'MODE', 2],
+        ['python-os-environ-get-default', 'DATABASE_URL|||"sqlite://"', 1],
+        ['python-os-environ-bracket-single', 'SECRET_KEY', 2],
+        ['python-django-env-bool', 'DJANGO_DEBUG', 3],
+        ['java-system-getenv', 'JAVA_HOME', 1],
+        ['kotlin-system-getenv', 'USER_NAME', 1],
+        ['ruby-env-fetch-default-double', 'RAILS_ENV|||"development"', 1],
+        ['rust-env-var-unwrap-or', 'RUST_LOG|||"info".to_string()', 1],
+      ])
+    );
+  });
+
+  it('reports computed keys only', async () => {
+    const found = await matches({
+      'app.js': "process.env[name];\nprocess.env['LITERAL'];\n",
+      'app.py': 'os.getenv(f"{prefix}_URL")\n',
+    });
+
+    expect(found.filter(([id]) => String(id).endsWith('-dynamic'))).toEqual([
+      ['js-process-env-dynamic', 'name', 1],
+      ['python-os-environ-dynamic', 'f"{prefix}_URL"', 1],
+    ]);
+  });
+
+  it('translates custom patterns and warns about unsupported ones', async () => {
+    const root = writeTree({ 'app.js': "const v = getEnvVar('FEATURE_FLAG', false);\n" });
+    const output = await runBuiltinEngine(root, [], [
+      { id: 'helper', pattern: 'getEnvVar("$VAR", ...)', languages: ['javascript'] },
+      { id: 'helper-single', pattern: "getEnvVar('$VAR', ...)", languages: ['javascript'] },
+      { id: 'no-var', pattern: 'getEnvVar(...)', languages: ['javascript'] },
+      { id: 'no-lang', pattern: 'get($VAR)', languages: ['elixir'] },
+    ]);
+
+    expect(output.results.map((r) => [r.check_id, r.extra.message])).toEqual([['custom-helper-single', 'FEATURE_FLAG']]);
+    expect(output.errors.map((e) => e.message)).toEqual([
+      'Custom pattern "no-var" is not supported by the built-in engine (use --engine semgrep)',
+      'Custom pattern "no-lang" is not supported by the built-in engine (use --engine semgrep)',
+    ]);
+  });
+
+  it('skips matches in comments and strings', async () => {
+    const found = await matches({
+      'app.js': [
+        '// process.env.COMMENTED_OUT',
+        '/* const old = process.env.BLOCK_COMMENT; */',
+        'const help = "process.env.IN_STRING";',
+        'const tpl = `set process.env.IN_TEMPLATE or ${process.env.INTERPOLATED}`;',
+        'const real = process.env.REAL; // process.env.TRAILING',
+      ].join('\n'),
+      'app.py': [
+        '# os.getenv("PY_COMMENT")',
+        '"""',
+        'Reads os.environ["PY_DOCSTRING"]',
+        '"""',
+        'url = f"{os.environ[\'PY_FSTRING\']}/api"',
+        "text = 'os.getenv(\"PY_STRING\")'",
+      ].join('\n'),
+      'config.rb': '# ENV["RB_COMMENT"]\nputs "#{ENV["RB_INTERPOLATED"]}"\n',
+      'main.rs': "fn get<'a>(x: &'a str) -> String { env::var(\"RS_AFTER_LIFETIME\").unwrap() }\n",
+      'main.go': "c := '\"'; v := os.Getenv(\"GO_AFTER_RUNE\")\n",
+    });
+
+    expect(found.filter(([id]) => !String(id).endsWith('-dynamic')).map(([, name]) => name).sort()).toEqual([
+      'GO_AFTER_RUNE',
+      'INTERPOLATED',
+      'PY_FSTRING',
+      'RB_INTERPOLATED',
+      'REAL',
+      'RS_AFTER_LIFETIME',
+    ]);
+  });
+});
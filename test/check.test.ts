@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { checkEnvVars, getUsageKind } from '../src/check.js';
+import { dotenv, read, result, runCli, writeTree } from './fixtures.js';
+
+describe('getUsageKind', () => {
+  it('classifies definitions by language and pattern', () => {
+    const at = (language: string, pattern: string) => getUsageKind({ ...read('X'), language, pattern });
+
+    expect(at('javascript', 'process.env.dot')).toBe('read');
+    expect(at('spring', 'spring.placeholder')).toBe('read');
+    expect(at('dotenv', 'definition')).toBe('definition');
+    expect(at('kubernetes', 'env')).toBe('definition');
+    expect(at('github-actions', 'secret')).toBe('definition');
+    expect(at('dockerfile', 'ENV')).toBe('definition');
+    expect(at('dockerfile', 'ARG')).toBe('definition');
+    expect(at('dockerfile', 'RUN')).toBe('read');
+    expect(at('docker-compose', 'environment-definition')).toBe('definition');
+    expect(at('docker-compose', 'variable-reference')).toBe('read');
+    expect(at('shell', 'export')).toBe('definition');
+    expect(at('makefile', 'read')).toBe('read');
+  });
+});
+
+describe('checkEnvVars', () => {
+  it('reports reads without a definition or default and definitions nobody reads', () => {
+    const check = checkEnvVars(
+      result([
+        read('DATABASE_URL'),
+        read('PORT', '8080'),
+        read('API_KEY'),
+        dotenv('API_KEY', 'sk-test'),
+        dotenv('LEGACY_FLAG', 'true'),
+      ])
+    );
+
+    expect(check.undefined).toEqual([
+      { name: 'DATABASE_URL', locations: [{ file: '/repo/src/app.ts', line: 3, language: 'javascript', pattern: 'process.env.or.default' }] },
+    ]);
+    expect(check.unused.map((f) => f.name)).toEqual(['LEGACY_FLAG']);
+  });
+
+  it('does not expect build args and CI inputs to be read', () => {
+    const check = checkEnvVars(
+      result([
+        { ...dotenv('NODE_VERSION', '20'), language: 'dockerfile', pattern: 'ARG' },
+        { ...dotenv('DEPLOY_TOKEN', ''), language: 'github-actions', pattern: 'secret' },
+        { ...dotenv('STAGE', 'ci'), language: 'github-actions', pattern: 'env' },
+      ])
+    );
+
+    expect(check.unused.map((f) => f.name)).toEqual(['STAGE']);
+  });
+
+  it('skips ignored names in both checks', () => {
+    const check = checkEnvVars(result([read('CI'), dotenv('UNUSED', '1')]), { ignore: ['CI', 'UNUSED'] });
+    expect(check).toEqual({ undefined: [], unused: [] });
+  });
+});
+
+describe('check command', () => {
+  const tree = () =>
+    writeTree({
+      'src/app.js': 'const url = process.env.DATABASE_URL;\nconst port = process.env.PORT || 3000;\n',
+      '.env': 'PORT=3000\nLEGACY_FLAG=true\n',
+    });
+
+  it('exits 1 and lists both kinds of findings', () => {
+    const { status, stdout } = runCli(['check', tree(), '--engine', 'builtin', '--json']);
+    const output = JSON.parse(stdout);
+
+    expect(status).toBe(1);
+    expect(output.undefined.map((f: { name: string }) => f.name)).toEqual(['DATABASE_URL']);
+    expect(output.unused.map((f: { name: string }) => f.name)).toEqual(['LEGACY_FLAG']);
+  }, 30_000);
+
+  it('runs one check with --only', () => {
+    const { status, stdout } = runCli(['check', tree(), '--engine', 'builtin', '--only', 'unused']);
+
+    expect(status).toBe(1);
+    expect(stdout).toContain('Defined but never read:');
+    expect(stdout).not.toContain('Read but never defined');
+    expect(stdout).toContain('Summary: 0 undefined, 1 unused');
+  }, 30_000);
+
+  it('exits 0 when --ignore covers every finding', () => {
+    const { status, stdout } = runCli(['check', tree(), '--engine', 'builtin', '--ignore', 'DATABASE_URL', 'LEGACY_FLAG']);
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('Summary: 0 undefined, 0 unused');
+  }, 30_000);
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { scanCiWorkflows } from '../src/ci-scanner.js';
+import { writeTree } from './fixtures.js';
+
+const WORKFLOW = `name: CI
+on: push
+env:
+  NODE_ENV: test
+jobs:
+  build:
+    if: \${{ vars.DEPLOY_ENABLED == 'true' }}
+    runs-on: ubuntu-latest
+    env:
+      REGION: eu-west-1
+    steps:
+      - name: Deploy
+        env:
+          TOKEN: \${{ secrets.DEPLOY_TOKEN }}
+          BUILD: \${{ github.sha }}
+        run: ./deploy.sh
+`;
+
+describe('scanCiWorkflows', () => {
+  it('reads GitHub Actions env and secret/variable references', async () => {
+    const root = writeTree({ '.github/workflows/ci.yml': WORKFLOW });
+    const envVars = await scanCiWorkflows(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.line, ev.value, ev.ci?.job, ev.ci?.step]).sort((a, b) => Number(a[1]) - Number(b[1]))).toEqual([
+      ['NODE_ENV', 4, 'test', undefined, undefined],
+      ['DEPLOY_ENABLED', 7, undefined, 'build', undefined],
+      ['REGION', 10, 'eu-west-1', 'build', undefined],
+      ['TOKEN', 14, undefined, 'build', 'Deploy'],
+      ['DEPLOY_TOKEN', 14, undefined, 'build', 'Deploy'],
+      ['BUILD', 15, undefined, 'build', 'Deploy'],
+    ]);
+  });
+
+  it('reads GitLab CI global and job variables', async () => {
+    const root = writeTree({
+      '.gitlab-ci.yml': 'variables:\n  DOCKER_DRIVER: overlay2\nstages: [test]\ntest:\n  variables:\n    DB_HOST:\n      value: postgres\n      description: Database\n  script: make test\n',
+    });
+    const envVars = await scanCiWorkflows(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.value, ev.valueSource, ev.ci?.job])).toEqual([
+      ['DOCKER_DRIVER', 'overlay2', 'gitlab-ci-variables', undefined],
+      ['DB_HOST', 'postgres', 'gitlab-ci-variables', 'test'],
+    ]);
+  });
+
+  it('reports workflows that are not valid YAML', async () => {
+    const root = writeTree({ '.github/workflows/broken.yml': 'jobs: [\n' });
+    const errors: string[] = [];
+    await scanCiWorkflows(root, undefined, errors);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('broken.yml');
+  });
+});
@@ -0,0 +1,127 @@
+import { execSync } from 'child_process';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { compareInputWarnings, compareResults, describeChange } from '../src/compare.js';
+import { maskScanResult } from '../src/sensitivity.js';
+import { dotenv, read, result, runCli, writeTree } from './fixtures.js';
+
+describe('compareResults', () => {
+  it('reports added, removed and unchanged variables', () => {
+    const compared = compareResults(result([read('KEEP'), read('GONE')]), result([read('KEEP'), read('NEW')]));
+    expect(compared).toMatchObject({ added: ['NEW'], removed: ['GONE'], changed: [], unchanged: ['KEEP'] });
+  });
+
+  it('compares the effective value by source precedence', () => {
+    const base = result([read('PORT', '8080'), dotenv('PORT', '3000')]);
+    const head = result([read('PORT', '8080'), dotenv('PORT', '4000')]);
+    const [change] = compareResults(base, head).changed;
+
+    expect(change.value).toEqual({ base: '3000', head: '4000' });
+    expect(change.valueSource).toBeUndefined();
+    expect(describeChange(change)).toEqual(['value: 3000 → 4000']);
+  });
+
+  it('reports a value moving from a code default to a definition', () => {
+    const [change] = compareResults(result([read('PORT', '8080')]), result([read('PORT', '8080'), dotenv('PORT', '3000')])).changed;
+
+    expect(change.valueSource).toEqual({ base: 'code-default', head: 'dotenv' });
+    expect(change.isDefault).toEqual({ base: true, head: false });
+    expect(describeChange(change)).toContain('dotenv: added (3000)');
+  });
+
+  it('formats values for output but compares the raw values', () => {
+    const base = result([dotenv('API_KEY', 'sk-aaaa-1234')]);
+    const head = result([dotenv('API_KEY', 'sk-bbbb-1234')]);
+    const [change] = compareResults(base, head, { formatValue: () => undefined }).changed;
+    expect(change.value).toEqual({ base: '(omitted)', head: '(omitted)' });
+  });
+});
+
+describe('compare with masked inputs', () => {
+  const base = result([dotenv('API_KEY', 'sk-aaaa-1234')]);
+  const head = result([dotenv('API_KEY', 'sk-bbbb-1234')]);
+
+  it('misses a change hidden by partial masks and warns about it', () => {
+    const maskedBase = maskScanResult(base);
+    const maskedHead = maskScanResult(head);
+
+    expect(maskedBase.mask).toBe('partial');
+    expect(compareResults(maskedBase, maskedHead).changed).toEqual([]);
+    expect(compareInputWarnings(maskedBase, maskedHead)).toHaveLength(2);
+  });
+
+  it('detects the change through hash masks without warnings', () => {
+    const maskedBase = maskScanResult(base, { mask: 'hash', hashKey: 'ci-secret' });
+    const maskedHead = maskScanResult(head, { mask: 'hash', hashKey: 'ci-secret' });
+
+    expect(compareResults(maskedBase, maskedHead).changed.map((c) => c.name)).toEqual(['API_KEY']);
+    expect(compareInputWarnings(maskedBase, maskedHead)).toEqual([]);
+  });
+
+  it('warns when values were omitted', () => {
+    const warnings = compareInputWarnings(maskScanResult(base, { mask: 'omit' }), maskScanResult(head, { mask: 'omit' }));
+    expect(warnings[0]).toContain('"omit"');
+  });
+
+  it('warns when the inputs were masked differently', () => {
+    const warnings = compareInputWarnings(maskScanResult(base, { mask: 'hash', hashKey: 'ci-secret' }), maskScanResult(head, { mask: 'full' }));
+    expect(warnings).toContain('base and head inputs were masked differently (hash vs full), so sensitive values may show as changed');
+  });
+
+  it('recognizes partial masks in inputs that predate the mask field', () => {
+    const legacy = result([dotenv('API_KEY', 'sk****34')]);
+    expect(compareInputWarnings(legacy, legacy)).toHaveLength(2);
+    expect(compareInputWarnings(base, head)).toEqual([]);
+  });
+});
+
+describe('compare command', () => {
+  it('masks values with the sensitivity config of the scanned repo', () => {
+    const root = writeTree({ '.skyhook/envvars-scan.yaml': 'sensitivity:\n  patterns: ["^LICENSE_"]\n  mask: full\n' });
+    const scan = (value: string) => JSON.stringify({ ...result([dotenv('LICENSE_ID', value, join(root, '.env'))]), path: root });
+    writeFileSync(join(root, 'base.json'), scan('lic-1111'));
+    writeFileSync(join(root, 'head.json'), scan('lic-2222'));
+
+    const { status, stdout } = runCli(['compare', join(root, 'base.json'), join(root, 'head.json'), '--json']);
+
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout).changed[0].value).toEqual({ base: '****', head: '****' });
+  }, 30_000);
+});
+
+describe('--diff', () => {
+  const repo = () => {
+    const root = writeTree({ 'app.js': 'const port = process.env.PORT || 3000;\n' });
+    execSync('git init -q && git add -A && git -c user.name=test -c user.email=test@example.com commit -qm base', { cwd: root });
+    return root;
+  };
+  const diff = (root: string, ...flags: string[]) => runCli([root, '--diff', 'HEAD', '--engine', 'builtin', ...flags]);
+
+  it('exits 1 on changes in every output format', () => {
+    const root = repo();
+    writeFileSync(join(root, 'app.js'), 'const port = process.env.PORT || 4000;\nconst url = process.env.API_URL;\n');
+
+    const json = diff(root, '--json');
+    expect(json.status).toBe(1);
+    expect(JSON.parse(json.stdout)).toMatchObject({ added: ['API_URL'], changed: [{ name: 'PORT' }] });
+
+    const markdown = diff(root, '--format', 'markdown');
+    expect(markdown.status).toBe(1);
+    expect(markdown.stdout).toContain('**Summary:** 1 added, 0 removed, 1 changed, 0 unchanged');
+  }, 30_000);
+
+  it('exits 0 without changes', () => {
+    const { status, stdout } = diff(repo(), '--format', 'markdown');
+
+    expect(status).toBe(0);
+    expect(stdout).toContain('No env var changes detected.');
+  }, 30_000);
+
+  it('rejects --format sarif', () => {
+    const { status, stderr } = diff(repo(), '--format', 'sarif');
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('--format sarif is not supported with --diff');
+  }, 30_000);
+});
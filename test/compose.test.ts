@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { scanDockerComposeFiles } from '../src/property-scanner.js';
+import { writeTree } from './fixtures.js';
+
+const COMPOSE = `x-common: &common
+  LOG_LEVEL: info
+services:
+  api:
+    image: "api:\${TAG:-latest}"
+    environment:
+      <<: *common
+      DB_HOST: \${DB_HOST:-localhost}
+      API_KEY: \${API_KEY:?set API_KEY}
+      PRICE: "$$5"
+      PASSTHROUGH:
+    env_file:
+      - .env.api
+      - path: optional.env
+        required: false
+  worker:
+    environment:
+      - QUEUE=jobs
+      - DEBUG
+`;
+
+describe('scanDockerComposeFiles', () => {
+  it('reads environment entries, env files and interpolation per service', async () => {
+    const root = writeTree({ 'docker-compose.yml': COMPOSE, '.env.api': 'SECRET="from file"\n' });
+    const errors: string[] = [];
+    const envVars = await scanDockerComposeFiles(root, undefined, errors);
+
+    expect(errors).toEqual([]);
+    expect(envVars.map((ev) => [ev.name, ev.pattern, ev.compose?.service, ev.value, ev.isDefault, ev.required])).toEqual([
+      ['LOG_LEVEL', 'environment-definition', 'api', 'info', undefined, undefined],
+      ['DB_HOST', 'environment-definition', 'api', 'localhost', true, undefined],
+      ['API_KEY', 'environment-definition', 'api', undefined, undefined, true],
+      ['PRICE', 'environment-definition', 'api', '$5', undefined, undefined],
+      ['PASSTHROUGH', 'environment-definition', 'api', undefined, undefined, undefined],
+      ['SECRET', 'env-file', 'api', 'from file', undefined, undefined],
+      ['TAG', 'variable-reference', 'api', 'latest', true, undefined],
+      ['DB_HOST', 'variable-reference', 'api', 'localhost', true, undefined],
+      ['API_KEY', 'variable-reference', 'api', undefined, undefined, true],
+      ['QUEUE', 'environment-definition', 'worker', 'jobs', undefined, undefined],
+      ['DEBUG', 'environment-definition', 'worker', undefined, undefined, undefined],
+    ]);
+    expect(envVars.find((ev) => ev.name === 'TAG')?.line).toBe(5);
+  });
+
+  it('reports missing env files and invalid YAML', async () => {
+    const root = writeTree({
+      'compose.yaml': 'services:\n  api:\n    env_file: missing.env\n',
+      'compose.broken.yaml': 'services:\n  api: [\n',
+    });
+    const errors: string[] = [];
+    await scanDockerComposeFiles(root, undefined, errors);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/compose\.broken\.yaml:\d+: invalid YAML document/);
+    expect(errors[1]).toMatch(/compose\.yaml:3: service "api" env_file "missing\.env" not found$/);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError, parseUserConfig } from '../src/config.js';
+import { DEFAULT_EXCLUDE_PATTERNS, resolveExcludePatterns } from '../src/scanner.js';
+
+function issuesOf(content: string) {
+  try {
+    parseUserConfig(content, 'envvars-scan.yaml');
+  } catch (error) {
+    if (error instanceof ConfigError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('parseUserConfig', () => {
+  it('reads every supported key', () => {
+    const config = parseUserConfig(
+      [
+        'customPatterns:',
+        '  - id: my-helper',
+        '    pattern: getEnvVar("$VAR")',
+        '    languages: [javascript]',
+        'includeExcludePatterns: [generated]',
+        'shellIgnore: [CI_COMMIT_SHA]',
+        'secretAllowlist: [dummy]',
+        'environments:',
+        '  production: [prod, prd]',
+        'sensitivity:',
+        '  patterns: ["^STRIPE_"]',
+        '  allowNames: [TOKEN_TTL]',
+        '  sources: [ecs-secret]',
+        '  mask: hash',
+        'packages: [services/legacy]',
+      ].join('\n'),
+      'envvars-scan.yaml'
+    );
+
+    expect(config).toEqual({
+      customPatterns: [{ id: 'my-helper', pattern: 'getEnvVar("$VAR")', languages: ['javascript'] }],
+      includeExcludePatterns: ['generated'],
+      shellIgnore: ['CI_COMMIT_SHA'],
+      secretAllowlist: ['dummy'],
+      environments: { production: ['prod', 'prd'] },
+      sensitivity: { patterns: ['^STRIPE_'], allowNames: ['TOKEN_TTL'], sources: ['ecs-secret'], mask: 'hash' },
+      packages: ['services/legacy'],
+    });
+  });
+
+  it('treats an empty file as an empty config', () => {
+    expect(parseUserConfig('# nothing yet\n', 'envvars-scan.yaml')).toEqual({});
+  });
+
+  it('reports syntax errors with their line', () => {
+    const [issue] = issuesOf('customPatterns:\n  - id: [unclosed\n');
+    expect(issue.key).toBe('(syntax)');
+  });
+
+  it('reports unknown keys', () => {
+    expect(issuesOf('excludePattern: [dist]\n')).toEqual([
+      { file: 'envvars-scan.yaml', line: 1, key: 'excludePattern', message: 'unknown config key' },
+    ]);
+  });
+
+  it('validates custom patterns', () => {
+    const issues = issuesOf(
+      ['customPatterns:', '  - id: bad id', '    pattern: getEnvVar("NAME")', '    languages: []'].join('\n')
+    );
+    expect(issues.map((i) => i.key)).toEqual([
+      'customPatterns[0].id',
+      'customPatterns[0].pattern',
+      'customPatterns[0].languages',
+    ]);
+    expect(issues[1].line).toBe(3);
+  });
+
+  it('rejects invalid sensitivity patterns and mask modes', () => {
+    const issues = issuesOf(['sensitivity:', '  patterns: ["(unclosed"]', '  mask: blur'].join('\n'));
+    expect(issues.map((i) => i.key)).toEqual(['sensitivity.patterns[0]', 'sensitivity.mask']);
+  });
+
+  it('rejects unknown value sources', () => {
+    const issues = issuesOf(['sensitivity:', '  sources: [k8s-secret, dotnev]'].join('\n'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ line: 2, key: 'sensitivity.sources[1]' });
+    expect(issues[0].message).toContain('unknown value source "dotnev"');
+  });
+});
+
+describe('resolveExcludePatterns', () => {
+  it('adds includeExcludePatterns to the defaults', () => {
+    const config = parseUserConfig('includeExcludePatterns: [generated]', 'envvars-scan.yaml');
+    expect(resolveExcludePatterns(config)).toEqual([...DEFAULT_EXCLUDE_PATTERNS, 'generated']);
+    expect(resolveExcludePatterns(null)).toEqual(DEFAULT_EXCLUDE_PATTERNS);
+  });
+
+  it('lets excludePatterns replace the defaults', () => {
+    const config = parseUserConfig(['excludePatterns: [fixtures]', 'includeExcludePatterns: [generated]'].join('\n'), 'envvars-scan.yaml');
+    expect(resolveExcludePatterns(config)).toEqual(['fixtures']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { expandDockerWord, parseDockerfile, parseKeyValues } from '../src/dockerfile.js';
+import { scanDockerfiles } from '../src/property-scanner.js';
+import { writeTree } from './fixtures.js';
+
+describe('parseDockerfile', () => {
+  it('joins continuation lines and keeps line numbers', () => {
+    const instructions = parseDockerfile('FROM node:20\n# comment\nRUN apt-get update && \\\n\n    echo $HOME\nENV A=1\n');
+
+    expect(instructions.map((inst) => [inst.keyword, inst.line])).toEqual([
+      ['FROM', 1],
+      ['RUN', 3],
+      ['ENV', 6],
+    ]);
+    const run = instructions[1];
+    expect(run.lineAt(run.args.indexOf('echo'))).toBe(5);
+  });
+
+  it('honours the escape directive and heredocs', () => {
+    const instructions = parseDockerfile('# escape=`\nFROM scratch\nENV A=1 `\n  B=2\nRUN <<EOF\necho $X\nEOF\nCMD run\n');
+
+    expect(instructions.map((inst) => inst.keyword)).toEqual(['FROM', 'ENV', 'RUN', 'CMD']);
+    expect(instructions[1].escape).toBe('`');
+    expect(parseKeyValues(instructions[1].args, '`').map((kv) => kv.key)).toEqual(['A', 'B']);
+    expect(instructions[2].args).toContain('echo $X');
+  });
+});
+
+describe('parseKeyValues', () => {
+  it('splits KEY=value words and the legacy form', () => {
+    expect(parseKeyValues('A=1 B="two words" C', '\\').map((kv) => [kv.key, kv.raw])).toEqual([
+      ['A', '1'],
+      ['B', '"two words"'],
+      ['C', undefined],
+    ]);
+    expect(parseKeyValues('KEY value with spaces', '\\').map((kv) => [kv.key, kv.raw])).toEqual([['KEY', 'value with spaces']]);
+  });
+});
+
+describe('expandDockerWord', () => {
+  const scope = new Map<string, string | null>([['HOST', 'db'], ['EMPTY', ''], ['NO_DEFAULT', null]]);
+  const lookup = (name: string) => scope.get(name);
+
+  it('substitutes like the builder', () => {
+    expect(expandDockerWord('http://$HOST:${PORT:-5432}', '\\', lookup)).toBe('http://db:5432');
+    expect(expandDockerWord('${EMPTY:-x}${EMPTY-y}${HOST:+set}', '\\', lookup)).toBe('xset');
+    expect(expandDockerWord(`'$HOST' "\\$HOST"`, '\\', lookup)).toBe('$HOST $HOST');
+    expect(expandDockerWord('$NO_DEFAULT', '\\', lookup)).toBeUndefined();
+  });
+});
+
+describe('scanDockerfiles', () => {
+  it('tracks ARG scope and stages', async () => {
+    const root = writeTree({
+      Dockerfile: [
+        'ARG VERSION=1.0',
+        'FROM node:20 AS build',
+        'ARG VERSION',
+        'ENV APP_VERSION=$VERSION',
+        'FROM alpine',
+        'ENV STALE=$VERSION',
+      ].join('\n'),
+    });
+    const envVars = await scanDockerfiles(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.pattern, ev.value, ev.dockerfile])).toEqual([
+      ['VERSION', 'ARG', '1.0', { final: false }],
+      ['VERSION', 'ARG', '1.0', { stage: 'build', final: false }],
+      ['APP_VERSION', 'ENV', '1.0', { stage: 'build', final: false }],
+      ['STALE', 'ENV', undefined, { stage: '1', final: true }],
+    ]);
+  });
+
+  it('reads references in shell form and exec-form sh -c scripts', async () => {
+    const root = writeTree({
+      Dockerfile: [
+        'FROM alpine',
+        'RUN echo ${BUILD_ID:-local} \'$NOT_EXPANDED\'',
+        'CMD ["sh", "-c", "echo $GREETING"]',
+        'ENTRYPOINT ["/bin/bash", "-ec", \\',
+        '  "exec app --port=${PORT:?required}"]',
+        'CMD ["echo", "$LITERAL"]',
+      ].join('\n'),
+    });
+    const envVars = await scanDockerfiles(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.pattern, ev.line, ev.value, ev.required])).toEqual([
+      ['BUILD_ID', 'RUN', 2, 'local', undefined],
+      ['GREETING', 'CMD', 3, undefined, undefined],
+      ['PORT', 'ENTRYPOINT', 5, undefined, true],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { expandDotEnv, parseDotEnv } from '../src/dotenv.js';
+import { scanDotEnvFiles } from '../src/property-scanner.js';
+import { writeTree } from './fixtures.js';
+
+describe('parseDotEnv', () => {
+  it('parses quoting, export, comments and multi-line values', () => {
+    const entries = parseDotEnv(
+      [
+        '# comment',
+        'PLAIN=value # trailing comment',
+        'export EXPORTED=yes',
+        'COLON: spaced',
+        "SINGLE='a # not a comment'",
+        'DOUBLE="line1\\nline2"',
+        'ESCAPED="say \\"hi\\""',
+        'MULTI="first',
+        'second"',
+        'EMPTY=',
+        'AFTER=1',
+      ].join('\n')
+    );
+
+    expect(entries.map((e) => [e.key, e.value, e.line])).toEqual([
+      ['PLAIN', 'value', 2],
+      ['EXPORTED', 'yes', 3],
+      ['COLON', 'spaced', 4],
+      ['SINGLE', 'a # not a comment', 5],
+      ['DOUBLE', 'line1\nline2', 6],
+      ['ESCAPED', 'say "hi"', 7],
+      ['MULTI', 'first\nsecond', 8],
+      ['EMPTY', '', 10],
+      ['AFTER', '1', 11],
+    ]);
+    expect(entries.find((e) => e.key === 'ESCAPED')).toMatchObject({ raw: 'say \\"hi\\"', quote: '"' });
+  });
+});
+
+describe('expandDotEnv', () => {
+  it('expands references like dotenv-expand', () => {
+    const entries = expandDotEnv(
+      parseDotEnv(
+        [
+          'HOST=localhost',
+          'URL=http://${HOST}:$PORT',
+          'PORT=8080',
+          'WITH_DEFAULT=${MISSING:-fallback}',
+          "LITERAL='${HOST}'",
+          'ESCAPED=\\$HOST',
+          'UNKNOWN=${NOPE}/x',
+          'A=$B',
+          'B=$A',
+        ].join('\n')
+      )
+    );
+
+    expect(entries.map((e) => [e.key, e.expanded, e.dependsOn])).toEqual([
+      ['HOST', 'localhost', []],
+      ['URL', 'http://localhost:8080', ['HOST', 'PORT']],
+      ['PORT', '8080', []],
+      ['WITH_DEFAULT', 'fallback', ['MISSING']],
+      ['LITERAL', '${HOST}', []],
+      ['ESCAPED', '$HOST', []],
+      ['UNKNOWN', undefined, ['NOPE']],
+      ['A', undefined, ['B']],
+      ['B', undefined, ['A']],
+    ]);
+  });
+});
+
+describe('scanDotEnvFiles', () => {
+  it('keeps empty values and the raw value of unresolved expansions', async () => {
+    const root = writeTree({ '.env': 'EMPTY=\nUNKNOWN=${NOPE}/x\nURL=http://${HOST}\nHOST=db\nQUOTED="a \\"b\\""\n' });
+    const envVars = await scanDotEnvFiles(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.value, ev.rawValue])).toEqual([
+      ['EMPTY', '', undefined],
+      ['UNKNOWN', undefined, '${NOPE}/x'],
+      ['URL', 'http://db', 'http://${HOST}'],
+      ['HOST', 'db', undefined],
+      ['QUOTED', 'a "b"', 'a \\"b\\"'],
+    ]);
+    expect(envVars.every((ev) => ev.valueSource === 'dotenv')).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { dynamicNamePattern } from '../src/dynamic.js';
+import { scan } from '../src/scanner.js';
+import { writeTree } from './fixtures.js';
+
+describe('dynamicNamePattern', () => {
+  it('turns computed keys into name patterns', () => {
+    expect(dynamicNamePattern('`FEATURE_${name}`')).toBe('FEATURE_*');
+    expect(dynamicNamePattern("'FEATURE_' + name.toUpperCase() + '_ENABLED'")).toBe('FEATURE_*_ENABLED');
+    expect(dynamicNamePattern('f"{prefix}_URL"')).toBe('*_URL');
+    expect(dynamicNamePattern('"DB_#{role}_HOST"')).toBe('DB_*_HOST');
+    expect(dynamicNamePattern('fmt.Sprintf("%s_TOKEN", svc)')).toBe('*_TOKEN');
+    expect(dynamicNamePattern('String.format("APP_%d_PORT", i)')).toBe('APP_*_PORT');
+    expect(dynamicNamePattern('"X_{}".format(name)')).toBe('X_*');
+    expect(dynamicNamePattern('"X_%s" % name')).toBe('X_*');
+  });
+
+  it('returns undefined without a usable literal part', () => {
+    expect(dynamicNamePattern('key')).toBeUndefined();
+    expect(dynamicNamePattern('`${a}${b}`')).toBeUndefined();
+    expect(dynamicNamePattern("'not a name: ' + x")).toBeUndefined();
+    expect(dynamicNamePattern("'LITERAL'")).toBeUndefined();
+    expect(dynamicNamePattern("'A_' + f(x")).toBeUndefined();
+  });
+});
+
+describe('scan dynamic access', () => {
+  it('reports computed reads separately from named ones', async () => {
+    const root = writeTree({
+      'src/app.js': 'const port = process.env.PORT;\nconst flag = process.env[`FEATURE_${name}`];\nconst any = process.env[key];\n',
+    });
+    const result = await scan(root, { engine: 'builtin' });
+
+    expect(result.envVars.map((ev) => ev.name)).toEqual(['PORT']);
+    expect(result.dynamicAccess?.map((d) => [d.line, d.expression, d.namePattern])).toEqual([
+      [2, '`FEATURE_${name}`', 'FEATURE_*'],
+      [3, 'key', undefined],
+    ]);
+  });
+});
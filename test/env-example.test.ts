@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { generateEnvExample, mergeEnvExample } from '../src/env-example.js';
+import { dotenv, read, result, runCli, writeTree } from './fixtures.js';
+
+describe('generateEnvExample', () => {
+  it('writes one entry per read with code defaults as sample values', () => {
+    const content = generateEnvExample(
+      result([
+        read('PORT', '8080'),
+        read('API_TOKEN', 'dev-token'),
+        read('GREETING', 'hello world'),
+        { ...read('DATABASE_URL'), line: 7 },
+        dotenv('ONLY_DEFINED', 'x'),
+      ]),
+      { isSensitive: (name) => name.endsWith('_TOKEN') }
+    );
+
+    expect(content).toBe(
+      [
+        '# Generated by envvars-scan',
+        '# Values are code defaults; sensitive values are left blank',
+        '',
+        '# Used in: src/app.ts:3',
+        'API_TOKEN=',
+        '',
+        '# Used in: src/app.ts:7',
+        'DATABASE_URL=',
+        '',
+        '# Used in: src/app.ts:3',
+        'GREETING="hello world"',
+        '',
+        '# Used in: src/app.ts:3',
+        'PORT=8080',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('limits the listed locations', () => {
+    const usages = [1, 2, 3, 4, 5].map((line) => ({ ...read('PORT'), line }));
+    expect(generateEnvExample(result(usages), { maxLocations: 2 })).toContain('# Used in: src/app.ts:1, src/app.ts:2, +3 more\nPORT=');
+  });
+});
+
+describe('mergeEnvExample', () => {
+  it('keeps existing content and appends missing variables', () => {
+    const existing = '# Local setup\nPORT=3000\n# DEBUG=true';
+    const { content, added } = mergeEnvExample(existing, result([read('PORT', '8080'), read('DEBUG'), read('REDIS_URL')]));
+
+    expect(added).toEqual(['REDIS_URL']);
+    expect(content).toBe('# Local setup\nPORT=3000\n# DEBUG=true\n\n# Used in: src/app.ts:3\nREDIS_URL=\n');
+  });
+
+  it('returns the file unchanged when nothing is missing', () => {
+    const existing = 'export PORT=3000\n';
+    expect(mergeEnvExample(existing, result([read('PORT')]))).toEqual({ content: existing, added: [] });
+  });
+});
+
+describe('generate env-example command', () => {
+  const tree = () =>
+    writeTree({
+      'src/app.js': 'const port = process.env.PORT || 3000;\nconst url = process.env.DATABASE_URL;\n',
+      '.env.example': '# Keep me\nPORT=1234\n',
+    });
+  const args = (root: string, ...flags: string[]) => ['generate', 'env-example', root, '--engine', 'builtin', ...flags];
+
+  it('refuses to overwrite an existing file', () => {
+    const root = tree();
+    const { status, stderr } = runCli(args(root));
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('.env.example already exists. Use --update to merge or --force to overwrite');
+    expect(readFileSync(join(root, '.env.example'), 'utf-8')).toBe('# Keep me\nPORT=1234\n');
+  }, 30_000);
+
+  it('merges with --update', () => {
+    const root = tree();
+    const { status } = runCli(args(root, '--update'));
+
+    expect(status).toBe(0);
+    expect(readFileSync(join(root, '.env.example'), 'utf-8')).toBe('# Keep me\nPORT=1234\n\n# Used in: src/app.js:2\nDATABASE_URL=\n');
+  }, 30_000);
+
+  it('regenerates with --force', () => {
+    const root = tree();
+    const { status } = runCli(args(root, '--force'));
+
+    const content = readFileSync(join(root, '.env.example'), 'utf-8');
+    expect(status).toBe(0);
+    expect(content).not.toContain('Keep me');
+    expect(content).toContain('# Used in: src/app.js:1\nPORT=3000\n');
+  }, 30_000);
+});
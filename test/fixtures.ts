@@ -0,0 +1,66 @@
+import { spawnSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach } from 'vitest';
+import type { EnvVar, ScanResult } from '../src/types.js';
+
+const created: string[] = [];
+
+afterEach(() => {
+  for (const dir of created.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Write files (relative path → content) into a fresh temp directory, removed after the test
+ */
+export function writeTree(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'envvars-test-'));
+  created.push(root);
+  for (const [path, content] of Object.entries(files)) {
+    const file = join(root, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+  }
+  return root;
+}
+
+const VITE_NODE = fileURLToPath(new URL('../node_modules/vite-node/vite-node.mjs', import.meta.url));
+const CLI = fileURLToPath(new URL('../src/cli.ts', import.meta.url));
+
+/**
+ * Run the CLI from source, without colors
+ */
+export function runCli(args: string[], env: NodeJS.ProcessEnv = {}): { status: number | null; stdout: string; stderr: string } {
+  const { status, stdout, stderr } = spawnSync(process.execPath, [VITE_NODE, CLI, ...args], {
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '0', ...env },
+  });
+  return { status, stdout, stderr };
+}
+
+export function result(envVars: EnvVar[], extra: Partial<ScanResult> = {}): ScanResult {
+  return { path: '/repo', envVars, errors: [], ...extra };
+}
+
+/**
+ * A .env definition
+ */
+export function dotenv(name: string, value: string, file = '/repo/.env'): EnvVar {
+  return { name, file, line: 1, language: 'dotenv', pattern: 'definition', value, valueSource: 'dotenv' };
+}
+
+/**
+ * A read in code, with a code default when value is given
+ */
+export function read(name: string, value?: string): EnvVar {
+  return {
+    name,
+    file: '/repo/src/app.ts',
+    line: 3,
+    language: 'javascript',
+    pattern: 'process.env.or.default',
+    ...(value !== undefined && { value, valueSource: 'code-default', isDefault: true }),
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { HclParseError, getAttribute, parseHcl } from '../src/hcl.js';
+
+describe('parseHcl', () => {
+  it('reads blocks, literals, collections and calls with their lines', () => {
+    const body = parseHcl(
+      [
+        '# comment',
+        'variable "region" {',
+        '  default = "eu-west-1"',
+        '}',
+        '',
+        'locals {',
+        '  name    = "api-${var.region}"',
+        '  count   = 3 // inline comment',
+        '  enabled = true',
+        '  tags    = { team = "core", "x-y" = null }',
+        '  list    = [1, "two", var.x]',
+        '  cidr    = cidrsubnet(var.vpc, 8, 1)',
+        '  cond    = var.a ? "y" : "n"',
+        '}',
+      ].join('\n')
+    );
+
+    expect(body.blocks.map((block) => [block.type, block.labels, block.line])).toEqual([
+      ['variable', ['region'], 2],
+      ['locals', [], 6],
+    ]);
+    expect(getAttribute(body.blocks[0].body, 'default')?.value).toEqual({ type: 'string', value: 'eu-west-1', line: 3 });
+
+    const locals = body.blocks[1].body;
+    expect(getAttribute(locals, 'name')?.value).toMatchObject({ type: 'string', value: 'api-${var.region}' });
+    expect(getAttribute(locals, 'count')?.value).toMatchObject({ type: 'number', value: '3', line: 8 });
+    expect(getAttribute(locals, 'enabled')?.value).toMatchObject({ type: 'bool', value: 'true' });
+
+    const tags = getAttribute(locals, 'tags')!.value;
+    expect(tags.type).toBe('object');
+    expect(getAttribute(tags as { items: never[] }, 'x-y')?.value).toMatchObject({ type: 'null' });
+
+    expect(getAttribute(locals, 'list')?.value).toMatchObject({
+      type: 'tuple',
+      items: [{ type: 'number', value: '1' }, { type: 'string', value: 'two' }, { type: 'expr', text: 'var.x' }],
+    });
+    expect(getAttribute(locals, 'cidr')?.value).toMatchObject({ type: 'call', name: 'cidrsubnet', args: [{ text: 'var.vpc' }, { value: '8' }, { value: '1' }] });
+    expect(getAttribute(locals, 'cond')?.value).toMatchObject({ type: 'expr', text: 'var.a ? "y" : "n"' });
+  });
+
+  it('reads heredocs and block comments', () => {
+    const body = parseHcl('/* block\ncomment */\nresource "aws_ecs_task_definition" "app" {\n  defs = <<-EOT\n    [{"name": "app"}]\n    EOT\n}\n');
+
+    const attr = getAttribute(body.blocks[0].body, 'defs');
+    expect(body.blocks[0].line).toBe(3);
+    expect(attr?.value).toMatchObject({ type: 'string', value: '[{"name": "app"}]', line: 5 });
+  });
+
+  it('throws HclParseError with the line of the problem', () => {
+    expect(() => parseHcl('locals {\n  a = 1\n')).toThrow(HclParseError);
+    try {
+      parseHcl('locals {\n  a = 1\n');
+    } catch (error) {
+      expect((error as HclParseError).line).toBeGreaterThanOrEqual(2);
+    }
+  });
+});
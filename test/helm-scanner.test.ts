@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { scanHelmCharts } from '../src/helm-scanner.js';
+import { writeTree } from './fixtures.js';
+
+const TEMPLATE = `apiVersion: apps/v1
+kind: Deployment
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          env:
+            - name: DB_HOST
+              value: {{ .Values.db.host | quote }}
+            - name: RELEASE
+              value: {{ .Release.Name }}
+            - name: MODE
+              value: "server"
+            {{- range $key, $value := .Values.extraEnv }}
+            - name: {{ $key }}
+              value: {{ $value | quote }}
+            {{- end }}
+`;
+
+describe('scanHelmCharts', () => {
+  it('resolves template values against values.yaml and values-<env>.yaml', async () => {
+    const root = writeTree({
+      'chart/Chart.yaml': 'apiVersion: v2\nname: app\nversion: 0.1.0\n',
+      'chart/values.yaml': 'db:\n  host: localhost\nextraEnv:\n  FEATURE_X: "on"\n',
+      'chart/values-prod.yaml': 'db:\n  host: db.prod\n',
+      'chart/templates/deployment.yaml': TEMPLATE,
+    });
+    const envVars = await scanHelmCharts(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.value, ev.valueSource, ev.environment])).toEqual([
+      ['DB_HOST', 'localhost', 'helm-values', undefined],
+      ['DB_HOST', 'db.prod', 'helm-values', 'prod'],
+      ['RELEASE', '{{ .Release.Name }}', 'helm-template', undefined],
+      ['MODE', 'server', 'helm-template', undefined],
+      ['FEATURE_X', 'on', 'helm-values', undefined],
+    ]);
+  });
+
+  it('applies upper, lower, trim and default in pipeline order', async () => {
+    const root = writeTree({
+      'chart/Chart.yaml': 'apiVersion: v2\nname: app\nversion: 0.1.0\n',
+      'chart/values.yml': 'mode: " Server "\nregion: eu-west-1\nempty: ""\n',
+      'chart/templates/deployment.yaml': `spec:
+  containers:
+    - name: api
+      env:
+        - name: MODE
+          value: {{ .Values.mode | trim | lower | quote }}
+        - name: REGION
+          value: {{ .Values.region | upper }}
+        - name: LEVEL
+          value: {{ .Values.empty | default "info" | upper }}
+        - name: TIER
+          value: {{ .Values.empty | upper | default "basic" }}
+        - name: NAME
+          value: {{ .Values.region | title }}
+`,
+    });
+    const envVars = await scanHelmCharts(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.value, ev.valueSource])).toEqual([
+      ['MODE', 'server', 'helm-values'],
+      ['REGION', 'EU-WEST-1', 'helm-values'],
+      ['LEVEL', 'INFO', 'helm-values'],
+      ['TIER', 'basic', 'helm-values'],
+      ['NAME', '{{ .Values.region | title }}', 'helm-template'],
+    ]);
+  });
+
+  it('ignores directories without a Chart.yaml', async () => {
+    const root = writeTree({ 'other/templates/deployment.yaml': TEMPLATE });
+    expect(await scanHelmCharts(root)).toEqual([]);
+  });
+});
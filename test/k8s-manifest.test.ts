@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { readManifestResources } from '../src/k8s-manifest.js';
+
+describe('readManifestResources', () => {
+  it('reads container env and envFrom from flow-style maps', () => {
+    const [pod] = readManifestResources(
+      [
+        'apiVersion: v1',
+        'kind: Pod',
+        'metadata: {name: worker, namespace: jobs}',
+        'spec:',
+        '  containers:',
+        '    - {name: main, env: [{name: MODE, value: batch}, {name: TOKEN, valueFrom: {secretKeyRef: {name: creds, key: token}}}]}',
+        '      ',
+        '    - name: sidecar',
+        '      envFrom: [{prefix: APP_, configMapRef: {name: shared, optional: true}}]',
+      ].join('\n'),
+      'pod.yaml'
+    );
+
+    expect(pod).toMatchObject({ kind: 'Pod', name: 'worker', namespace: 'jobs', line: 1 });
+    expect(pod.containers).toEqual([
+      {
+        name: 'main',
+        env: [
+          { name: 'MODE', value: 'batch', line: 6 },
+          { name: 'TOKEN', value: undefined, line: 6, valueFrom: { kind: 'Secret', name: 'creds', key: 'token' } },
+        ],
+        envFrom: [],
+      },
+      { name: 'sidecar', env: [], envFrom: [{ kind: 'ConfigMap', name: 'shared', prefix: 'APP_', optional: true, line: 9 }] },
+    ]);
+  });
+
+  it('unwraps List kinds', () => {
+    const resources = readManifestResources(
+      [
+        'apiVersion: v1',
+        'kind: List',
+        'items:',
+        '  - kind: ConfigMap',
+        '    metadata: {name: a}',
+        '    data: {A: "1"}',
+        '  - kind: Secret',
+        '    metadata: {name: b}',
+        '    data:',
+        '      B: dmFsdWU=',
+        '      GONE: null',
+      ].join('\n'),
+      'list.yaml'
+    );
+
+    expect(resources.map((r) => [r.kind, r.name, r.line, r.data])).toEqual([
+      ['ConfigMap', 'a', 4, [{ key: 'A', value: '1', line: 6 }]],
+      ['Secret', 'b', 7, [{ key: 'B', value: 'value', line: 10 }, { key: 'GONE', value: undefined, line: 11, remove: true }]],
+    ]);
+  });
+
+  it('finds containers and initContainers of a CronJob', () => {
+    const [cronJob] = readManifestResources(
+      [
+        'apiVersion: batch/v1',
+        'kind: CronJob',
+        'metadata:',
+        '  name: nightly',
+        'spec:',
+        '  schedule: "0 3 * * *"',
+        '  jobTemplate:',
+        '    spec:',
+        '      template:',
+        '        spec:',
+        '          initContainers:',
+        '            - name: migrate',
+        '              env:',
+        '                - name: DB_URL',
+        '                  value: postgres://db',
+        '          containers:',
+        '            - name: report',
+        '              env:',
+        '                - name: REPORT_DAY',
+        '                  value: "1"',
+      ].join('\n'),
+      'cron.yaml'
+    );
+
+    expect(cronJob.containers.map((c) => [c.name, c.env.map((e) => [e.name, e.value, e.line])])).toEqual([
+      ['migrate', [['DB_URL', 'postgres://db', 14]]],
+      ['report', [['REPORT_DAY', '1', 19]]],
+    ]);
+  });
+
+  it('reports YAML errors on the broken line and keeps reading other documents', () => {
+    const errors: string[] = [];
+    const resources = readManifestResources(
+      [
+        'kind: ConfigMap',
+        'metadata: {name: ok}',
+        'data: {A: "1"}',
+        '---',
+        'kind: ConfigMap',
+        'metadata:',
+        '  name: indented',
+        '  labels:',
+        '    app: x',
+        '   team: y',
+        '---',
+        'kind: ConfigMap',
+        'metadata: {name: broken}',
+        'data:',
+        '  B: "unclosed',
+        '  C: 3',
+        '  D: 4',
+      ].join('\n'),
+      'app.yaml',
+      { errors, lineOffset: 100 }
+    );
+
+    expect(resources.map((r) => r.name)).toEqual(['ok']);
+    expect(errors).toEqual([
+      'app.yaml:110: invalid YAML document: All mapping items must start at the same column',
+      'app.yaml:115: invalid YAML document: Missing closing "quote',
+    ]);
+  });
+
+  it('points unclosed flow collections at their opening line', () => {
+    const errors: string[] = [];
+    readManifestResources(['kind: Pod', 'metadata: {name: x', 'spec:', '  containers: []'].join('\n'), 'pod.yaml', { errors });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^pod\.yaml:2: invalid YAML document: /);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { addToDataIndex, resolveK8sRefs } from '../src/k8s-refs.js';
+import type { EnvFromRef, K8sDataIndex } from '../src/k8s-refs.js';
+import { scanK8sManifests } from '../src/k8s-scanner.js';
+import type { EnvVar } from '../src/types.js';
+import { writeTree } from './fixtures.js';
+
+function configMapEntry(name: string, value: string, namespace?: string): EnvVar {
+  return {
+    name,
+    file: '/repo/cm.yaml',
+    line: 5,
+    language: 'kubernetes',
+    pattern: 'configmap',
+    value,
+    valueSource: 'k8s-configmap',
+    k8s: { kind: 'ConfigMap', name: 'settings', ...(namespace && { namespace }) },
+  };
+}
+
+function workloadRead(namespace?: string): EnvVar {
+  return {
+    name: 'COLOR',
+    file: '/repo/deploy.yaml',
+    line: 12,
+    language: 'kubernetes',
+    pattern: 'deployment',
+    valueFrom: { kind: 'ConfigMap', name: 'settings', key: 'COLOR' },
+    k8s: { kind: 'Deployment', name: 'api', container: 'api', ...(namespace && { namespace }) },
+  };
+}
+
+describe('resolveK8sRefs', () => {
+  it('resolves references in the workload namespace', () => {
+    const index: K8sDataIndex = new Map();
+    addToDataIndex(index, 'prod', 'ConfigMap', 'settings', [configMapEntry('COLOR', 'red', 'prod')]);
+    addToDataIndex(index, 'staging', 'ConfigMap', 'settings', [configMapEntry('COLOR', 'blue', 'staging')]);
+
+    const prod = workloadRead('prod');
+    const staging = workloadRead('staging');
+    const errors: string[] = [];
+    resolveK8sRefs([prod, staging], [], index, errors);
+
+    expect(prod.value).toBe('red');
+    expect(staging.value).toBe('blue');
+    expect(errors).toEqual([]);
+  });
+
+  it('treats resources without a namespace as default', () => {
+    const index: K8sDataIndex = new Map();
+    addToDataIndex(index, undefined, 'ConfigMap', 'settings', [configMapEntry('COLOR', 'green')]);
+
+    const read = workloadRead('default');
+    const other = workloadRead('prod');
+    const errors: string[] = [];
+    resolveK8sRefs([read, other], [], index, errors);
+
+    expect(read.value).toBe('green');
+    expect(other.valueFrom?.missing).toBe('resource');
+    expect(errors).toEqual(['/repo/deploy.yaml:12: COLOR references ConfigMap "settings" which is not defined']);
+  });
+
+  it('expands envFrom with its prefix and reports missing keys', () => {
+    const index: K8sDataIndex = new Map();
+    addToDataIndex(index, undefined, 'ConfigMap', 'settings', [configMapEntry('COLOR', 'green')]);
+
+    const from: EnvFromRef = { kind: 'ConfigMap', name: 'settings', prefix: 'APP_', file: '/repo/deploy.yaml', line: 14, pattern: 'deployment' };
+    const missingKey: EnvVar = { ...workloadRead(), valueFrom: { kind: 'ConfigMap', name: 'settings', key: 'SIZE' } };
+    const errors: string[] = [];
+    const expanded = resolveK8sRefs([missingKey], [from], index, errors);
+
+    expect(expanded).toMatchObject([{ name: 'APP_COLOR', value: 'green', valueFrom: { kind: 'ConfigMap', name: 'settings', key: 'COLOR' } }]);
+    expect(missingKey.valueFrom?.missing).toBe('key');
+    expect(errors).toEqual(['/repo/deploy.yaml:12: COLOR references key "SIZE" which is not in ConfigMap "settings"']);
+  });
+});
+
+describe('scanK8sManifests references', () => {
+  it('does not mix up same-named ConfigMaps across namespaces', async () => {
+    const manifest = (namespace: string, color: string) => `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: settings
+  namespace: ${namespace}
+data:
+  COLOR: ${color}
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: ${namespace}
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          env:
+            - name: COLOR
+              valueFrom:
+                configMapKeyRef:
+                  name: settings
+                  key: COLOR
+`;
+    const root = writeTree({ 'prod.yaml': manifest('prod', 'red'), 'staging.yaml': manifest('staging', 'blue') });
+    const envVars = await scanK8sManifests(root);
+
+    const reads = envVars.filter((ev) => ev.pattern === 'deployment');
+    expect(reads.map((ev) => [ev.k8s?.namespace, ev.value]).sort()).toEqual([
+      ['prod', 'red'],
+      ['staging', 'blue'],
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { scanK8sManifests } from '../src/k8s-scanner.js';
+import { runCli, writeTree } from './fixtures.js';
+
+const DEPLOYMENT = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          image: "repo/{{ not-helm }}"
+          env:
+            - name: LOG_LEVEL
+              value: debug
+          envFrom:
+            - configMapRef:
+                name: shared
+`;
+
+const CONFIGMAP = `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: shared
+data:
+  REGION: eu-west-1
+`;
+
+describe('scanK8sManifests', () => {
+  it('scans plain manifests that contain {{ }} outside a chart', async () => {
+    const root = writeTree({ 'k8s/app.yaml': `${DEPLOYMENT}---\n${CONFIGMAP}` });
+    const errors: string[] = [];
+    const envVars = await scanK8sManifests(root, undefined, errors);
+
+    expect(errors).toEqual([]);
+    expect(envVars.map((ev) => [ev.name, ev.pattern, ev.value])).toEqual(
+      expect.arrayContaining([
+        ['REGION', 'configmap', 'eu-west-1'],
+        ['LOG_LEVEL', 'deployment', 'debug'],
+        ['REGION', 'deployment', 'eu-west-1'],
+      ])
+    );
+  });
+
+  it('skips templates of a Helm chart but not other YAML next to it', async () => {
+    const root = writeTree({
+      'chart/Chart.yaml': 'apiVersion: v2\nname: app\nversion: 0.1.0\n',
+      'chart/templates/configmap.yaml': CONFIGMAP.replace('eu-west-1', '{{ .Values.region }}'),
+      'chart/extra/configmap.yaml': CONFIGMAP,
+    });
+    const envVars = await scanK8sManifests(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.value])).toEqual([['REGION', 'eu-west-1']]);
+    expect(envVars[0].file).toMatch(/extra\/configmap\.yaml$/);
+  });
+
+  it('reports references to missing ConfigMaps', async () => {
+    const root = writeTree({ 'deploy.yaml': DEPLOYMENT });
+    const errors: string[] = [];
+    await scanK8sManifests(root, undefined, errors);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('envFrom references ConfigMap "shared" which is not defined');
+  });
+});
+
+const WORKLOADS = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: prod
+spec:
+  template:
+    spec:
+      initContainers:
+        - name: migrate
+          env:
+            - name: DB_URL
+              value: postgres://db
+      containers:
+        - name: web
+          env:
+            - name: LOG_LEVEL
+              value: info
+          envFrom:
+            - configMapRef:
+                name: shared
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: shared
+  namespace: prod
+data:
+  REGION: eu-west-1
+---
+apiVersion: batch/v1
+kind: Job
+metadata:
+  name: api
+spec:
+  template:
+    spec:
+      containers:
+        - name: seed
+          env:
+            - name: SEED_SIZE
+              value: "10"
+`;
+
+describe('k8s attribution', () => {
+  it('records the resource, namespace and container of each finding', async () => {
+    const root = writeTree({ 'k8s/app.yaml': WORKLOADS });
+    const envVars = await scanK8sManifests(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.k8s])).toEqual(
+      expect.arrayContaining([
+        ['DB_URL', { kind: 'Deployment', name: 'api', namespace: 'prod', container: 'migrate' }],
+        ['LOG_LEVEL', { kind: 'Deployment', name: 'api', namespace: 'prod', container: 'web' }],
+        ['REGION', { kind: 'Deployment', name: 'api', namespace: 'prod', container: 'web' }],
+        ['REGION', { kind: 'ConfigMap', name: 'shared', namespace: 'prod' }],
+        ['SEED_SIZE', { kind: 'Job', name: 'api', container: 'seed' }],
+      ])
+    );
+  });
+});
+
+describe('--workload and --namespace', () => {
+  const scan = (...flags: string[]) => {
+    const root = writeTree({ 'k8s/app.yaml': WORKLOADS, 'src/app.js': 'const port = process.env.PORT;\n' });
+    const { status, stdout } = runCli([root, '--engine', 'builtin', '--k8s', '--json', ...flags]);
+    expect(status).toBe(0);
+    const envVars: { name: string; k8s?: { kind: string } }[] = JSON.parse(stdout).envVars;
+    return envVars.map((ev) => `${ev.k8s?.kind}:${ev.name}`).sort();
+  };
+
+  it('keeps the k8s findings of one workload name', () => {
+    expect(scan('--workload', 'api')).toEqual(['Deployment:DB_URL', 'Deployment:LOG_LEVEL', 'Deployment:REGION', 'Job:SEED_SIZE']);
+  }, 30_000);
+
+  it('treats resources without a namespace as default', () => {
+    expect(scan('--namespace', 'default')).toEqual(['Job:SEED_SIZE']);
+    expect(scan('--workload', 'api', '--namespace', 'prod')).toEqual(['Deployment:DB_URL', 'Deployment:LOG_LEVEL', 'Deployment:REGION']);
+  }, 30_000);
+
+  it('groups text output by resource and container', () => {
+    const root = writeTree({ 'k8s/app.yaml': WORKLOADS });
+    const { stdout } = runCli([root, '--engine', 'builtin', '--k8s', '--group-by', 'workload', '--namespace', 'prod']);
+
+    expect(stdout).toContain(
+      ['  Deployment prod/api', '    container migrate', `      DB_URL ${root}/k8s/app.yaml:12`, '    container web', `      LOG_LEVEL ${root}/k8s/app.yaml:17`].join('\n')
+    );
+    expect(stdout).toContain('Total: 2 k8s resources, 4 usages');
+  }, 30_000);
+});
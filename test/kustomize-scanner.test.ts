@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildKustomizeOverlays } from '../src/kustomize-scanner.js';
+import { writeTree } from './fixtures.js';
+
+const DEPLOYMENT = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          env:
+            - name: LOG_LEVEL
+              value: info
+            - name: COLOR
+              valueFrom:
+                configMapKeyRef:
+                  name: settings
+                  key: COLOR
+`;
+
+const BASE = {
+  'base/kustomization.yaml': 'resources:\n  - deployment.yaml\nconfigMapGenerator:\n  - name: settings\n    literals:\n      - COLOR=blue\n',
+  'base/deployment.yaml': DEPLOYMENT,
+};
+
+describe('buildKustomizeOverlays', () => {
+  it('applies generators and patches per overlay', async () => {
+    const root = writeTree({
+      ...BASE,
+      'overlays/prod/kustomization.yaml': [
+        'resources:',
+        '  - ../../base',
+        'configMapGenerator:',
+        '  - name: settings',
+        '    behavior: merge',
+        '    envs:',
+        '      - prod.env',
+        'patches:',
+        '  - path: patch.yaml',
+      ].join('\n'),
+      'overlays/prod/prod.env': '# production\nexport COLOR="red" # quoted\n',
+      'overlays/prod/patch.yaml': DEPLOYMENT.replace('value: info', 'value: warn'),
+    });
+    const errors: string[] = [];
+    const build = await buildKustomizeOverlays(root, undefined, errors);
+
+    expect(errors).toEqual([]);
+    const workload = build.envVars.filter((ev) => ev.pattern === 'deployment');
+    expect(workload.map((ev) => [ev.name, ev.value, ev.environment])).toEqual([
+      ['LOG_LEVEL', 'warn', 'prod'],
+      ['COLOR', 'red', 'prod'],
+    ]);
+    expect(workload[1].valueFrom).toEqual({ kind: 'ConfigMap', name: 'settings', key: 'COLOR' });
+    expect([...build.overlayFiles].map((file) => file.slice(root.length))).toEqual(['/overlays/prod/patch.yaml']);
+  });
+
+  it('indexes base generators for plain manifests', async () => {
+    const root = writeTree(BASE);
+    const build = await buildKustomizeOverlays(root);
+
+    expect(build.envVars.map((ev) => [ev.name, ev.value])).toEqual([['COLOR', 'blue']]);
+    expect(build.baseIndex.get('default/ConfigMap/settings')?.map((ev) => ev.value)).toEqual(['blue']);
+  });
+
+  it('reports kustomizations that cannot be built', async () => {
+    const root = writeTree({
+      ...BASE,
+      'overlays/dev/kustomization.yaml': 'resources:\n  - ../../base\nconfigMapGenerator:\n  - name: extra\n    envs:\n      - missing.env\n',
+    });
+    const errors: string[] = [];
+    const build = await buildKustomizeOverlays(root, undefined, errors);
+
+    expect(build.envVars.some((ev) => ev.environment === 'dev')).toBe(false);
+    expect(errors).toEqual([`${root}/overlays/dev/kustomization.yaml: env file "${root}/overlays/dev/missing.env" can't be read`]);
+  });
+});
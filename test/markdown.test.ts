@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { compareResults } from '../src/compare.js';
+import { MARKDOWN_COMMENT_MARKER, renderCompareMarkdown } from '../src/markdown.js';
+import { dotenv, read, result } from './fixtures.js';
+
+describe('renderCompareMarkdown', () => {
+  const base = result([read('KEEP'), read('GONE'), dotenv('PORT', '3000')]);
+  const head = result([read('KEEP'), { ...read('NEW'), line: 7 }, { ...dotenv('NEW', 'a|b'), line: 2 }, dotenv('PORT', '4000')]);
+
+  it('renders added, removed, changed and unchanged variables as tables', () => {
+    const markdown = renderCompareMarkdown(compareResults(base, head), base, head);
+
+    expect(markdown).toBe(
+      [
+        MARKDOWN_COMMENT_MARKER,
+        '### Env Var Changes',
+        '',
+        '#### Added (1)',
+        '',
+        '| Variable | Location | Sources |',
+        '| --- | --- | --- |',
+        '| `NEW` | `src/app.ts:7` | dotenv, javascript |',
+        '',
+        '#### Removed (1)',
+        '',
+        '| Variable | Was in |',
+        '| --- | --- |',
+        '| `GONE` | `src/app.ts:3` |',
+        '',
+        '#### Changed (1)',
+        '',
+        '| Variable | Change | Location |',
+        '| --- | --- | --- |',
+        '| `PORT` | value: 3000 → 4000 | `.env:1` |',
+        '',
+        '<details>',
+        '<summary>Unchanged (1)</summary>',
+        '',
+        '`KEEP`',
+        '',
+        '</details>',
+        '',
+        '**Summary:** 1 added, 1 removed, 1 changed, 1 unchanged',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('links head locations but not removed ones', () => {
+    const markdown = renderCompareMarkdown(compareResults(base, head), base, head, {
+      title: 'Env Var Changes (main → current)',
+      linkBase: 'https://github.com/org/repo/blob/abc123/',
+    });
+
+    expect(markdown).toContain('### Env Var Changes (main → current)');
+    expect(markdown).toContain('| `NEW` | [`src/app.ts:7`](https://github.com/org/repo/blob/abc123/src/app.ts#L7) |');
+    expect(markdown).toContain('| `GONE` | `src/app.ts:3` |');
+    expect(markdown).toContain('| `PORT` | value: 3000 → 4000 | [`.env:1`](https://github.com/org/repo/blob/abc123/.env#L1) |');
+  });
+
+  it('strips separate base and head roots and escapes table cells', () => {
+    const worktree = result([dotenv('URL', 'a')], { path: '/tmp/base' });
+    const current = result([{ ...dotenv('URL', 'b|c'), file: '/repo/config/.env' }]);
+    worktree.envVars[0].file = '/tmp/base/config/.env';
+
+    const markdown = renderCompareMarkdown(compareResults(worktree, current), worktree, current, {
+      roots: { base: '/tmp/base', head: '/repo' },
+    });
+
+    expect(markdown).toContain('| `URL` | value: a → b\\|c | `config/.env:1` |');
+  });
+
+  it('says so when nothing changed', () => {
+    const markdown = renderCompareMarkdown(compareResults(base, base), base, base);
+
+    expect(markdown).toContain('No env var changes detected.');
+    expect(markdown).not.toContain('####');
+    expect(markdown).toContain('**Summary:** 0 added, 0 removed, 0 changed, 3 unchanged');
+  });
+});
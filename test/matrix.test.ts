@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildEnvMatrix, inferEnvironment, renderMatrixCsv } from '../src/matrix.js';
+import { dotenv, read, result } from './fixtures.js';
+
+describe('inferEnvironment', () => {
+  it('reads the environment from .env file names, overlays and namespaces', () => {
+    expect(inferEnvironment(dotenv('A', '1', '/repo/.env.production'))).toBe('production');
+    expect(inferEnvironment(dotenv('A', '1', '/repo/.env.staging.local'))).toBe('staging');
+    expect(inferEnvironment(dotenv('A', '1', '/repo/prod.env'))).toBe('prod');
+    expect(inferEnvironment(dotenv('A', '1', '/repo/.env.local'))).toBeUndefined();
+    expect(inferEnvironment({ ...dotenv('A', '1'), language: 'kubernetes', k8s: { kind: 'Deployment', name: 'api', namespace: 'myapp-prd' } }, { production: ['prd'] })).toBe('production');
+  });
+});
+
+describe('buildEnvMatrix', () => {
+  it('marks variables set, defaulted or missing per environment', () => {
+    const matrix = buildEnvMatrix(
+      result([
+        dotenv('DB_URL', 'postgres://prod', '/repo/.env.production'),
+        dotenv('DB_URL', 'postgres://staging', '/repo/.env.staging'),
+        dotenv('SENTRY_DSN', 'https://sentry', '/repo/.env.production'),
+        read('PORT', '8080'),
+      ])
+    );
+
+    expect(matrix.environments).toEqual(['production', 'staging']);
+    expect(matrix.rows.map((row) => [row.name, row.cells.production.status, row.cells.staging.status, row.inconsistent])).toEqual([
+      ['DB_URL', 'set', 'set', false],
+      ['PORT', 'default', 'default', false],
+      ['SENTRY_DSN', 'set', 'missing', true],
+    ]);
+  });
+
+  it('prefers a shared definition over a code default', () => {
+    const matrix = buildEnvMatrix(
+      result([
+        read('PORT', '2'),
+        dotenv('PORT', '3000'),
+        dotenv('DEBUG', 'true', '/repo/.env.staging'),
+      ])
+    );
+
+    const port = matrix.rows.find((row) => row.name === 'PORT')!;
+    expect(port.cells.staging).toMatchObject({ status: 'default', value: '3000', valueSource: 'dotenv', file: '/repo/.env' });
+  });
+
+  it('skips .env templates and formats values', () => {
+    const matrix = buildEnvMatrix(
+      result([dotenv('API_KEY', 'changeme', '/repo/.env.example'), dotenv('API_KEY', 'sk-live', '/repo/.env.production')]),
+      { formatValue: (_name, value) => `${value.slice(0, 2)}****` }
+    );
+
+    expect(matrix.environments).toEqual(['production']);
+    expect(renderMatrixCsv(matrix)).toBe('name,production,production_value,inconsistent\nAPI_KEY,set,sk****,false\n');
+  });
+});
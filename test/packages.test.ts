@@ -0,0 +1,80 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { assignPackages, detectPackages, findPackage } from '../src/packages.js';
+import type { EnvVar } from '../src/types.js';
+import { writeTree } from './fixtures.js';
+
+describe('detectPackages', () => {
+  it('reads package names from each kind of manifest', async () => {
+    const root = writeTree({
+      'services/web/package.json': JSON.stringify({ name: '@shop/web' }),
+      'services/api/go.mod': 'module github.com/acme/shop/services/api/v2\n\ngo 1.22\n',
+      'services/ml/pyproject.toml': '[tool.poetry]\nname = "ml-worker"\n',
+      'services/rs/Cargo.toml': '[package]\nname = "edge"\nversion = "0.1.0"\n',
+      'Cargo.toml': '[workspace]\nmembers = ["services/rs"]\n',
+      'services/billing/pom.xml':
+        '<project><parent><artifactId>shop-parent</artifactId></parent><artifactId>billing</artifactId></project>',
+      'services/jvm/build.gradle': '',
+      'services/jvm/settings.gradle': "rootProject.name = 'ledger'\n",
+    });
+    const packages = await detectPackages(root);
+
+    expect(packages.map((pkg) => [pkg.name, pkg.kind, pkg.dir.slice(root.length)])).toEqual([
+      ['@shop/web', 'npm', '/services/web'],
+      ['api', 'go', '/services/api'],
+      ['billing', 'maven', '/services/billing'],
+      ['edge', 'cargo', '/services/rs'],
+      ['ledger', 'gradle', '/services/jvm'],
+      ['ml-worker', 'python', '/services/ml'],
+    ]);
+  });
+
+  it('only counts package.json inside declared workspaces', async () => {
+    const root = writeTree({
+      'package.json': JSON.stringify({ name: 'root', workspaces: ['packages/*', '!packages/ignored'] }),
+      'packages/a/package.json': JSON.stringify({ name: 'a' }),
+      'packages/ignored/package.json': JSON.stringify({ name: 'ignored' }),
+      'examples/demo/package.json': JSON.stringify({ name: 'demo' }),
+    });
+    const packages = await detectPackages(root);
+
+    expect(packages.map((pkg) => pkg.name)).toEqual(['a', 'root']);
+  });
+
+  it('adds configured roots and disambiguates duplicate names', async () => {
+    const root = writeTree({
+      'apps/one/package.json': JSON.stringify({ name: 'app' }),
+      'apps/two/package.json': JSON.stringify({ name: 'app' }),
+      'scripts/jobs/run.sh': '',
+    });
+    const packages = await detectPackages(root, undefined, ['scripts/*']);
+
+    expect(packages.map((pkg) => [pkg.name, pkg.kind])).toEqual([
+      ['apps/one', 'npm'],
+      ['apps/two', 'npm'],
+      ['scripts/jobs', 'config'],
+    ]);
+  });
+});
+
+describe('findPackage and assignPackages', () => {
+  it('attributes files to the deepest package root', () => {
+    const packages = [
+      { name: 'root', dir: '/repo', kind: 'npm' as const },
+      { name: 'api', dir: '/repo/services/api', kind: 'go' as const },
+      { name: 'api-v2', dir: '/repo/services/api-v2', kind: 'go' as const },
+    ];
+
+    expect(findPackage('/repo/services/api/main.go', packages)?.name).toBe('api');
+    expect(findPackage('/repo/services/api-v2/main.go', packages)?.name).toBe('api-v2');
+    expect(findPackage('/repo/README.md', packages)?.name).toBe('root');
+    expect(findPackage('/elsewhere/x', packages)).toBeUndefined();
+
+    const envVars: EnvVar[] = [
+      { name: 'PORT', file: join('/repo/services/api', '.env'), line: 1, language: 'dotenv', pattern: 'definition' },
+      { name: 'HOME', file: '/elsewhere/x.sh', line: 1, language: 'shell', pattern: 'read' },
+    ];
+    assignPackages(envVars, packages);
+    expect(envVars.map((ev) => ev.package)).toEqual(['api', undefined]);
+  });
+});
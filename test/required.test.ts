@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { classifyRequired, inferReadRequired, requiredByName, resolveRequired } from '../src/required.js';
+import { scan } from '../src/scanner.js';
+import type { EnvVar } from '../src/types.js';
+import { writeTree } from './fixtures.js';
+
+function read(name: string, required?: EnvVar['required'], extra: Partial<EnvVar> = {}): EnvVar {
+  return { name, file: '/repo/app.py', line: 1, language: 'python', pattern: 'os.environ', ...(required !== undefined && { required }), ...extra };
+}
+
+describe('inferReadRequired', () => {
+  it('classifies reads by rule and surrounding code', () => {
+    expect(inferReadRequired('python-os-environ-bracket', false, 'x = ', '')).toBe(true);
+    expect(inferReadRequired('python-django-env-bool', false, '', '"DEBUG", default=False)')).toBe(false);
+    expect(inferReadRequired('ruby-env-fetch', false, '', ' { "dev" }')).toBe(false);
+    expect(inferReadRequired('python-os-getenv', false, '', ')')).toBe(false);
+    expect(inferReadRequired('js-process-env-dot', false, '', '')).toBe('unknown');
+    expect(inferReadRequired('js-process-env-or-default', false, '', '')).toBe(false);
+    expect(inferReadRequired('go-os-getenv', true, '', '')).toBe(false);
+  });
+
+  it('treats failing conversions as required', () => {
+    expect(inferReadRequired('rust-env-var', false, '', '.unwrap();')).toBe(true);
+    expect(inferReadRequired('rust-env-var', false, '', '?;')).toBe(true);
+    expect(inferReadRequired('kotlin-system-getenv', false, '', '!!')).toBe(true);
+    expect(inferReadRequired('java-system-getenv', false, 'Objects.requireNonNull(', ')')).toBe(true);
+    // A JS ternary is not Rust's ?
+    expect(inferReadRequired('js-process-env-dot', false, '', ' ? a : b')).toBe('unknown');
+  });
+});
+
+describe('classifyRequired and resolveRequired', () => {
+  it('fills in reads and leaves definitions alone', () => {
+    const envVars = [
+      read('A'),
+      read('B', undefined, { isDefault: true, value: 'x' }),
+      read('C', undefined, { language: 'dotenv', pattern: 'definition', file: '/repo/.env' }),
+    ];
+    classifyRequired(envVars);
+
+    expect(envVars.map((ev) => ev.required)).toEqual(['unknown', false, undefined]);
+  });
+
+  it('rolls up reads per variable', () => {
+    expect(resolveRequired([read('A', false), read('A', true)])).toBe(true);
+    expect(resolveRequired([read('A', false), read('A', false)])).toBe(false);
+    expect(resolveRequired([read('A', false), read('A', 'unknown')])).toBe('unknown');
+    expect(resolveRequired([read('A')])).toBeUndefined();
+    expect(requiredByName([read('B', false), read('A', true), read('C')])).toEqual({ A: true, B: false });
+  });
+});
+
+describe('scan required', () => {
+  it('marks code reads required, optional or unknown', async () => {
+    const root = writeTree({
+      'app.py': 'import os\na = os.environ["DB_URL"]\nb = os.environ.get("LOG_LEVEL")\nc = os.getenv("PORT", "8000")\n',
+      'app.js': 'const host = process.env.HOST;\n',
+    });
+    const result = await scan(root, { engine: 'builtin' });
+
+    expect(result.envVars.map((ev) => [ev.name, ev.required]).sort()).toEqual([
+      ['DB_URL', true],
+      ['HOST', 'unknown'],
+      ['LOG_LEVEL', false],
+      ['PORT', false],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { getRuleId, toSarif } from '../src/sarif.js';
+import { dotenv, read, result } from './fixtures.js';
+
+interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: {
+    tool: { driver: { name: string; version?: string; rules: { id: string }[] } };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    invocations: { executionSuccessful: boolean; toolExecutionNotifications: { message: { text: string } }[] }[];
+    results: {
+      ruleId: string;
+      ruleIndex: number;
+      level: string;
+      message: { text: string };
+      locations: { physicalLocation: { artifactLocation: { uri: string; uriBaseId: string }; region: Record<string, number> } }[];
+      partialFingerprints: Record<string, string>;
+      properties: Record<string, unknown>;
+    }[];
+  }[];
+}
+
+const codeRead = (line: number, column?: number) => ({ ...read('API_URL'), ruleId: 'js-process-env-dot', line, column });
+
+describe('getRuleId', () => {
+  it('uses the semgrep rule id for code and language-pattern otherwise', () => {
+    expect(getRuleId(codeRead(1))).toBe('js-process-env-dot');
+    expect(getRuleId(dotenv('PORT', '3000'))).toBe('dotenv-definition');
+    expect(getRuleId({ ...dotenv('PORT', '3000'), language: 'docker-compose', pattern: 'environment-definition' })).toBe(
+      'docker-compose-environment-definition'
+    );
+  });
+});
+
+describe('toSarif', () => {
+  it('writes a SARIF 2.1.0 log with a rule per finding kind', () => {
+    const log = toSarif(result([codeRead(3), dotenv('PORT', '3000'), { ...read('X'), language: 'elixir', pattern: 'System.get_env' }]), {
+      toolVersion: '1.2.3',
+    }) as SarifLog;
+    const [run] = log.runs;
+    const ruleIds = run.tool.driver.rules.map((r) => r.id);
+
+    expect(log.$schema).toBe('https://json.schemastore.org/sarif-2.1.0.json');
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({ name: 'envvars-scan', version: '1.2.3' });
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///repo/');
+    expect(run.results.map((r) => [r.ruleId, ruleIds[r.ruleIndex], r.level, r.message.text])).toEqual([
+      ['js-process-env-dot', 'js-process-env-dot', 'note', 'Environment variable API_URL is read'],
+      ['dotenv-definition', 'dotenv-definition', 'note', 'Environment variable PORT is defined'],
+      ['elixir-system-get-env', 'elixir-system-get-env', 'note', 'Environment variable X is read'],
+    ]);
+    expect(run.results[1].properties).toEqual({ name: 'PORT', language: 'dotenv', usage: 'definition', valueSource: 'dotenv' });
+    expect(JSON.stringify(log)).not.toContain('3000');
+  });
+
+  it('points each result at its file, line and column', () => {
+    const [run] = (toSarif(result([{ ...codeRead(3, 14), endLine: 3, endColumn: 29 }])) as SarifLog).runs;
+
+    expect(run.results[0].locations).toEqual([
+      {
+        physicalLocation: {
+          artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 3, startColumn: 14, endLine: 3, endColumn: 29 },
+        },
+      },
+    ]);
+  });
+
+  it('fingerprints every usage separately and stably', () => {
+    const fingerprints = (envVars: ReturnType<typeof codeRead>[]) =>
+      (toSarif(result(envVars)) as SarifLog).runs[0].results.map((r) => r.partialFingerprints['envVarLocation/v1']);
+
+    const [first, second, other] = fingerprints([codeRead(3), codeRead(9), { ...codeRead(3), file: '/repo/src/other.ts' }]);
+    expect(new Set([first, second, other]).size).toBe(3);
+    expect(fingerprints([codeRead(3)])).toEqual([first]);
+  });
+
+  it('reports scanner errors as notifications of an unsuccessful run', () => {
+    const ok = (toSarif(result([])) as SarifLog).runs[0].invocations[0];
+    const failed = (toSarif(result([], { errors: ['k8s/app.yaml:3: bad indentation'] })) as SarifLog).runs[0].invocations[0];
+
+    expect(ok).toEqual({ executionSuccessful: true, toolExecutionNotifications: [] });
+    expect(failed.executionSuccessful).toBe(false);
+    expect(failed.toolExecutionNotifications.map((n) => n.message.text)).toEqual(['k8s/app.yaml:3: bad indentation']);
+  });
+});
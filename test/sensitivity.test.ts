@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isSensitiveVar, maskScanResult, maskValue } from '../src/sensitivity.js';
+import { dotenv, result, runCli, writeTree } from './fixtures.js';
+
+describe('isSensitiveVar', () => {
+  it('matches name words, extra patterns and sensitive sources', () => {
+    expect(isSensitiveVar('API_KEY')).toBe(true);
+    expect(isSensitiveVar('apiKey')).toBe(true);
+    expect(isSensitiveVar('MONKEY_COUNT')).toBe(false);
+    expect(isSensitiveVar('STRIPE_ID', undefined, { patterns: ['^STRIPE_'] })).toBe(true);
+    expect(isSensitiveVar('TOKEN_TTL', undefined, { allowNames: ['TOKEN_TTL'] })).toBe(false);
+    expect(isSensitiveVar('REGION', 'k8s-secret')).toBe(true);
+  });
+});
+
+describe('maskValue', () => {
+  it('masks partially, fully or not at all', () => {
+    expect(maskValue('sk-live-1234')).toBe('sk****34');
+    expect(maskValue('abcdef')).toBe('a****f');
+    expect(maskValue('abc')).toBe('****');
+    expect(maskValue('sk-live-1234', 'full')).toBe('****');
+    expect(maskValue('sk-live-1234', 'omit')).toBeUndefined();
+  });
+
+  it('fingerprints with a keyed HMAC', () => {
+    const hashed = maskValue('hunter2', 'hash', 'ci-secret');
+
+    expect(hashed).toMatch(/^hmac:[0-9a-f]{12}$/);
+    expect(maskValue('hunter2', 'hash', 'ci-secret')).toBe(hashed);
+    expect(maskValue('hunter3', 'hash', 'ci-secret')).not.toBe(hashed);
+    expect(maskValue('hunter2', 'hash', 'other-key')).not.toBe(hashed);
+  });
+
+  it('refuses to hash without a key', () => {
+    expect(() => maskValue('hunter2', 'hash')).toThrow('Hash masks need a hashKey');
+  });
+});
+
+describe('maskScanResult', () => {
+  it('masks sensitive values and records the mode', () => {
+    const masked = maskScanResult(result([dotenv('DB_PASSWORD', 'hunter22'), dotenv('PORT', '3000')]), { mask: 'full' });
+
+    expect(masked.mask).toBe('full');
+    expect(masked.envVars.map((ev) => ev.value)).toEqual(['****', '3000']);
+  });
+});
+
+describe('--json masking', () => {
+  const scan = (flags: string[], env: NodeJS.ProcessEnv = {}) =>
+    runCli([writeTree({ '.env': 'DB_PASSWORD=hunter22\n' }), '--engine', 'builtin', '--json', ...flags], env);
+
+  it('defaults to partial masks without a hash key', () => {
+    const { status, stdout } = scan([]);
+    const output = JSON.parse(stdout);
+
+    expect(status).toBe(0);
+    expect(output.mask).toBe('partial');
+    expect(output.envVars[0].value).toBe(maskValue('hunter22'));
+  }, 30_000);
+
+  it('defaults to keyed hash masks with ENVVARS_SCAN_HASH_KEY', () => {
+    const { stdout } = scan([], { ENVVARS_SCAN_HASH_KEY: 'ci-secret' });
+    const output = JSON.parse(stdout);
+
+    expect(output.mask).toBe('hash');
+    expect(output.envVars[0].value).toBe(maskValue('hunter22', 'hash', 'ci-secret'));
+  }, 30_000);
+
+  it('rejects --mask hash without a key', () => {
+    const { status, stderr } = scan(['--mask', 'hash']);
+
+    expect(status).toBe(1);
+    expect(stderr).toContain('Hash masks need a secret key: set ENVVARS_SCAN_HASH_KEY');
+  }, 30_000);
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { forEachExpansion, literalShellValue, scanShellScripts } from '../src/shell-scanner.js';
+import type { Expansion } from '../src/shell-scanner.js';
+import { writeTree } from './fixtures.js';
+
+function expansions(text: string): Omit<Expansion, 'next'>[] {
+  const found: Omit<Expansion, 'next'>[] = [];
+  forEachExpansion(text, ({ next: _next, ...exp }) => found.push(exp));
+  return found;
+}
+
+describe('forEachExpansion', () => {
+  it('finds simple, braced and nested expansions', () => {
+    expect(expansions('echo $A ${B} ${C:-${D}} ${#E} $1 $@ $_')).toEqual([
+      { name: 'A', start: 5 },
+      { name: 'B', start: 8 },
+      { name: 'C', start: 13, operator: ':-', word: '${D}' },
+      { name: 'D', start: 18 },
+      { name: 'E', start: 24 },
+    ]);
+  });
+
+  it('records operators and words', () => {
+    expect(expansions('${A=x} ${B:?missing} ${C+alt}').map((exp) => [exp.name, exp.operator, exp.word])).toEqual([
+      ['A', '=', 'x'],
+      ['B', ':?', 'missing'],
+      ['C', '+', 'alt'],
+    ]);
+  });
+});
+
+describe('literalShellValue', () => {
+  it('unquotes literals and rejects expansions', () => {
+    expect(literalShellValue(' plain ')).toBe('plain');
+    expect(literalShellValue('"double quoted"')).toBe('double quoted');
+    expect(literalShellValue("'$single'")).toBe('$single');
+    expect(literalShellValue('"$OTHER"')).toBeUndefined();
+    expect(literalShellValue('`date`')).toBeUndefined();
+  });
+});
+
+describe('scanShellScripts', () => {
+  it('reports reads and exports, skipping variables the script sets', async () => {
+    const root = writeTree({
+      'deploy.sh': [
+        '#!/bin/sh',
+        'export REGION=eu-west-1',
+        'name=api',
+        'echo "$name ${PORT:-8080} $HOME"',
+        "echo '$NOT_A_READ' # $ALSO_NOT",
+        'for f in *; do echo "$f"; done',
+        ': "${API_KEY:?API_KEY is required}"',
+        "cat <<'EOF'",
+        '$QUOTED_HEREDOC',
+        'EOF',
+        'cat <<EOF',
+        '$HEREDOC_READ',
+        'EOF',
+      ].join('\n'),
+    });
+    const envVars = await scanShellScripts(root, undefined, ['HOME']);
+
+    expect(envVars.map((ev) => [ev.name, ev.pattern, ev.line, ev.value, ev.required])).toEqual([
+      ['REGION', 'export', 2, 'eu-west-1', undefined],
+      ['PORT', 'read', 4, '8080', undefined],
+      ['API_KEY', 'read', 7, undefined, true],
+      ['HEREDOC_READ', 'read', 12, undefined, undefined],
+    ]);
+  });
+
+  it('reads Makefile references and ?= defaults, skipping := assignments', async () => {
+    const root = writeTree({
+      Makefile: ['IMAGE_TAG ?= latest', 'OUT := build', 'export GOFLAGS = -mod=vendor', 'build:', '\tdocker build -t app:$(IMAGE_TAG) $(OUT) $$CI_COMMIT'].join('\n'),
+    });
+    const envVars = await scanShellScripts(root, undefined, []);
+
+    expect(envVars.map((ev) => [ev.name, ev.language, ev.value])).toEqual([
+      ['IMAGE_TAG', 'makefile', 'latest'],
+      ['GOFLAGS', 'makefile', '-mod=vendor'],
+      ['IMAGE_TAG', 'makefile', undefined],
+      ['CI_COMMIT', 'makefile', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { scanTerraformFiles } from '../src/terraform-scanner.js';
+import { writeTree } from './fixtures.js';
+
+describe('scanTerraformFiles', () => {
+  it('resolves Lambda environment values from variables, locals and tfvars', async () => {
+    const root = writeTree({
+      'infra/main.tf': [
+        'variable "stage" {',
+        '  default = "dev"',
+        '}',
+        'variable "region" {}',
+        'locals {',
+        '  table = "orders"',
+        '}',
+        'resource "aws_lambda_function" "api" {',
+        '  environment {',
+        '    variables = {',
+        '      STAGE      = var.stage',
+        '      TABLE      = "${local.table}-${var.stage}"',
+        '      REGION     = var.region',
+        '      LOG_LEVEL  = "info"',
+        '      BUCKET_ARN = aws_s3_bucket.data.arn',
+        '    }',
+        '  }',
+        '}',
+      ].join('\n'),
+      'infra/terraform.tfvars': 'stage = "prod"\n',
+    });
+    const envVars = await scanTerraformFiles(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.line, ev.value, ev.valueSource])).toEqual([
+      ['STAGE', 11, 'prod', 'lambda-environment'],
+      ['TABLE', 12, 'orders-prod', 'lambda-environment'],
+      ['REGION', 13, undefined, undefined],
+      ['LOG_LEVEL', 14, 'info', 'lambda-environment'],
+      ['BUCKET_ARN', 15, undefined, undefined],
+    ]);
+  });
+
+  it('reads ECS container definitions from jsonencode, heredocs and JSON files', async () => {
+    const root = writeTree({
+      'ecs.tf': [
+        'resource "aws_ecs_task_definition" "app" {',
+        '  container_definitions = jsonencode([{',
+        '    name = "app"',
+        '    environment = [{ name = "PORT", value = "8080" }]',
+        '    secrets     = [{ name = "DB_PASSWORD", valueFrom = "arn:aws:ssm:db" }]',
+        '  }])',
+        '}',
+        'resource "aws_ecs_task_definition" "worker" {',
+        '  container_definitions = <<EOF',
+        '[{"name": "worker", "environment": [{"name": "QUEUE", "value": "jobs"}]}]',
+        'EOF',
+        '}',
+      ].join('\n'),
+      'task-definition.json': JSON.stringify({ containerDefinitions: [{ environment: [{ name: 'MODE', value: 'batch' }] }] }, null, 2),
+    });
+    const envVars = await scanTerraformFiles(root);
+
+    expect(envVars.map((ev) => [ev.name, ev.language, ev.pattern, ev.value, ev.valueSource])).toEqual([
+      ['PORT', 'terraform', 'ecs-environment', '8080', 'ecs-environment'],
+      ['DB_PASSWORD', 'terraform', 'ecs-secrets', 'arn:aws:ssm:db', 'ecs-secret'],
+      ['QUEUE', 'terraform', 'ecs-environment', 'jobs', 'ecs-environment'],
+      ['MODE', 'ecs', 'environment', 'batch', 'ecs-environment'],
+    ]);
+    expect(envVars[2].line).toBe(10);
+  });
+
+  it('reports files that fail to parse', async () => {
+    const root = writeTree({ 'broken.tf': 'resource "aws_lambda_function" "x" {\n' });
+    const errors: string[] = [];
+    await scanTerraformFiles(root, undefined, errors);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/broken\.tf:\d+: invalid HCL: /);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { findTypeConflicts, inferEnvVarTypes, inferReadType, inferValueType, resolveVarType } from '../src/type-inference.js';
+import { scan } from '../src/scanner.js';
+import type { EnvVar } from '../src/types.js';
+import { writeTree } from './fixtures.js';
+
+function usage(name: string, extra: Partial<EnvVar>): EnvVar {
+  return { name, file: '/repo/app.js', line: 1, language: 'javascript', pattern: 'process.env', ...extra };
+}
+
+describe('inferValueType', () => {
+  it('recognizes value shapes', () => {
+    expect(
+      ['true', '8080', '-1.5', '30s', '1h30m', 'https://api.example.com', '{"a":1}', '[1,2]', 'a, b,c', '{not json', 'hello world'].map(inferValueType)
+    ).toEqual(['bool', 'int', 'float', 'duration', 'duration', 'url', 'json', 'json', 'list', 'string', 'string']);
+  });
+});
+
+describe('inferReadType', () => {
+  it('uses the rule, then casts around the read', () => {
+    expect(inferReadType('js-envalid-port', '', '')).toEqual({ type: 'int', typeSource: 'rule' });
+    expect(inferReadType('js-process-env-dot', 'const port = parseInt(', ', 10)')).toEqual({ type: 'int', typeSource: 'cast' });
+    expect(inferReadType('python-os-getenv', 'x = float(', ')')).toEqual({ type: 'float', typeSource: 'cast' });
+    expect(inferReadType('ruby-env-bracket', '', '.to_i')).toEqual({ type: 'int', typeSource: 'cast' });
+    expect(inferReadType('js-process-env-dot', '', " === 'true'")).toEqual({ type: 'bool', typeSource: 'cast' });
+    expect(inferReadType('js-process-env-dot', '', '?.split(",")')).toEqual({ type: 'list', typeSource: 'cast' });
+    expect(inferReadType('js-process-env-dot', 'const x = ', ';')).toBeUndefined();
+  });
+});
+
+describe('inferEnvVarTypes and resolveVarType', () => {
+  it('types defaults at medium confidence and values at low', () => {
+    const envVars = [
+      usage('PORT', { value: '3000', isDefault: true }),
+      usage('PORT', { value: '8080.5', language: 'dotenv' }),
+      usage('NAME', { value: 'null', isDefault: true }),
+      usage('EMPTY', { value: '' }),
+    ];
+    inferEnvVarTypes(envVars);
+
+    expect(envVars.map((ev) => [ev.type, ev.typeConfidence, ev.typeSource])).toEqual([
+      ['int', 'medium', 'default'],
+      ['float', 'low', 'value'],
+      [undefined, undefined, undefined],
+      [undefined, undefined, undefined],
+    ]);
+    expect(resolveVarType(envVars.slice(0, 2))).toEqual({ type: 'int', confidence: 'medium' });
+  });
+
+  it('prefers float when int and float tie', () => {
+    const usages = [usage('RATE', { type: 'int', typeConfidence: 'high' }), usage('RATE', { type: 'float', typeConfidence: 'high' })];
+    expect(resolveVarType(usages)).toEqual({ type: 'float', confidence: 'high' });
+  });
+});
+
+describe('findTypeConflicts', () => {
+  it('reports incompatible types at medium confidence or above', () => {
+    const conflicts = findTypeConflicts([
+      usage('PORT', { type: 'int', typeConfidence: 'high', typeSource: 'cast' }),
+      usage('PORT', { type: 'bool', typeConfidence: 'medium', typeSource: 'default', line: 7 }),
+      usage('RATE', { type: 'int', typeConfidence: 'high', typeSource: 'cast' }),
+      usage('RATE', { type: 'float', typeConfidence: 'high', typeSource: 'cast' }),
+      usage('HOSTS', { type: 'string', typeConfidence: 'high', typeSource: 'rule' }),
+      usage('HOSTS', { type: 'list', typeConfidence: 'high', typeSource: 'cast' }),
+      usage('DEBUG', { type: 'bool', typeConfidence: 'high', typeSource: 'cast' }),
+      usage('DEBUG', { type: 'string', typeConfidence: 'low', typeSource: 'value' }),
+    ]);
+
+    expect(conflicts.map((c) => [c.name, c.usages.map((u) => `${u.type}:${u.line}`)])).toEqual([['PORT', ['int:1', 'bool:7']]]);
+  });
+});
+
+describe('scan types', () => {
+  it('infers types from casts and defaults in code', async () => {
+    const root = writeTree({
+      'app.py': 'import os\nport = int(os.getenv("PORT", "8000"))\ndebug = os.getenv("DEBUG", "false")\n',
+    });
+    const result = await scan(root, { engine: 'builtin' });
+
+    expect(result.envVars.map((ev) => [ev.name, ev.type, ev.typeSource]).sort()).toEqual([
+      ['DEBUG', 'bool', 'default'],
+      ['PORT', 'int', 'cast'],
+    ]);
+  });
+});